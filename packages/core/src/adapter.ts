@@ -47,7 +47,9 @@ export function createAdapter<THandler, TReq, TRes>(
     adapt(chain: MiddlewareChain): THandler {
       return options.createHandler(async (req: TReq, res: TRes) => {
         const fetchRequest = options.toRequest(req);
-        const response = await chain.handle(fetchRequest);
+        const response = await chain.handle(fetchRequest, undefined, {
+          remoteAddress: options.remoteAddress?.(req),
+        });
         await options.toResponse(response, res);
       });
     },
@@ -0,0 +1,83 @@
+import type { RequestBody } from './types.js';
+import { PayloadTooLargeError } from './errors.js';
+import { readStreamWithLimit } from './utils/body.js';
+
+/**
+ * Create the memoized body accessors for `ctx.body`.
+ * The request stream is read on the first call; text, JSON and form data
+ * are derived from the same bytes and cached as well.
+ *
+ * @param request - Fetch API Request
+ * @param limit - Maximum body size in bytes
+ * @returns RequestBody instance
+ */
+export function createRequestBody(request: Request, limit: number = Infinity): RequestBody {
+  let bytes: Promise<ArrayBuffer> | undefined;
+  let text: Promise<string> | undefined;
+  let json: Promise<unknown> | undefined;
+  let formData: Promise<FormData> | undefined;
+
+  const readBytes = (): Promise<ArrayBuffer> => {
+    bytes ??= readRequestBody(request, limit);
+    return bytes;
+  };
+
+  const readText = (): Promise<string> => {
+    text ??= readBytes().then((buffer) => new TextDecoder().decode(buffer));
+    return text;
+  };
+
+  return {
+    limit,
+
+    get read(): boolean {
+      return bytes !== undefined;
+    },
+
+    async arrayBuffer(): Promise<ArrayBuffer> {
+      // Copy so callers cannot alter what later readers see
+      return (await readBytes()).slice(0);
+    },
+
+    text: readText,
+
+    json<T = unknown>(): Promise<T> {
+      json ??= readText().then((value) => JSON.parse(value) as unknown);
+      return json as Promise<T>;
+    },
+
+    formData(): Promise<FormData> {
+      formData ??= readBytes().then((buffer) =>
+        new Response(buffer, {
+          headers: { 'Content-Type': request.headers.get('Content-Type') ?? '' },
+        }).formData()
+      );
+      return formData;
+    },
+  };
+}
+
+/**
+ * Read a request body stream, enforcing the size limit.
+ */
+async function readRequestBody(request: Request, limit: number): Promise<ArrayBuffer> {
+  if (request.bodyUsed) {
+    throw new Error('Request body was already read from ctx.request; use ctx.body instead');
+  }
+  if (!request.body) {
+    return new ArrayBuffer(0);
+  }
+
+  // Reject early when the declared size is already too large
+  const declared = Number(request.headers.get('Content-Length'));
+  if (declared > limit) {
+    await request.body.cancel();
+    throw new PayloadTooLargeError(limit);
+  }
+
+  const buffer = await readStreamWithLimit(request.body, limit);
+  if (!buffer) {
+    throw new PayloadTooLargeError(limit);
+  }
+  return buffer;
+}
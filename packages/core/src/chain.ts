@@ -1,26 +1,69 @@
 import type {
   Middleware,
-  MiddlewareHandler,
   MiddlewareChain,
+  ChainableMiddleware,
+  IntersectStates,
   MiddlewareContext,
+  MiddlewareResult,
+  NextFunction,
+  ChainCloseOptions,
+  ChainCloseResult,
+  ChainOptions,
+  ChainStatus,
+  ErrorClass,
+  ErrorMapper,
+  ChainInspection,
+  ChainExplanation,
+  HandleOptions,
+  Plugin,
 } from './types.js';
-import { createContext } from './context.js';
-import { ShortCircuitError } from './errors.js';
+import { createContext, disposeContext, scopeContext } from './context.js';
+import { compileTrustProxy } from './proxy.js';
+import { createServiceContainer } from './services.js';
+import {
+  applyDecorations,
+  createPluginHost,
+  type Decorations,
+  type PluginHook,
+} from './plugin.js';
+import { validateDependencies, collectProvides, collectRequires } from './dependencies.js';
+import { createEmitter, type ChainEmitter } from './events.js';
+import { inspectMiddlewares, explainMiddlewares } from './inspect.js';
+import { InitializationError, NextCallError, TimeoutError } from './errors.js';
+import { normalizePrefix, stripPrefix } from './utils/path.js';
+import { parseTime } from './utils/time.js';
+import { parseSize } from './utils/size.js';
+
+/**
+ * Plugins, hooks and decorations of each chain, copied by clone().
+ */
+const pluginStates = new WeakMap<object, PluginState>();
+
+/**
+ * Plugin registrations of a chain.
+ */
+interface PluginState {
+  plugins: string[];
+  pluginHooks: PluginHook[];
+  decorations: Decorations;
+}
 
 /**
  * Create a new middleware chain.
  * Use the builder pattern to add middlewares and execute the chain.
  *
  * @template TState - Type-safe state passed between middlewares
+ * @param options - Chain options
  * @returns MiddlewareChain instance
  *
  * @example
  * ```typescript
- * const chain = createChain<{ user?: User }>()
- *   .use(authMiddleware)
- *   .use(loggerMiddleware)
+ * // State accumulates from the middlewares: MiddlewareChain<BodyState & AuthState>
+ * const chain = createChain()
+ *   .use(bodyParser())
+ *   .use(auth({ jwt: { secret: 'secret' } }))
  *   .use(async (ctx, next) => {
- *     ctx.response.json({ message: 'Hello!' });
+ *     ctx.response.json({ user: ctx.state.user?.id, body: ctx.state.body });
  *     await next();
  *     return { done: false };
  *   });
@@ -30,69 +73,452 @@ import { ShortCircuitError } from './errors.js';
  */
 export function createChain<
   TState = Record<string, unknown>,
->(): MiddlewareChain<TState> {
+>(options: ChainOptions = {}): MiddlewareChain<TState> {
+  const {
+    initTimeout,
+    initFailure = 'retry',
+    cookies,
+    onError,
+    bodyLimit,
+    trustProxy,
+    services,
+    devWarnings = false,
+  } = options;
+  const initTimeoutMs = initTimeout !== undefined ? parseTime(initTimeout) : undefined;
+  // Compile upfront so invalid ranges fail here rather than on a request
+  if (trustProxy !== undefined) compileTrustProxy(trustProxy);
+  const contextOptions = {
+    cookieSecrets: cookies?.secrets,
+    bodyLimit: bodyLimit !== undefined ? parseSize(bodyLimit) : undefined,
+    trustProxy,
+    services: createServiceContainer(services),
+  };
+
   const middlewares: Middleware<TState>[] = [];
-  let initialized = false;
+  const errorMappers = new Map<Function, ErrorMapper<never, TState>>();
+  const initialized = new Set<Middleware<TState> | PluginHook>();
+  const plugins: string[] = [];
+  const pluginHooks: PluginHook[] = [];
+  const decorations: Decorations = { context: [], response: [] };
+  let status: ChainStatus = 'idle';
+  let initPromise: Promise<void> | null = null;
+  let initError: unknown = null;
+  let inFlight = 0;
+  let closePromise: Promise<ChainCloseResult> | null = null;
+  const drainWaiters: Array<() => void> = [];
+  const events = createEmitter();
+  // Composed on the first request after the middlewares change
+  let composed: ComposedChain<TState> | null = null;
+  // Only ever increases, so removing a middleware never renames the others
+  let anonymousCount = 0;
 
-  const chain: MiddlewareChain<TState> = {
-    use<TNewState extends TState>(
-      ...mws: Array<Middleware<TNewState> | MiddlewareHandler<TNewState>>
-    ): MiddlewareChain<TNewState> {
-      for (const mw of mws) {
-        if (typeof mw === 'function') {
-          middlewares.push({
-            name: `anonymous-${middlewares.length}`,
-            handler: mw as MiddlewareHandler<TState>,
-          });
-        } else {
-          middlewares.push(mw as Middleware<TState>);
+  /**
+   * Name bare handlers with the next free `anonymous-N` name.
+   */
+  const normalize = (mws: Array<ChainableMiddleware<TState>>): Middleware<TState>[] => {
+    const added: Middleware<TState>[] = [];
+    for (const mw of mws) {
+      if (typeof mw !== 'function') {
+        added.push(mw);
+        continue;
+      }
+      let name: string;
+      do {
+        name = `anonymous-${anonymousCount++}`;
+      } while ([...middlewares, ...added].some((other) => other.name === name));
+      added.push({ name, handler: mw });
+    }
+    return added;
+  };
+
+  /**
+   * Find the position of the only middleware with the given name.
+   */
+  const indexOfName = (name: string): number => {
+    const indexes = middlewares.flatMap((mw, index) => (mw.name === name ? [index] : []));
+    if (indexes.length === 0) {
+      throw new Error(`No middleware named "${name}" in the chain`);
+    }
+    if (indexes.length > 1) {
+      throw new Error(
+        `Middleware name "${name}" is ambiguous: ${indexes.length} middlewares share it`
+      );
+    }
+    return indexes[0]!;
+  };
+
+  /**
+   * Replace `deleteCount` middlewares at `start` with `added`.
+   */
+  const splice = (start: number, deleteCount: number, added: Middleware<TState>[]): void => {
+    // Reject ordering mistakes before the chain is changed
+    const next = [...middlewares];
+    next.splice(start, deleteCount, ...added);
+    validateDependencies(next, false);
+
+    middlewares.splice(start, deleteCount, ...added);
+    composed = null;
+    // New middlewares need initialization before the chain is ready again
+    if (status === 'ready' && middlewares.some((mw) => !initialized.has(mw))) {
+      status = 'idle';
+    }
+  };
+
+  /**
+   * Register a plugin after its dependencies.
+   */
+  const registerPlugin = (plugin: Plugin<unknown>, options: unknown, path: string[]): void => {
+    if (plugins.includes(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already registered`);
+    }
+    if (path.includes(plugin.name)) {
+      throw new Error(`Circular plugin dependency: ${[...path, plugin.name].join(' -> ')}`);
+    }
+
+    for (const dependency of plugin.dependencies ?? []) {
+      if (typeof dependency !== 'string') {
+        if (!plugins.includes(dependency.name)) {
+          registerPlugin(dependency as Plugin<unknown>, undefined, [...path, plugin.name]);
         }
+      } else if (!plugins.includes(dependency)) {
+        throw new Error(
+          `Plugin "${plugin.name}" requires plugin "${dependency}"; register it first`
+        );
       }
-      return chain as unknown as MiddlewareChain<TNewState>;
+    }
+
+    const hookCount = pluginHooks.length;
+    plugin.register(createPluginHost(plugin.name, chain, decorations, pluginHooks), options);
+    plugins.push(plugin.name);
+    // New hooks need initialization before the chain is ready again
+    if (status === 'ready' && pluginHooks.length > hookCount) {
+      status = 'idle';
+    }
+  };
+
+  const runInit = async (): Promise<void> => {
+    validateDependencies(middlewares, true);
+    // Plugin hooks first: they set up what the plugins' middlewares use
+    for (const hook of pluginHooks) {
+      if (initialized.has(hook)) continue;
+      await initializeMiddleware(hook, initTimeoutMs);
+      initialized.add(hook);
+    }
+    for (const mw of middlewares) {
+      if (initialized.has(mw)) continue;
+      if (mw.onInit) {
+        await initializeMiddleware(mw, initTimeoutMs);
+      }
+      initialized.add(mw);
+    }
+  };
+
+  const chain: MiddlewareChain<TState> = {
+    get status(): ChainStatus {
+      return status;
+    },
+
+    get ready(): boolean {
+      return status === 'ready';
+    },
+
+    use<TAdded extends unknown[]>(
+      ...mws: { [K in keyof TAdded]: ChainableMiddleware<TState & TAdded[K]> }
+    ): MiddlewareChain<TState & IntersectStates<TAdded>> {
+      splice(middlewares.length, 0, normalize(mws as Array<ChainableMiddleware<TState>>));
+      return chain as unknown as MiddlewareChain<TState & IntersectStates<TAdded>>;
+    },
+
+    insertBefore(
+      name: string,
+      ...mws: Array<ChainableMiddleware<TState>>
+    ): MiddlewareChain<TState> {
+      splice(indexOfName(name), 0, normalize(mws));
+      return chain;
+    },
+
+    insertAfter(name: string, ...mws: Array<ChainableMiddleware<TState>>): MiddlewareChain<TState> {
+      splice(indexOfName(name) + 1, 0, normalize(mws));
+      return chain;
+    },
+
+    replace(name: string, mw: ChainableMiddleware<TState>): MiddlewareChain<TState> {
+      splice(indexOfName(name), 1, normalize([mw]));
+      return chain;
+    },
+
+    remove(name: string): MiddlewareChain<TState> {
+      splice(indexOfName(name), 1, []);
+      return chain;
+    },
+
+    register<TOptions>(
+      plugin: Plugin<TOptions>,
+      ...options: undefined extends TOptions ? [options?: TOptions] : [options: TOptions]
+    ): MiddlewareChain<TState> {
+      // Undo everything the plugin and its dependencies added if one of them throws
+      const snapshot = {
+        middlewares: [...middlewares],
+        plugins: plugins.length,
+        pluginHooks: pluginHooks.length,
+        context: decorations.context.length,
+        response: decorations.response.length,
+        status,
+      };
+      try {
+        registerPlugin(plugin as Plugin<unknown>, options[0], []);
+      } catch (error) {
+        middlewares.splice(0, middlewares.length, ...snapshot.middlewares);
+        plugins.length = snapshot.plugins;
+        pluginHooks.length = snapshot.pluginHooks;
+        decorations.context.length = snapshot.context;
+        decorations.response.length = snapshot.response;
+        composed = null;
+        status = snapshot.status;
+        throw error;
+      }
+      return chain;
+    },
+
+    get plugins(): readonly string[] {
+      return [...plugins];
+    },
+
+    init(): Promise<void> {
+      if (status === 'ready') {
+        return Promise.resolve();
+      }
+      if (status === 'failed' && initFailure === 'fail-fast') {
+        return Promise.reject(initError);
+      }
+      if (status === 'closing' || status === 'closed') {
+        return Promise.reject(new Error('Cannot initialize a closed chain'));
+      }
+
+      if (!initPromise) {
+        status = 'initializing';
+        initPromise = runInit().then(
+          () => {
+            initPromise = null;
+            if (status === 'initializing') {
+              const pending = [...pluginHooks, ...middlewares].some((mw) => !initialized.has(mw));
+              status = pending ? 'idle' : 'ready';
+            }
+          },
+          (error: unknown) => {
+            initPromise = null;
+            initError = error;
+            if (status === 'initializing') {
+              status = 'failed';
+            }
+            throw error;
+          }
+        );
+      }
+      return initPromise;
+    },
+
+    validate(): void {
+      validateDependencies(middlewares, true);
     },
 
     async handle(
       request: Request,
-      initialState: Partial<TState> = {}
+      initialState: Partial<TState> = {},
+      handleOptions: HandleOptions = {}
     ): Promise<Response> {
-      // Initialize middlewares on first request
-      if (!initialized) {
-        await initializeMiddlewares(middlewares);
-        initialized = true;
+      if (closePromise) {
+        return closedResponse();
       }
 
-      const ctx = createContext<TState>(request, initialState);
+      const ctx = createContext<TState>(request, initialState, {
+        ...contextOptions,
+        remoteAddress: handleOptions.remoteAddress,
+        serviceOverrides: handleOptions.services,
+      });
 
+      inFlight++;
       try {
-        await executeChain(middlewares, ctx);
-        return ctx.response.build();
-      } catch (error) {
-        if (error instanceof ShortCircuitError) {
-          return error.response;
+        const start = performance.now();
+
+        let response: Response;
+        let failure: unknown;
+        try {
+          // Initialize middlewares on first request (no-op once ready)
+          if (status !== 'ready') {
+            await chain.init();
+          }
+          applyDecorations(ctx, decorations);
+
+          composed ??= composeChain(middlewares, { events, devWarnings });
+          const result = await composed(ctx);
+          response = result.done ? result.response : ctx.response.build();
+        } catch (error) {
+          const mapper =
+            findErrorMapper(errorMappers, error) ??
+            (onError as ErrorMapper<unknown, TState> | undefined);
+          if (!mapper) {
+            emitRequestEnd(events, ctx, 500, start, error);
+            throw error;
+          }
+          response = await mapErrorToResponse(mapper, error, ctx);
+          failure = error;
+        }
+
+        emitRequestEnd(events, ctx, response.status, start, failure);
+        return response;
+      } finally {
+        for (const error of await disposeContext(ctx)) {
+          // eslint-disable-next-line no-console
+          console.error('[OpenMiddleware] Failed to dispose a request-scoped service', error);
+        }
+        inFlight--;
+        if (inFlight === 0) {
+          drainWaiters.splice(0).forEach((resolve) => resolve());
         }
-        throw error;
       }
     },
 
+    mapError<TError>(
+      errorClass: ErrorClass<TError>,
+      mapper: ErrorMapper<TError, TState>
+    ): MiddlewareChain<TState> {
+      errorMappers.set(errorClass, mapper as ErrorMapper<never, TState>);
+      return chain;
+    },
+
+    mount(prefix: string, nested: MiddlewareChain<TState>): MiddlewareChain<TState> {
+      const normalized = normalizePrefix(prefix);
+      const inner = nested.toMiddleware();
+
+      const mounted: Middleware<TState> = {
+        name: `mount:${normalized || '/'}`,
+        handler: async (ctx, next) => {
+          const pathname = stripPrefix(ctx.meta.url.pathname, normalized);
+          if (pathname === null) {
+            await next();
+            return { done: false };
+          }
+
+          const url = new URL(ctx.meta.url.href);
+          url.pathname = pathname;
+
+          return inner.handler(scopeContext(ctx, url), next);
+        },
+        onInit: inner.onInit,
+        onDestroy: inner.onDestroy,
+        get requires() {
+          return inner.requires;
+        },
+        get provides() {
+          return inner.provides;
+        },
+        nested: { chain: nested, prefix: normalized },
+      };
+      // Same path as use(): dependency checks and init of the nested chain's hooks
+      splice(middlewares.length, 0, [mounted]);
+      return chain;
+    },
+
+    toMiddleware(name: string = 'chain'): Middleware<TState> {
+      return {
+        name,
+        handler: async (ctx, next) => {
+          applyDecorations(ctx, decorations);
+          composed ??= composeChain(middlewares, { events, devWarnings });
+          return composed(ctx, next);
+        },
+        // Computed on access so middlewares added later are included
+        get requires() {
+          return collectRequires(middlewares);
+        },
+        get provides() {
+          return collectProvides(middlewares);
+        },
+        nested: { chain },
+        onInit: () => initializeMiddlewares([...pluginHooks, ...middlewares]),
+        onDestroy: async () => {
+          const errors = [
+            ...(await destroyMiddlewares(middlewares)),
+            ...(await destroyMiddlewares(pluginHooks)),
+          ];
+          if (errors.length > 0) {
+            throw new AggregateError(errors, `${errors.length} onDestroy hook(s) failed in ${name}`);
+          }
+        },
+      };
+    },
+
+    on(event, listener) {
+      return events.on(event, listener);
+    },
+
+    off(event, listener) {
+      events.off(event, listener);
+    },
+
     getMiddlewares(): ReadonlyArray<Middleware<TState>> {
       return [...middlewares];
     },
 
+    inspect(): ChainInspection {
+      return { status, middlewares: inspectMiddlewares(middlewares) };
+    },
+
+    async explain(request: Request): Promise<ChainExplanation> {
+      const ctx = createContext<TState>(request, {}, contextOptions);
+      return {
+        method: ctx.meta.method,
+        path: ctx.meta.url.pathname,
+        steps: await explainMiddlewares(middlewares, ctx),
+      };
+    },
+
     clone(): MiddlewareChain<TState> {
-      const cloned = createChain<TState>();
+      const cloned = createChain<TState>(options);
       cloned.use(...middlewares);
+      for (const [errorClass, mapper] of errorMappers) {
+        cloned.mapError(errorClass as ErrorClass<never>, mapper);
+      }
+      // The plugins' middlewares came with use(); their registrations come here
+      const state = pluginStates.get(cloned)!;
+      state.plugins.push(...plugins);
+      state.pluginHooks.push(...pluginHooks);
+      state.decorations.context.push(...decorations.context);
+      state.decorations.response.push(...decorations.response);
       return cloned;
     },
+
+    close(options: ChainCloseOptions = {}): Promise<ChainCloseResult> {
+      if (!closePromise) {
+        status = 'closing';
+        const timeoutMs = parseTime(options.timeout ?? '30s');
+        const drained = inFlight === 0
+          ? Promise.resolve(true)
+          : waitForDrain(drainWaiters, timeoutMs);
+
+        closePromise = drained.then(async (isDrained) => {
+          const errors = await destroyMiddlewares(middlewares);
+          errors.push(...(await destroyMiddlewares(pluginHooks)));
+          // After onDestroy, which may still use singletons
+          errors.push(...(await contextOptions.services.dispose()));
+          status = 'closed';
+          return { drained: isDrained, errors };
+        });
+      }
+      return closePromise;
+    },
   };
 
+  pluginStates.set(chain, { plugins, pluginHooks, decorations });
   return chain;
 }
 
 /**
  * Initialize all middlewares that have onInit hooks.
  */
-async function initializeMiddlewares<TState>(
-  middlewares: Middleware<TState>[]
+async function initializeMiddlewares(
+  middlewares: Array<Pick<Middleware, 'onInit'>>
 ): Promise<void> {
   for (const mw of middlewares) {
     if (mw.onInit) {
@@ -102,30 +528,321 @@ async function initializeMiddlewares<TState>(
 }
 
 /**
- * Execute the middleware chain.
+ * Run a middleware's onInit hook, with an optional timeout.
+ *
+ * @throws InitializationError wrapping the hook's error or a TimeoutError
  */
-async function executeChain<TState>(
-  middlewares: Middleware<TState>[],
-  ctx: MiddlewareContext<TState>
+async function initializeMiddleware(
+  mw: Pick<Middleware, 'name' | 'onInit'>,
+  timeoutMs: number | undefined
 ): Promise<void> {
-  let index = 0;
+  if (!mw.onInit) return;
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const init = Promise.resolve().then(() => mw.onInit?.());
+    if (timeoutMs === undefined) {
+      await init;
+    } else {
+      await Promise.race([
+        init,
+        new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => reject(new TimeoutError(timeoutMs)), timeoutMs);
+        }),
+      ]);
+    }
+  } catch (error) {
+    throw new InitializationError(mw.name, error);
+  } finally {
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Call onDestroy hooks in reverse registration order.
+ * Every hook runs, even if an earlier one throws.
+ *
+ * @returns Errors thrown by the hooks
+ */
+async function destroyMiddlewares(
+  middlewares: Array<Pick<Middleware, 'onDestroy'>>
+): Promise<Error[]> {
+  const errors: Error[] = [];
+  for (const mw of [...middlewares].reverse()) {
+    if (!mw.onDestroy) continue;
+    try {
+      await mw.onDestroy();
+    } catch (error) {
+      errors.push(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Wait until the in-flight counter drops to zero or the timeout elapses.
+ *
+ * @returns true if drained, false on timeout
+ */
+function waitForDrain(waiters: Array<() => void>, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(false), timeoutMs);
+    waiters.push(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+  });
+}
 
-  const next = async (): Promise<void> => {
-    if (index >= middlewares.length) {
-      return;
+/**
+ * Response returned for requests arriving after close().
+ */
+function closedResponse(): Response {
+  return new Response(
+    JSON.stringify({ error: 'Service Unavailable', code: 'CHAIN_CLOSED' }),
+    {
+      status: 503,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Connection: 'close',
+      },
     }
+  );
+}
 
-    const middleware = middlewares[index++];
-    if (!middleware) {
-      return;
+/**
+ * Find the mapper for an error.
+ * InitializationErrors are matched by the hook's original error first.
+ */
+function findErrorMapper<TState>(
+  mappers: Map<Function, ErrorMapper<never, TState>>,
+  error: unknown
+): ErrorMapper<unknown, TState> | undefined {
+  if (mappers.size === 0) {
+    return undefined;
+  }
+
+  if (error instanceof InitializationError) {
+    const mapper = findClassMapper(mappers, error.cause);
+    if (mapper) {
+      // The hook's error is passed to its mapper, not the wrapper
+      return (_, ctx) => mapper(error.cause, ctx);
     }
+  }
+  return findClassMapper(mappers, error);
+}
 
-    const result = await middleware.handler(ctx, next);
+/**
+ * Find the mapper registered for the closest class of an error.
+ */
+function findClassMapper<TState>(
+  mappers: Map<Function, ErrorMapper<never, TState>>,
+  error: unknown
+): ErrorMapper<unknown, TState> | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
 
-    if (result.done) {
-      throw new ShortCircuitError(result.response);
+  for (let proto = Object.getPrototypeOf(error); proto; proto = Object.getPrototypeOf(proto)) {
+    const mapper = mappers.get((proto as { constructor: Function }).constructor);
+    if (mapper) {
+      return mapper as ErrorMapper<unknown, TState>;
     }
+  }
+  return undefined;
+}
+
+/**
+ * Run an error mapper, falling back to a generic 500 response if it throws.
+ */
+async function mapErrorToResponse<TState>(
+  mapper: ErrorMapper<unknown, TState>,
+  error: unknown,
+  ctx: MiddlewareContext<TState>
+): Promise<Response> {
+  try {
+    return await mapper(error, ctx);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Internal Server Error', code: 'INTERNAL_ERROR' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      }
+    );
+  }
+}
+
+/**
+ * Emit the request:end event if anyone listens.
+ */
+function emitRequestEnd<TState>(
+  events: ChainEmitter,
+  ctx: MiddlewareContext<TState>,
+  status: number,
+  start: number,
+  error?: unknown
+): void {
+  if (!events.hasListeners()) return;
+  events.emit('request:end', {
+    requestId: ctx.meta.id,
+    meta: ctx.meta,
+    status,
+    duration: performance.now() - start,
+    ...(error !== undefined && { error }),
+  });
+}
+
+/**
+ * Result of a middleware that passes control on; shared so continuing allocates nothing.
+ */
+const CONTINUE: MiddlewareResult = Object.freeze({ done: false });
+
+/**
+ * Middleware array composed into a single function.
+ * Resolves with the response of the middleware that short-circuited, or
+ * `{ done: false }` when every middleware continued.
+ */
+export type ComposedChain<TState> = (
+  ctx: MiddlewareContext<TState>,
+  final?: NextFunction
+) => Promise<MiddlewareResult>;
+
+/**
+ * Options for composeChain().
+ */
+export interface ComposeOptions {
+  /** Emitter for lifecycle events, used when it has listeners */
+  events?: ChainEmitter;
+  /** Warn when a middleware neither calls next() nor short-circuits */
+  devWarnings?: boolean;
+}
+
+/**
+ * Compose middlewares into a single function, once per change of the chain.
+ * Short-circuits travel back as values: next() resolves with the downstream
+ * result, and a middleware returning `{ done: false }` after a downstream
+ * short-circuit passes that result on.
+ * When `final` is given, it is called once the last middleware calls next(),
+ * which lets nested dispatchers (routers, mounted chains) continue the outer chain.
+ * Each middleware may call next() once, before it returns; other calls reject
+ * with a NextCallError.
+ *
+ * @param middlewares - Middlewares in execution order (copied)
+ * @param options - Events and development warnings
+ * @returns Function running the middlewares on a context
+ */
+export function composeChain<TState>(
+  middlewares: ReadonlyArray<Middleware<TState>>,
+  options: ComposeOptions = {}
+): ComposedChain<TState> {
+  const { events, devWarnings = false } = options;
+  const stack = [...middlewares];
+  const warned = new Set<Middleware<TState>>();
+
+  return (ctx, final) => {
+    // Latest short-circuit; upstream middlewares may replace it with their own
+    let outcome = CONTINUE;
+    // Errors are reported as middleware:error only where they first surface
+    let reportedError: unknown;
+
+    const dispatch = async (position: number): Promise<MiddlewareResult> => {
+      const middleware = stack[position];
+      if (!middleware) {
+        if (final) {
+          outcome = await final();
+        }
+        return outcome;
+      }
+
+      let called = false;
+      let returned: MiddlewareResult | undefined;
+      // Not async, so continuing does not wrap dispatch() in another promise
+      const next: NextFunction = () => {
+        if (returned || called) {
+          return Promise.reject(misuse(middleware.name, returned));
+        }
+        called = true;
+        return dispatch(position + 1);
+      };
+
+      const result =
+        events && events.hasListeners()
+          ? await observe(events, middleware, position, next)
+          : await middleware.handler(ctx, next);
+      returned = result;
+
+      if (result.done) {
+        outcome = result;
+      } else if (!called && devWarnings && !warned.has(middleware)) {
+        if (final || position < stack.length - 1) {
+          warned.add(middleware);
+          // eslint-disable-next-line no-console
+          console.warn(
+            `[OpenMiddleware] Middleware "${middleware.name}" returned { done: false } ` +
+              'without calling next(); the rest of the chain was skipped'
+          );
+        }
+      }
+      return outcome;
+    };
+
+    /**
+     * Run a middleware, emitting its lifecycle events.
+     */
+    const observe = async (
+      emitter: ChainEmitter,
+      middleware: Middleware<TState>,
+      position: number,
+      next: NextFunction
+    ): Promise<MiddlewareResult> => {
+      const base = {
+        name: middleware.name,
+        index: position,
+        requestId: ctx.meta.id,
+        meta: ctx.meta,
+        startTime: Date.now(),
+      };
+      const start = performance.now();
+      emitter.emit('middleware:start', base);
+
+      let result: MiddlewareResult;
+      try {
+        result = await middleware.handler(ctx, next);
+      } catch (error) {
+        const duration = performance.now() - start;
+        if (error === reportedError) {
+          emitter.emit('middleware:end', { ...base, duration });
+        } else {
+          reportedError = error;
+          emitter.emit('middleware:error', { ...base, duration, error });
+        }
+        throw error;
+      }
+
+      const duration = performance.now() - start;
+      // A result passed up from next() was reported where it was produced
+      if (result.done && result !== outcome) {
+        emitter.emit('short-circuit', { ...base, duration, response: result.response });
+      }
+      emitter.emit('middleware:end', { ...base, duration });
+      return result;
+    };
+
+    return dispatch(0);
   };
+}
 
-  await next();
+/**
+ * Error for a call to next() after the middleware already called it or returned.
+ */
+function misuse(name: string, returned: MiddlewareResult | undefined): NextCallError {
+  const reason = !returned
+    ? 'more than once'
+    : returned.done
+      ? 'after short-circuiting'
+      : 'after it returned';
+  return new NextCallError(name, `Middleware "${name}" called next() ${reason}`);
 }
@@ -0,0 +1,197 @@
+import type {
+  Middleware,
+  MiddlewareHandler,
+  MiddlewareContext,
+  MiddlewareConditionInfo,
+} from './types.js';
+import { compilePathGlob } from './utils/path.js';
+
+/**
+ * Condition deciding whether a wrapped middleware runs.
+ * - `function`: Custom predicate (may be async)
+ * - `string`: Path glob (`*` matches one segment, `**` any number of segments)
+ * - `string[]`: Any of the path globs
+ */
+export type MiddlewareCondition<TState = Record<string, unknown>> =
+  | ((ctx: MiddlewareContext<TState>) => boolean | Promise<boolean>)
+  | string
+  | string[];
+
+/**
+ * Run a middleware only when the condition holds.
+ * Otherwise the request continues to the next middleware.
+ * The wrapped middleware keeps its name and `onInit`/`onDestroy` hooks.
+ * A bare handler is named `when(<function name>)`, or `when(anonymous)` when
+ * the function has no name. Wrappers of the same handler share that name, so
+ * give the handler a name of its own (`{ name, handler }`) to address it in
+ * `insertBefore()`/`remove()`.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ * @param condition - Predicate or path glob(s)
+ * @param middleware - Middleware or handler to wrap
+ * @returns Conditional middleware
+ *
+ * @example
+ * ```typescript
+ * import { createChain, when, auth } from '@openmiddleware/chain';
+ *
+ * const chain = createChain()
+ *   .use(when('/api/**', auth({ jwt: { secret: 'secret' } })))
+ *   .use(when((ctx) => ctx.request.headers.has('X-Debug'), debugMiddleware));
+ * ```
+ */
+export function when<TState = Record<string, unknown>>(
+  condition: MiddlewareCondition<TState>,
+  middleware: Middleware<TState> | MiddlewareHandler<TState>
+): Middleware<TState> {
+  const test = compileCondition(condition);
+  return wrapConditional('when', middleware, {
+    description: `when ${describeCondition(condition)}`,
+    test: (ctx) => test(ctx),
+  });
+}
+
+/**
+ * Run a middleware unless the condition holds.
+ * The wrapped middleware keeps its name and `onInit`/`onDestroy` hooks;
+ * bare handlers are named like `unless(<function name>)`.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ * @param condition - Predicate or path glob(s) to exclude
+ * @param middleware - Middleware or handler to wrap
+ * @returns Conditional middleware
+ *
+ * @example
+ * ```typescript
+ * import { createChain, unless, auth } from '@openmiddleware/chain';
+ *
+ * const chain = createChain()
+ *   .use(unless(['/health', '/metrics'], auth({ jwt: { secret: 'secret' } })));
+ * ```
+ */
+export function unless<TState = Record<string, unknown>>(
+  condition: MiddlewareCondition<TState>,
+  middleware: Middleware<TState> | MiddlewareHandler<TState>
+): Middleware<TState> {
+  const test = compileCondition(condition);
+  return wrapConditional('unless', middleware, {
+    description: `unless ${describeCondition(condition)}`,
+    test: async (ctx) => !(await test(ctx)),
+  });
+}
+
+/**
+ * Run a middleware only for the given HTTP methods.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ * @param methods - HTTP methods (case-insensitive)
+ * @param middleware - Middleware or handler to wrap
+ * @returns Conditional middleware
+ *
+ * @example
+ * ```typescript
+ * import { createChain, forMethods, bodyParser } from '@openmiddleware/chain';
+ *
+ * const chain = createChain()
+ *   .use(forMethods(['POST', 'PUT', 'PATCH'], bodyParser()));
+ * ```
+ */
+export function forMethods<TState = Record<string, unknown>>(
+  methods: string[],
+  middleware: Middleware<TState> | MiddlewareHandler<TState>
+): Middleware<TState> {
+  const allowed = new Set(methods.map((m) => m.toUpperCase()));
+  return wrapConditional('forMethods', middleware, {
+    description: `for methods ${[...allowed].join(', ')}`,
+    test: (ctx) => allowed.has(ctx.meta.method),
+  });
+}
+
+/**
+ * Run a middleware only for paths matching any of the globs.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ * @param globs - Path glob or globs
+ * @param middleware - Middleware or handler to wrap
+ * @returns Conditional middleware
+ *
+ * @example
+ * ```typescript
+ * import { createChain, forPaths, cache } from '@openmiddleware/chain';
+ *
+ * const chain = createChain()
+ *   .use(forPaths(['/public/**', '/docs/*'], cache({ ttl: '5m' })));
+ * ```
+ */
+export function forPaths<TState = Record<string, unknown>>(
+  globs: string | string[],
+  middleware: Middleware<TState> | MiddlewareHandler<TState>
+): Middleware<TState> {
+  const test = compileCondition(globs);
+  return wrapConditional('forPaths', middleware, {
+    description: `when ${describeCondition(globs)}`,
+    test: (ctx) => test(ctx),
+  });
+}
+
+/**
+ * Wrap a middleware so it only runs when the condition resolves to true.
+ * The condition is recorded on the result for `chain.inspect()`/`chain.explain()`,
+ * combined with the condition of an already conditional middleware.
+ * Bare handlers are named after the combinator, e.g. `when(logRequest)`.
+ */
+function wrapConditional<TState>(
+  kind: string,
+  middleware: Middleware<TState> | MiddlewareHandler<TState>,
+  condition: MiddlewareConditionInfo<TState>
+): Middleware<TState> {
+  const mw: Middleware<TState> =
+    typeof middleware === 'function'
+      ? {
+          name: `${kind}(${middleware.name || 'anonymous'})`,
+          handler: middleware,
+        }
+      : middleware;
+  const inner = mw.condition;
+
+  return {
+    ...mw,
+    condition: inner
+      ? {
+          description: `${condition.description} and ${inner.description}`,
+          test: async (ctx) => (await condition.test(ctx)) && (await inner.test(ctx)),
+        }
+      : condition,
+    handler: async (ctx, next) => {
+      if (!(await condition.test(ctx))) {
+        await next();
+        return { done: false };
+      }
+      return mw.handler(ctx, next);
+    },
+  };
+}
+
+/**
+ * Compile a condition into a predicate.
+ */
+function compileCondition<TState>(
+  condition: MiddlewareCondition<TState>
+): (ctx: MiddlewareContext<TState>) => boolean | Promise<boolean> {
+  if (typeof condition === 'function') {
+    return condition;
+  }
+
+  const matchers = (Array.isArray(condition) ? condition : [condition]).map(compilePathGlob);
+  return (ctx) => matchers.some((match) => match(ctx.meta.url.pathname));
+}
+
+/**
+ * Describe a condition for introspection.
+ */
+function describeCondition<TState>(condition: MiddlewareCondition<TState>): string {
+  if (typeof condition === 'function') {
+    return condition.name ? `${condition.name}()` : 'custom predicate';
+  }
+  return `path matches ${(Array.isArray(condition) ? condition : [condition]).join(', ')}`;
+}
@@ -1,13 +1,66 @@
-import type { MiddlewareContext, RequestMeta } from './types.js';
+import type { MiddlewareContext, RequestMeta, ServiceProvider, TrustProxy } from './types.js';
 import { createResponseBuilder } from './response.js';
+import { createCookieJar } from './cookies.js';
+import { createRequestBody } from './body.js';
+import { compileTrustProxy, resolveClient } from './proxy.js';
+import { createServiceContainer, type RequestServices, type ServiceContainer } from './services.js';
 import { generateUUID } from './utils/uuid.js';
 
+/**
+ * Abort controllers behind `ctx.signal`.
+ * Keyed by signal so context views of mounted chains still resolve.
+ */
+const controllers = new WeakMap<AbortSignal, AbortController>();
+
+/**
+ * Services behind `ctx.get()`, disposed by disposeContext().
+ */
+const requestServices = new WeakMap<object, RequestServices>();
+
+/**
+ * Options for createContext().
+ */
+export interface ContextOptions {
+  /**
+   * Secrets for signed and encrypted cookies, newest first.
+   */
+  cookieSecrets?: string[];
+
+  /**
+   * Maximum request body size in bytes for `ctx.body`.
+   * @default Infinity
+   */
+  bodyLimit?: number;
+
+  /**
+   * Which proxies may set forwarding headers.
+   * When not set, no proxy is trusted and the client IP is `remoteAddress`.
+   */
+  trustProxy?: TrustProxy;
+
+  /**
+   * Socket address of the connected peer, supplied by the adapter.
+   */
+  remoteAddress?: string;
+
+  /**
+   * Services resolved by `ctx.get()`. Without it, every `get()` throws.
+   */
+  services?: ServiceContainer;
+
+  /**
+   * Providers replacing those of `services` for this context.
+   */
+  serviceOverrides?: ServiceProvider[];
+}
+
 /**
  * Create a new MiddlewareContext for a request.
  *
  * @template TState - Type-safe state passed between middlewares
  * @param request - Fetch API Request
  * @param initialState - Initial state object
+ * @param options - Context options
  * @returns MiddlewareContext instance
  *
  * @example
@@ -20,17 +73,104 @@ import { generateUUID } from './utils/uuid.js';
  */
 export function createContext<TState = Record<string, unknown>>(
   request: Request,
-  initialState: Partial<TState> = {}
+  initialState: Partial<TState> = {},
+  options: ContextOptions = {}
 ): MiddlewareContext<TState> {
+  const { cookieSecrets = [], bodyLimit } = options;
   const url = new URL(request.url);
-  const meta = createRequestMeta(request, url);
+  const meta = createRequestMeta(request, url, options);
+  const controller = createRequestController(request);
+  const services = (options.services ?? createServiceContainer()).createScope(
+    options.serviceOverrides
+  );
 
-  return {
+  // Plugin decorations (ContextExtensions) are added by the chain before the middlewares run
+  const ctx = {
     request,
-    response: createResponseBuilder(),
+    response: createResponseBuilder({ request, signal: controller.signal, cookieSecrets }),
     state: { ...initialState } as TState,
     meta,
-  };
+    signal: controller.signal,
+    cookies: createCookieJar(request.headers.get('Cookie'), cookieSecrets),
+    body: createRequestBody(request, bodyLimit),
+    get: (token) => services.get(token, ctx),
+  } as MiddlewareContext<TState>;
+
+  controllers.set(controller.signal, controller);
+  requestServices.set(ctx, services);
+  return ctx;
+}
+
+/**
+ * Dispose the request-scoped services of a context created by createContext().
+ * Called by the chain when `handle()` finishes.
+ *
+ * @param ctx - Middleware context
+ * @returns Errors thrown by dispose hooks
+ */
+export async function disposeContext<TState>(ctx: MiddlewareContext<TState>): Promise<Error[]> {
+  return (await requestServices.get(ctx)?.dispose()) ?? [];
+}
+
+/**
+ * View of a context with a different `ctx.meta.url`, used by mounted chains.
+ * Everything else, including writes to `ctx` and `ctx.meta`, goes to the
+ * original context, so the parent chain sees what the mounted chain sets.
+ *
+ * @param ctx - Middleware context
+ * @param url - URL seen through `ctx.meta.url`
+ * @returns Context view
+ */
+export function scopeContext<TState>(
+  ctx: MiddlewareContext<TState>,
+  url: URL
+): MiddlewareContext<TState> {
+  const meta = new Proxy(ctx.meta, {
+    get: (target, property, receiver) =>
+      property === 'url' ? url : Reflect.get(target, property, receiver),
+  });
+  return new Proxy(ctx, {
+    get: (target, property, receiver) =>
+      property === 'meta' ? meta : Reflect.get(target, property, receiver),
+  });
+}
+
+/**
+ * Abort `ctx.signal` for a context created by createContext().
+ * Used by middlewares that cancel a request (e.g. timeout()).
+ *
+ * @param ctx - Middleware context
+ * @param reason - Abort reason (becomes `ctx.signal.reason`)
+ */
+export function abortContext<TState>(ctx: MiddlewareContext<TState>, reason?: unknown): void {
+  controllers.get(ctx.signal)?.abort(reason);
+}
+
+/**
+ * Create the controller for `ctx.signal`, following `request.signal`.
+ *
+ * @param request - Fetch API Request
+ * @returns AbortController instance
+ */
+function createRequestController(request: Request): AbortController {
+  const controller = new AbortController();
+  const upstream = request.signal as AbortSignal | undefined;
+
+  if (upstream) {
+    if (upstream.aborted) {
+      controller.abort(upstream.reason);
+    } else {
+      const onAbort = (): void => controller.abort(upstream.reason);
+      upstream.addEventListener('abort', onAbort, { once: true });
+      controller.signal.addEventListener(
+        'abort',
+        () => upstream.removeEventListener('abort', onAbort),
+        { once: true }
+      );
+    }
+  }
+
+  return controller;
 }
 
 /**
@@ -38,15 +178,19 @@ export function createContext<TState = Record<string, unknown>>(
  *
  * @param request - Fetch API Request
  * @param url - Parsed URL
+ * @param options - Context options (trustProxy and remoteAddress)
  * @returns RequestMeta object
  */
-function createRequestMeta(request: Request, url: URL): RequestMeta {
+function createRequestMeta(request: Request, url: URL, options: ContextOptions): RequestMeta {
+  const { trustProxy, remoteAddress } = options;
+  const client = resolveClient(request, url, remoteAddress, compileTrustProxy(trustProxy ?? false));
+
   return {
     id: extractRequestId(request) || generateUUID(),
     startTime: Date.now(),
     url,
     method: request.method.toUpperCase(),
-    ip: extractClientIP(request),
+    ...client,
   };
 }
 
@@ -65,61 +209,3 @@ function extractRequestId(request: Request): string | undefined {
     undefined
   );
 }
-
-/**
- * Extract client IP from common proxy headers.
- *
- * @param request - Fetch API Request
- * @returns Client IP address if available
- */
-function extractClientIP(request: Request): string | undefined {
-  const headers = request.headers;
-
-  // Try common headers in order of preference
-  const ipHeaders = [
-    'cf-connecting-ip', // Cloudflare
-    'x-real-ip', // Nginx
-    'x-forwarded-for', // Standard proxy header
-    'x-client-ip', // Apache
-    'true-client-ip', // Akamai
-  ];
-
-  for (const header of ipHeaders) {
-    const value = headers.get(header);
-    if (value) {
-      // x-forwarded-for can contain multiple IPs, take the first
-      const ip = value.split(',')[0]?.trim();
-      if (ip && isValidIP(ip)) {
-        return ip;
-      }
-    }
-  }
-
-  return undefined;
-}
-
-/**
- * Basic IP address validation.
- *
- * @param ip - IP address string
- * @returns true if valid IPv4 or IPv6
- */
-function isValidIP(ip: string): boolean {
-  // Simple validation - not exhaustive but catches obvious invalid values
-  // IPv4
-  if (/^(\d{1,3}\.){3}\d{1,3}$/.test(ip)) {
-    return ip.split('.').every((n) => {
-      const num = parseInt(n, 10);
-      return num >= 0 && num <= 255;
-    });
-  }
-
-  // IPv6 (simplified check)
-  if (ip.includes(':')) {
-    return /^([0-9a-fA-F]{0,4}:){2,7}[0-9a-fA-F]{0,4}$/.test(ip) ||
-           /^::1$/.test(ip) ||
-           /^::$/.test(ip);
-  }
-
-  return false;
-}
@@ -0,0 +1,257 @@
+import type { CookieJar } from './types.js';
+import { parseCookies } from './utils/cookies.js';
+
+/**
+ * Imported keys, cached by secret so each secret is imported once.
+ */
+const hmacKeys = new Map<string, Promise<CryptoKey>>();
+const aesKeys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Length of the AES-GCM initialization vector in bytes.
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Create the cookie jar for a request.
+ *
+ * @param header - Cookie request header
+ * @param secrets - Secrets for signed and encrypted cookies, newest first
+ * @returns CookieJar instance
+ */
+export function createCookieJar(header: string | null, secrets: string[] = []): CookieJar {
+  let cookies: Record<string, string> | null = null;
+  // Parse lazily - most requests never read their cookies
+  const all = (): Record<string, string> => (cookies ??= parseCookies(header));
+  // Own properties only, so 'toString' or 'constructor' never resolve to Object.prototype
+  const lookup = (name: string): string | undefined =>
+    Object.hasOwn(all(), name) ? all()[name] : undefined;
+
+  return {
+    get(name) {
+      return lookup(name);
+    },
+
+    getAll() {
+      return { ...all() };
+    },
+
+    has(name) {
+      return Object.hasOwn(all(), name);
+    },
+
+    async getSigned(name) {
+      const value = lookup(name);
+      return value === undefined ? undefined : unsignCookieValue(name, value, secrets);
+    },
+
+    async getEncrypted(name) {
+      const value = lookup(name);
+      return value === undefined ? undefined : decryptCookieValue(name, value, secrets);
+    },
+  };
+}
+
+/**
+ * Sign a cookie value with HMAC-SHA256.
+ * The signature covers the cookie name so values cannot be moved between cookies.
+ *
+ * @param name - Cookie name
+ * @param value - Cookie value
+ * @param secret - Signing secret
+ * @returns `<value>.<signature>`
+ */
+export async function signCookieValue(name: string, value: string, secret: string): Promise<string> {
+  const signature = await hmac(`${name}=${value}`, secret);
+  return `${value}.${base64UrlEncodeBytes(signature)}`;
+}
+
+/**
+ * Verify a signed cookie value against each secret.
+ *
+ * @param name - Cookie name
+ * @param signed - Value produced by signCookieValue()
+ * @param secrets - Secrets to try, newest first
+ * @returns Original value, or undefined if no secret matches
+ */
+export async function unsignCookieValue(
+  name: string,
+  signed: string,
+  secrets: string[]
+): Promise<string | undefined> {
+  const dotIndex = signed.lastIndexOf('.');
+  if (dotIndex === -1) return undefined;
+
+  const value = signed.slice(0, dotIndex);
+  const signature = base64UrlDecodeToBytes(signed.slice(dotIndex + 1));
+  if (!signature) return undefined;
+
+  for (const secret of secrets) {
+    const expected = await hmac(`${name}=${value}`, secret);
+    if (timingSafeEqual(expected, signature)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Encrypt a cookie value with AES-256-GCM.
+ * The cookie name is authenticated as additional data.
+ *
+ * @param name - Cookie name
+ * @param value - Cookie value
+ * @param secret - Encryption secret
+ * @returns Base64url encoded IV and ciphertext
+ */
+export async function encryptCookieValue(
+  name: string,
+  value: string,
+  secret: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+    await aesKey(secret),
+    encoder.encode(value)
+  );
+
+  const bytes = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  bytes.set(iv);
+  bytes.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return base64UrlEncodeBytes(bytes);
+}
+
+/**
+ * Decrypt a cookie value with each secret.
+ *
+ * @param name - Cookie name
+ * @param encrypted - Value produced by encryptCookieValue()
+ * @param secrets - Secrets to try, newest first
+ * @returns Original value, or undefined if no secret decrypts it
+ */
+export async function decryptCookieValue(
+  name: string,
+  encrypted: string,
+  secrets: string[]
+): Promise<string | undefined> {
+  const bytes = base64UrlDecodeToBytes(encrypted);
+  if (!bytes || bytes.length <= IV_LENGTH) return undefined;
+
+  const iv = bytes.slice(0, IV_LENGTH);
+  const ciphertext = bytes.slice(IV_LENGTH);
+  const additionalData = new TextEncoder().encode(name);
+
+  for (const secret of secrets) {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData },
+        await aesKey(secret),
+        ciphertext
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      // Wrong secret or tampered value - try the next secret
+    }
+  }
+  return undefined;
+}
+
+/**
+ * HMAC-SHA256 using Web Crypto API.
+ */
+async function hmac(data: string, secret: string): Promise<Uint8Array> {
+  let key = hmacKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    hmacKeys.set(secret, key);
+  }
+
+  const signature = await crypto.subtle.sign('HMAC', await key, new TextEncoder().encode(data));
+  return new Uint8Array(signature);
+}
+
+/**
+ * Derive the AES-GCM key for a secret with HKDF, keeping it independent of the HMAC key.
+ */
+function aesKey(secret: string): Promise<CryptoKey> {
+  let key = aesKeys.get(secret);
+  if (!key) {
+    const encoder = new TextEncoder();
+    key = crypto.subtle
+      .importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey'])
+      .then((material) =>
+        crypto.subtle.deriveKey(
+          {
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt: new Uint8Array(0),
+            info: encoder.encode('openmiddleware cookie encryption'),
+          },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        )
+      );
+    aesKeys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Timing-safe comparison of two byte arrays.
+ */
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return result === 0;
+}
+
+/**
+ * Base64 URL encode bytes.
+ */
+function base64UrlEncodeBytes(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]!);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Base64 URL decode to bytes.
+ * Returns null for malformed input.
+ */
+function base64UrlDecodeToBytes(str: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(str)) return null;
+
+  let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4) {
+    base64 += '=';
+  }
+
+  try {
+    const decoded = atob(base64);
+    const bytes = new Uint8Array(decoded.length);
+    for (let i = 0; i < decoded.length; i++) {
+      bytes[i] = decoded.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+import type { Middleware } from './types.js';
+import { DependencyError } from './errors.js';
+
+/**
+ * Check the `requires`/`provides`/`before`/`after` declarations of a middleware list.
+ *
+ * With `complete: false` (used by `use()` while the chain is still being built), only
+ * violations that adding more middlewares cannot fix are reported. With `complete: true`
+ * (used at init), a requirement that no middleware provides is reported as well.
+ *
+ * @param middlewares - Middlewares in execution order
+ * @param complete - Whether the list is final
+ * @throws DependencyError for the first violation found
+ */
+export function validateDependencies<TState>(
+  middlewares: ReadonlyArray<Middleware<TState>>,
+  complete: boolean
+): void {
+  middlewares.forEach((mw, index) => {
+    const earlier = middlewares.slice(0, index);
+    const later = middlewares.slice(index + 1);
+
+    for (const capability of mw.requires ?? []) {
+      if (earlier.some((other) => other.provides?.includes(capability))) continue;
+
+      const provider = later.find((other) => other.provides?.includes(capability));
+      if (provider) {
+        throw new DependencyError(
+          mw.name,
+          `${mw.name} requires ${capability} after ${provider.name}, but is registered before it`
+        );
+      }
+      if (complete) {
+        throw new DependencyError(
+          mw.name,
+          `${mw.name} requires ${capability}, but no middleware in the chain provides it`
+        );
+      }
+    }
+
+    for (const name of mw.before ?? []) {
+      if (earlier.some((other) => other.name === name)) {
+        throw new DependencyError(mw.name, `${mw.name} must run before ${name}`);
+      }
+    }
+
+    for (const name of mw.after ?? []) {
+      if (later.some((other) => other.name === name)) {
+        throw new DependencyError(mw.name, `${mw.name} must run after ${name}`);
+      }
+    }
+  });
+}
+
+/**
+ * Capabilities provided by a middleware list, for a chain used as a single middleware.
+ *
+ * @param middlewares - Middlewares in execution order
+ * @returns Provided capabilities
+ */
+export function collectProvides<TState>(
+  middlewares: ReadonlyArray<Middleware<TState>>
+): string[] {
+  return [...new Set(middlewares.flatMap((mw) => mw.provides ?? []))];
+}
+
+/**
+ * Requirements of a middleware list that none of its own earlier middlewares provide,
+ * for a chain used as a single middleware.
+ *
+ * @param middlewares - Middlewares in execution order
+ * @returns Requirements left for the outer chain
+ */
+export function collectRequires<TState>(
+  middlewares: ReadonlyArray<Middleware<TState>>
+): string[] {
+  const provided = new Set<string>();
+  const required = new Set<string>();
+
+  for (const mw of middlewares) {
+    for (const capability of mw.requires ?? []) {
+      if (!provided.has(capability)) required.add(capability);
+    }
+    for (const capability of mw.provides ?? []) {
+      provided.add(capability);
+    }
+  }
+  return [...required];
+}
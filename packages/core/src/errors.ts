@@ -149,14 +149,131 @@ export class TimeoutError extends MiddlewareError {
 }
 
 /**
- * Internal error used for short-circuiting the middleware chain.
- * Not exported publicly - used internally by the chain.
+ * Error thrown when a middleware's onInit hook fails or times out.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await chain.init();
+ * } catch (error) {
+ *   if (isInitializationError(error)) {
+ *     console.error(`${error.middleware} failed:`, error.cause);
+ *   }
+ * }
+ * ```
  */
-export class ShortCircuitError extends Error {
-  constructor(public readonly response: Response) {
-    super('Short circuit');
-    this.name = 'ShortCircuitError';
-    Object.setPrototypeOf(this, new.target.prototype);
+export class InitializationError extends MiddlewareError {
+  /**
+   * Create a new InitializationError
+   * @param middleware - Name of the middleware that failed
+   * @param cause - Error thrown by the onInit hook
+   */
+  constructor(
+    public readonly middleware: string,
+    public override readonly cause: unknown
+  ) {
+    super(
+      `Middleware "${middleware}" failed to initialize: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      'INIT_ERROR',
+      503
+    );
+    this.name = 'InitializationError';
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      middleware: this.middleware,
+    };
+  }
+}
+
+/**
+ * Middleware ordering error, thrown when `requires`/`provides`/`before`/`after`
+ * declarations are not satisfied by the chain.
+ *
+ * @example
+ * ```typescript
+ * throw new DependencyError('validator', 'validator must run after body-parser');
+ * ```
+ */
+export class DependencyError extends MiddlewareError {
+  /**
+   * Create a new DependencyError
+   * @param middleware - Name of the middleware whose declaration is violated
+   * @param message - Error message
+   */
+  constructor(
+    public readonly middleware: string,
+    message: string
+  ) {
+    super(message, 'DEPENDENCY_ERROR', 500);
+    this.name = 'DependencyError';
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      middleware: this.middleware,
+    };
+  }
+}
+
+/**
+ * Request body larger than the allowed size.
+ *
+ * @example
+ * ```typescript
+ * throw new PayloadTooLargeError(1024 * 1024);
+ * ```
+ */
+export class PayloadTooLargeError extends MiddlewareError {
+  /**
+   * Create a new PayloadTooLargeError
+   * @param limit - Maximum body size in bytes
+   */
+  constructor(public readonly limit: number) {
+    super(`Request body exceeds limit of ${limit} bytes`, 'PAYLOAD_TOO_LARGE', 413);
+    this.name = 'PayloadTooLargeError';
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      limit: this.limit,
+    };
+  }
+}
+
+/**
+ * Misuse of next(): called more than once, or after the middleware returned.
+ *
+ * @example
+ * ```typescript
+ * throw new NextCallError('auth', 'Middleware "auth" called next() more than once');
+ * ```
+ */
+export class NextCallError extends MiddlewareError {
+  /**
+   * Create a new NextCallError
+   * @param middleware - Name of the middleware that called next()
+   * @param message - Error message
+   */
+  constructor(
+    public readonly middleware: string,
+    message: string
+  ) {
+    super(message, 'NEXT_CALL_ERROR', 500);
+    this.name = 'NextCallError';
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      middleware: this.middleware,
+    };
   }
 }
 
@@ -204,3 +321,39 @@ export function isRateLimitError(error: unknown): error is RateLimitError {
 export function isTimeoutError(error: unknown): error is TimeoutError {
   return error instanceof TimeoutError;
 }
+
+/**
+ * Check if error is an InitializationError
+ * @param error - Error to check
+ * @returns true if error is an InitializationError instance
+ */
+export function isInitializationError(error: unknown): error is InitializationError {
+  return error instanceof InitializationError;
+}
+
+/**
+ * Check if error is a DependencyError
+ * @param error - Error to check
+ * @returns true if error is a DependencyError instance
+ */
+export function isDependencyError(error: unknown): error is DependencyError {
+  return error instanceof DependencyError;
+}
+
+/**
+ * Check if error is a PayloadTooLargeError
+ * @param error - Error to check
+ * @returns true if error is a PayloadTooLargeError instance
+ */
+export function isPayloadTooLargeError(error: unknown): error is PayloadTooLargeError {
+  return error instanceof PayloadTooLargeError;
+}
+
+/**
+ * Check if error is a NextCallError
+ * @param error - Error to check
+ * @returns true if error is a NextCallError instance
+ */
+export function isNextCallError(error: unknown): error is NextCallError {
+  return error instanceof NextCallError;
+}
@@ -0,0 +1,70 @@
+import type { ChainEventMap, ChainEventListener } from './types.js';
+
+/**
+ * Typed event emitter used by the chain for lifecycle events.
+ * Not exported publicly - listeners are registered through `chain.on()`.
+ */
+export interface ChainEmitter {
+  /** Register a listener and return a function that removes it */
+  on<TEvent extends keyof ChainEventMap>(
+    event: TEvent,
+    listener: ChainEventListener<TEvent>
+  ): () => void;
+  /** Remove a listener */
+  off<TEvent extends keyof ChainEventMap>(event: TEvent, listener: ChainEventListener<TEvent>): void;
+  /** Emit an event to all listeners of that event */
+  emit<TEvent extends keyof ChainEventMap>(event: TEvent, payload: ChainEventMap[TEvent]): void;
+  /** Whether any listener is registered (lets the executor skip timing work) */
+  hasListeners(): boolean;
+}
+
+/**
+ * Create a chain event emitter.
+ * Listener errors are logged and never affect request handling.
+ *
+ * @returns ChainEmitter instance
+ */
+export function createEmitter(): ChainEmitter {
+  const listeners = new Map<keyof ChainEventMap, Set<(payload: never) => void>>();
+  let count = 0;
+
+  const emitter: ChainEmitter = {
+    on(event, listener) {
+      let set = listeners.get(event);
+      if (!set) {
+        set = new Set();
+        listeners.set(event, set);
+      }
+      if (!set.has(listener)) {
+        set.add(listener);
+        count++;
+      }
+      return () => emitter.off(event, listener);
+    },
+
+    off(event, listener) {
+      if (listeners.get(event)?.delete(listener)) {
+        count--;
+      }
+    },
+
+    emit(event, payload) {
+      const set = listeners.get(event);
+      if (!set) return;
+      for (const listener of set) {
+        try {
+          (listener as (payload: ChainEventMap[typeof event]) => void)(payload);
+        } catch (error) {
+          // eslint-disable-next-line no-console
+          console.error(`[OpenMiddleware] "${event}" listener failed`, error);
+        }
+      }
+    },
+
+    hasListeners() {
+      return count > 0;
+    },
+  };
+
+  return emitter;
+}
@@ -30,10 +30,43 @@
 // Core exports
 export { createChain } from './chain.js';
 export { pipe } from './pipe.js';
+export {
+  createRouter,
+  type Router,
+  type RouterOptions,
+  type RouteHandler,
+  type RouteDefinition,
+  type RouteMatch,
+  type RouteState,
+  type PathParams,
+} from './router.js';
 export { createMiddleware, wrapHandler, type CreateMiddlewareOptions } from './middleware.js';
+export {
+  when,
+  unless,
+  forMethods,
+  forPaths,
+  type MiddlewareCondition,
+} from './combinators.js';
+export { toMermaid, toDot, type DiagramOptions } from './inspect.js';
 export { createAdapter, toFetchHandler } from './adapter.js';
-export { createContext } from './context.js';
-export { createResponseBuilder } from './response.js';
+export { closeOnSignal, type CloseOnSignalOptions } from './shutdown.js';
+export { createContext, type ContextOptions } from './context.js';
+export { createToken, provide } from './services.js';
+export { definePlugin } from './plugin.js';
+export { createResponseBuilder, type ResponseBuilderOptions } from './response.js';
+export {
+  StoreEventLog,
+  createEventLog,
+  formatSSEEvent,
+  type EventLogOptions,
+} from './sse.js';
+export {
+  signCookieValue,
+  unsignCookieValue,
+  encryptCookieValue,
+  decryptCookieValue,
+} from './cookies.js';
 
 // Types
 export type {
@@ -42,8 +75,53 @@ export type {
   MiddlewareContext,
   MiddlewareResult,
   MiddlewareChain,
+  ChainableMiddleware,
+  Plugin,
+  PluginHost,
+  ContextExtensions,
+  ResponseExtensions,
+  IntersectStates,
+  ChainOptions,
+  HandleOptions,
+  TrustProxy,
+  ServiceToken,
+  ServiceScope,
+  ServiceResolver,
+  ServiceProvider,
+  ServiceValueProvider,
+  ServiceFactoryProvider,
+  ErrorClass,
+  ErrorMapper,
+  ChainStatus,
+  ChainCloseOptions,
+  ChainCloseResult,
+  ChainInspection,
+  ChainExplanation,
+  InspectedMiddleware,
+  InspectedMiddlewareKind,
+  ExplainStep,
+  MiddlewareConditionInfo,
+  NestedChainInfo,
+  ChainEventMap,
+  ChainEventListener,
+  MiddlewareEventBase,
+  MiddlewareStartEvent,
+  MiddlewareEndEvent,
+  MiddlewareErrorEvent,
+  ShortCircuitEvent,
+  RequestEndEvent,
   NextFunction,
   ResponseBuilder,
+  NegotiationHandlers,
+  StreamWriter,
+  StreamProducer,
+  SSEEvent,
+  SSEEventLog,
+  SSEOptions,
+  SSEStream,
+  CookieJar,
+  CookieOptions,
+  RequestBody,
   RequestMeta,
   Adapter,
   AdapterOptions,
@@ -59,11 +137,19 @@ export {
   AuthenticationError,
   RateLimitError,
   TimeoutError,
+  InitializationError,
+  DependencyError,
+  PayloadTooLargeError,
+  NextCallError,
   isMiddlewareError,
   isValidationError,
   isAuthenticationError,
   isRateLimitError,
   isTimeoutError,
+  isInitializationError,
+  isDependencyError,
+  isPayloadTooLargeError,
+  isNextCallError,
   type ValidationIssue,
 } from './errors.js';
 
@@ -82,8 +168,20 @@ export {
   isFormContentType,
   isMultipartContentType,
   isTextContentType,
+  isEventStreamContentType,
   parseContentType,
+  parseAccept,
+  selectAccepted,
   redactHeaders,
+  parseCookies,
+  serializeCookie,
+  generateETag,
+  matchesETag,
+  parseForwarded,
+  normalizeIP,
+  isIPInRange,
+  type AcceptEntry,
+  type ForwardedElement,
 } from './utils/index.js';
 
 // Stores
@@ -134,6 +232,10 @@ export {
   compress,
   type CompressOptions,
   type CompressionEncoding,
+  // ETag
+  etag,
+  type ETagOptions,
+  type ETagResource,
   // Body Parser
   bodyParser,
   type BodyParserOptions,
@@ -163,4 +265,31 @@ export {
   type ValidatedState,
   type Schema,
   type Infer,
+  // Tracing
+  tracing,
+  InMemoryExporter,
+  OTLPExporter,
+  createInMemoryExporter,
+  createOTLPExporter,
+  parseTraceparent,
+  formatTraceparent,
+  type TracingOptions,
+  type Span,
+  type SpanKind,
+  type SpanStatus,
+  type SpanAttributeValue,
+  type SpanExporter,
+  type OTLPExporterOptions,
+  type TraceParent,
+  // Static files
+  serveStatic,
+  MemoryFileSystem,
+  NodeFileSystem,
+  createMemoryFileSystem,
+  createNodeFileSystem,
+  type ServeStaticOptions,
+  type DotfilesPolicy,
+  type StaticFileSystem,
+  type StaticFileStat,
+  type ByteRange,
 } from './middlewares/index.js';
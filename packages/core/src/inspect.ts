@@ -0,0 +1,384 @@
+import type {
+  Middleware,
+  MiddlewareChain,
+  MiddlewareContext,
+  ChainInspection,
+  InspectedMiddleware,
+  ExplainStep,
+} from './types.js';
+import type { Router } from './router.js';
+import { scopeContext } from './context.js';
+import { stripPrefix } from './utils/path.js';
+
+/**
+ * Options for the diagram exporters.
+ */
+export interface DiagramOptions {
+  /**
+   * Layout direction: top to bottom or left to right.
+   * @default 'TB'
+   */
+  direction?: 'TB' | 'LR';
+}
+
+/**
+ * Option keys whose values are replaced by '[REDACTED]' in inspections.
+ * Header maps are redacted whole since they often carry `Authorization`.
+ */
+const SECRET_OPTION_PATTERN =
+  /secret|password|passphrase|token|credential|private|auth|api[-_]?key|bearer|^keys?$|^users$|^headers$/i;
+
+/**
+ * Nesting depth after which option values are summarized.
+ */
+const MAX_OPTION_DEPTH = 4;
+
+/**
+ * Node of the diagram built from an inspection.
+ */
+interface DiagramNode {
+  id: string;
+  lines: string[];
+  shape: 'middleware' | 'router' | 'route';
+}
+
+/**
+ * Subgraph of the diagram, for nested chains.
+ */
+interface DiagramCluster {
+  id: string;
+  lines: string[];
+  items: DiagramItem[];
+}
+
+type DiagramItem = DiagramNode | DiagramCluster;
+
+/**
+ * Edge of the diagram. Dashed edges lead from a router to its routes.
+ */
+interface DiagramEdge {
+  from: string;
+  to: string;
+  dashed: boolean;
+}
+
+/**
+ * Describe middlewares for `chain.inspect()`.
+ *
+ * @param middlewares - Middlewares in execution order
+ * @returns Inspected middlewares, with nested chains and routes
+ */
+export function inspectMiddlewares<TState>(
+  middlewares: ReadonlyArray<Middleware<TState>>
+): InspectedMiddleware[] {
+  return middlewares.map((mw) => {
+    const inspected: InspectedMiddleware = { name: mw.name, kind: 'middleware' };
+
+    if (mw.condition) inspected.condition = mw.condition.description;
+    if (mw.options) inspected.options = redactOptions(mw.options);
+    if (mw.requires?.length) inspected.requires = [...mw.requires];
+    if (mw.provides?.length) inspected.provides = [...mw.provides];
+    if (mw.before?.length) inspected.before = [...mw.before];
+    if (mw.after?.length) inspected.after = [...mw.after];
+
+    if (mw.nested) {
+      const { chain, prefix } = mw.nested;
+      inspected.kind = prefix === undefined ? 'chain' : 'mount';
+      if (prefix !== undefined) inspected.prefix = prefix || '/';
+      inspected.children = inspectMiddlewares(chain.getMiddlewares());
+    } else if (isRouter(mw)) {
+      inspected.kind = 'router';
+      inspected.routes = mw.routes().map((route) => ({ method: route.method, path: route.path }));
+    }
+
+    return inspected;
+  });
+}
+
+/**
+ * Dry-run a context through middlewares for `chain.explain()`.
+ * Evaluates conditions, mount prefixes and routes without running handlers.
+ *
+ * @param middlewares - Middlewares in execution order
+ * @param ctx - Context created for the explained request
+ * @returns One step per middleware
+ */
+export async function explainMiddlewares<TState>(
+  middlewares: ReadonlyArray<Middleware<TState>>,
+  ctx: MiddlewareContext<TState>
+): Promise<ExplainStep[]> {
+  const steps: ExplainStep[] = [];
+
+  for (const mw of middlewares) {
+    const { name } = mw;
+
+    if (mw.condition && !(await mw.condition.test(ctx))) {
+      steps.push({ name, runs: false, reason: `condition not met: ${mw.condition.description}` });
+      continue;
+    }
+
+    if (mw.nested) {
+      const { chain, prefix } = mw.nested;
+      let nestedCtx = ctx;
+
+      if (prefix !== undefined) {
+        const pathname = stripPrefix(ctx.meta.url.pathname, prefix);
+        if (pathname === null) {
+          steps.push({ name, runs: false, reason: `path does not match ${prefix || '/'}` });
+          continue;
+        }
+        const url = new URL(ctx.meta.url.href);
+        url.pathname = pathname;
+        nestedCtx = scopeContext(ctx, url);
+      }
+
+      // The nested chain's state type is not tracked; it runs on the same context
+      const nested = chain.getMiddlewares() as ReadonlyArray<Middleware<TState>>;
+      steps.push({
+        name,
+        runs: true,
+        steps: await explainMiddlewares(nested, nestedCtx),
+      });
+      continue;
+    }
+
+    if (isRouter(mw)) {
+      const match = mw.match(ctx.meta.method, ctx.meta.url.pathname);
+      if (!match) {
+        steps.push({ name, runs: true, reason: 'no route matches the request' });
+        continue;
+      }
+
+      // Route conditions see the params like during dispatch
+      (ctx.state as Record<string, unknown>)['params'] = match.params;
+      steps.push({
+        name,
+        runs: true,
+        reason: `matches ${match.method} ${match.path}`,
+        steps: await explainMiddlewares(match.middlewares, ctx),
+      });
+      continue;
+    }
+
+    steps.push({ name, runs: true });
+  }
+
+  return steps;
+}
+
+/**
+ * Export a chain as a Mermaid flowchart.
+ * Middlewares are linked in execution order, nested chains become subgraphs
+ * and router routes hang off their router with dashed edges.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ * @param source - Chain, or the result of `chain.inspect()`
+ * @param options - Diagram options
+ * @returns Mermaid source
+ *
+ * @example
+ * ```typescript
+ * import { createChain, toMermaid } from '@openmiddleware/chain';
+ *
+ * const chain = createChain().use(logger()).mount('/admin', adminChain);
+ * console.log(toMermaid(chain));
+ * // flowchart TB
+ * //   n0["logger"]
+ * //   subgraph c0["mount:/admin"]
+ * //   ...
+ * ```
+ */
+export function toMermaid<TState>(
+  source: MiddlewareChain<TState> | ChainInspection,
+  options: DiagramOptions = {}
+): string {
+  const { direction = 'TB' } = options;
+  const { items, edges } = buildDiagram(toInspection(source).middlewares);
+  const lines = [`flowchart ${direction}`];
+
+  const label = (text: string[]): string =>
+    `"${text
+      .map((line) => line.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;'))
+      .join('<br/>')}"`;
+
+  const render = (list: DiagramItem[], indent: string): void => {
+    for (const item of list) {
+      if ('items' in item) {
+        lines.push(`${indent}subgraph ${item.id}[${label(item.lines)}]`);
+        render(item.items, `${indent}  `);
+        lines.push(`${indent}end`);
+      } else if (item.shape === 'router') {
+        lines.push(`${indent}${item.id}{{${label(item.lines)}}}`);
+      } else if (item.shape === 'route') {
+        lines.push(`${indent}${item.id}([${label(item.lines)}])`);
+      } else {
+        lines.push(`${indent}${item.id}[${label(item.lines)}]`);
+      }
+    }
+  };
+
+  render(items, '  ');
+  for (const edge of edges) {
+    lines.push(`  ${edge.from} ${edge.dashed ? '-.->' : '-->'} ${edge.to}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Export a chain as a Graphviz DOT digraph.
+ * Middlewares are linked in execution order, nested chains become clusters
+ * and router routes hang off their router with dashed edges.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ * @param source - Chain, or the result of `chain.inspect()`
+ * @param options - Diagram options
+ * @returns DOT source
+ *
+ * @example
+ * ```typescript
+ * import { writeFile } from 'node:fs/promises';
+ * import { toDot } from '@openmiddleware/chain';
+ *
+ * await writeFile('chain.dot', toDot(chain, { direction: 'LR' }));
+ * // dot -Tsvg chain.dot -o chain.svg
+ * ```
+ */
+export function toDot<TState>(
+  source: MiddlewareChain<TState> | ChainInspection,
+  options: DiagramOptions = {}
+): string {
+  const { direction = 'TB' } = options;
+  const { items, edges } = buildDiagram(toInspection(source).middlewares);
+  const lines = ['digraph chain {', `  rankdir=${direction};`, '  node [shape=box];'];
+
+  const label = (text: string[]): string =>
+    `"${text.map((line) => line.replace(/\\/g, '\\\\').replace(/"/g, '\\"')).join('\\n')}"`;
+
+  const render = (list: DiagramItem[], indent: string): void => {
+    for (const item of list) {
+      if ('items' in item) {
+        lines.push(`${indent}subgraph cluster_${item.id} {`);
+        lines.push(`${indent}  label=${label(item.lines)};`);
+        render(item.items, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else {
+        const shape =
+          item.shape === 'router'
+            ? ', shape=hexagon'
+            : item.shape === 'route'
+              ? ', shape=ellipse'
+              : '';
+        lines.push(`${indent}${item.id} [label=${label(item.lines)}${shape}];`);
+      }
+    }
+  };
+
+  render(items, '  ');
+  for (const edge of edges) {
+    lines.push(`  ${edge.from} -> ${edge.to}${edge.dashed ? ' [style=dashed]' : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Check whether a middleware is a router created with createRouter().
+ */
+function isRouter<TState>(mw: Middleware<TState>): mw is Router<TState> {
+  const candidate = mw as Partial<Router<TState>>;
+  return typeof candidate.routes === 'function' && typeof candidate.match === 'function';
+}
+
+/**
+ * Get the inspection of a diagram source.
+ */
+function toInspection<TState>(source: MiddlewareChain<TState> | ChainInspection): ChainInspection {
+  return 'inspect' in source ? source.inspect() : source;
+}
+
+/**
+ * Copy declared options for display, redacting secrets and summarizing
+ * functions and class instances (stores, exporters, schemas).
+ */
+function redactOptions(options: object): Record<string, unknown> {
+  return describeOption(options, 0) as Record<string, unknown>;
+}
+
+/**
+ * Describe a single option value.
+ */
+function describeOption(value: unknown, depth: number): unknown {
+  if (typeof value === 'function') {
+    return value.name ? `[Function ${value.name}]` : '[Function]';
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof RegExp) return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= MAX_OPTION_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]';
+  if (Array.isArray(value)) return value.map((entry) => describeOption(entry, depth + 1));
+
+  const prototype = Object.getPrototypeOf(value) as object | null;
+  if (prototype !== null && prototype !== Object.prototype) {
+    return `[${(value as { constructor?: { name?: string } }).constructor?.name || 'Object'}]`;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry === undefined) continue;
+    result[key] = SECRET_OPTION_PATTERN.test(key) ? '[REDACTED]' : describeOption(entry, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Lay out inspected middlewares as diagram nodes, clusters and edges.
+ */
+function buildDiagram(middlewares: InspectedMiddleware[]): {
+  items: DiagramItem[];
+  edges: DiagramEdge[];
+} {
+  const edges: DiagramEdge[] = [];
+  let nodeCount = 0;
+  let clusterCount = 0;
+
+  const walk = (
+    list: InspectedMiddleware[],
+    items: DiagramItem[],
+    previous: string | undefined
+  ): string | undefined => {
+    for (const mw of list) {
+      const lines = mw.condition ? [mw.name, mw.condition] : [mw.name];
+
+      if (mw.children) {
+        const cluster: DiagramCluster = { id: `c${clusterCount++}`, lines, items: [] };
+        items.push(cluster);
+        previous = walk(mw.children, cluster.items, previous);
+        continue;
+      }
+
+      const node: DiagramNode = {
+        id: `n${nodeCount++}`,
+        lines,
+        shape: mw.kind === 'router' ? 'router' : 'middleware',
+      };
+      items.push(node);
+      if (previous) edges.push({ from: previous, to: node.id, dashed: false });
+      previous = node.id;
+
+      for (const route of mw.routes ?? []) {
+        const routeNode: DiagramNode = {
+          id: `n${nodeCount++}`,
+          lines: [`${route.method} ${route.path}`],
+          shape: 'route',
+        };
+        items.push(routeNode);
+        edges.push({ from: node.id, to: routeNode.id, dashed: true });
+      }
+    }
+    return previous;
+  };
+
+  const items: DiagramItem[] = [];
+  walk(middlewares, items, undefined);
+  return { items, edges };
+}
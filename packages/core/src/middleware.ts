@@ -12,6 +12,16 @@ export interface CreateMiddlewareOptions<TState = Record<string, unknown>> {
   onInit?: () => Promise<void> | void;
   /** Optional cleanup hook */
   onDestroy?: () => Promise<void> | void;
+  /** Capabilities that an earlier middleware must provide */
+  requires?: string[];
+  /** Capabilities this middleware makes available to later middlewares */
+  provides?: string[];
+  /** Names of middlewares this one must run before */
+  before?: string[];
+  /** Names of middlewares this one must run after */
+  after?: string[];
+  /** Declared configuration, shown by `chain.inspect()` with secrets redacted */
+  options?: object;
 }
 
 /**
@@ -46,6 +56,11 @@ export function createMiddleware<TState = Record<string, unknown>>(
     handler: options.handler,
     onInit: options.onInit,
     onDestroy: options.onDestroy,
+    requires: options.requires,
+    provides: options.provides,
+    before: options.before,
+    after: options.after,
+    options: options.options,
   };
 }
 
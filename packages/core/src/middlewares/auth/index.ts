@@ -76,7 +76,7 @@ export interface AuthOptions {
  * import { createChain, auth } from '@openmiddleware/chain';
  *
  * // JWT authentication
- * const chain = createChain<AuthState>()
+ * const chain = createChain()
  *   .use(auth({
  *     jwt: {
  *       secret: process.env.JWT_SECRET,
@@ -86,7 +86,7 @@ export interface AuthOptions {
  *   }));
  *
  * // API key authentication
- * const chain = createChain<AuthState>()
+ * const chain = createChain()
  *   .use(auth({
  *     apiKey: {
  *       header: 'X-API-Key',
@@ -95,7 +95,7 @@ export interface AuthOptions {
  *   }));
  *
  * // Basic authentication
- * const chain = createChain<AuthState>()
+ * const chain = createChain()
  *   .use(auth({
  *     basic: {
  *       users: { admin: 'password' },
@@ -104,7 +104,7 @@ export interface AuthOptions {
  *   }));
  *
  * // Multiple auth methods (try in order)
- * const chain = createChain<AuthState>()
+ * const chain = createChain()
  *   .use(auth({
  *     jwt: { secret: 'secret' },
  *     apiKey: { keys: ['key1'] },
@@ -117,6 +117,8 @@ export function auth(options: AuthOptions): Middleware<AuthState> {
 
   return {
     name: 'auth',
+    provides: ['user'],
+    options,
     handler: async (ctx, next) => {
       try {
         let authenticated = false;
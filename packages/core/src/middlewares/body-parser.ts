@@ -1,5 +1,6 @@
 import type { Middleware, MiddlewareContext } from '../types.js';
 import { parseSize } from '../utils/size.js';
+import { PayloadTooLargeError, isPayloadTooLargeError } from '../errors.js';
 import {
   isJsonContentType,
   isFormContentType,
@@ -108,6 +109,8 @@ const DEFAULTS = {
 /**
  * Body parser middleware.
  * Parses request bodies for JSON, forms, multipart, text, and raw data.
+ * The body is read through `ctx.body`, so other middlewares can still read it,
+ * and bodies over the limit are answered with 413.
  *
  * @param options - Configuration options
  * @returns Middleware instance
@@ -116,7 +119,7 @@ const DEFAULTS = {
  * ```typescript
  * import { createChain, bodyParser } from '@openmiddleware/chain';
  *
- * const chain = createChain<BodyState>()
+ * const chain = createChain()
  *   .use(bodyParser({
  *     json: { limit: '1mb' },
  *     form: { limit: '1mb' },
@@ -143,6 +146,8 @@ export function bodyParser(options: BodyParserOptions = {}): Middleware<BodyStat
 
   return {
     name: 'body-parser',
+    provides: ['body'],
+    options,
     handler: async (ctx, next) => {
       // Skip body parsing for GET, HEAD, OPTIONS
       if (['GET', 'HEAD', 'OPTIONS'].includes(ctx.request.method)) {
@@ -165,6 +170,12 @@ export function bodyParser(options: BodyParserOptions = {}): Middleware<BodyStat
           await parseRawBody(ctx, raw);
         }
       } catch (error) {
+        if (isPayloadTooLargeError(error)) {
+          ctx.response
+            .setStatus(413)
+            .json({ error: 'Payload Too Large', code: 'PAYLOAD_TOO_LARGE' });
+          return { done: true, response: ctx.response.build() };
+        }
         ctx.response.setStatus(400).json({
           error: 'Invalid request body',
           message: error instanceof Error ? error.message : 'Parse error',
@@ -186,11 +197,11 @@ async function parseJsonBody(
   options: BodyTypeOptions
 ): Promise<void> {
   const limit = parseSize(options.limit || DEFAULTS.jsonLimit);
-  const rawBody = await readBody(ctx.request, limit);
+  const rawBody = await readBody(ctx, limit);
 
   if (rawBody) {
     ctx.state.rawBody = rawBody;
-    ctx.state.body = JSON.parse(rawBody);
+    ctx.state.body = await ctx.body.json();
   }
 }
 
@@ -202,7 +213,7 @@ async function parseFormBody(
   options: BodyTypeOptions
 ): Promise<void> {
   const limit = parseSize(options.limit || DEFAULTS.formLimit);
-  const rawBody = await readBody(ctx.request, limit);
+  const rawBody = await readBody(ctx, limit);
 
   if (rawBody) {
     ctx.state.rawBody = rawBody;
@@ -238,7 +249,7 @@ async function parseMultipartBody(
 
   // Use native FormData parsing if available
   try {
-    const formData = await ctx.request.formData();
+    const formData = await ctx.body.formData();
     const body: Record<string, string | string[]> = {};
     const files: UploadedFile[] = [];
 
@@ -277,6 +288,7 @@ async function parseMultipartBody(
     ctx.state.body = body;
     ctx.state.files = files;
   } catch (error) {
+    if (isPayloadTooLargeError(error)) throw error;
     throw new Error(`Failed to parse multipart data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -289,7 +301,7 @@ async function parseTextBody(
   options: BodyTypeOptions
 ): Promise<void> {
   const limit = parseSize(options.limit || DEFAULTS.textLimit);
-  const rawBody = await readBody(ctx.request, limit);
+  const rawBody = await readBody(ctx, limit);
 
   if (rawBody) {
     ctx.state.rawBody = rawBody;
@@ -306,28 +318,21 @@ async function parseRawBody(
 ): Promise<void> {
   const limit = parseSize(options.limit || DEFAULTS.rawLimit);
 
-  try {
-    const buffer = await ctx.request.arrayBuffer();
-    if (buffer.byteLength > limit) {
-      throw new Error(`Body size exceeds limit of ${limit} bytes`);
-    }
-    ctx.state.body = new Uint8Array(buffer);
-  } catch {
-    // Body might already be consumed
+  const buffer = await ctx.body.arrayBuffer();
+  if (buffer.byteLength > limit) {
+    throw new PayloadTooLargeError(limit);
   }
+  ctx.state.body = new Uint8Array(buffer);
 }
 
 /**
  * Read request body as string with size limit.
+ * @throws PayloadTooLargeError if the body exceeds the limit
  */
-async function readBody(request: Request, limit: number): Promise<string | null> {
-  try {
-    const text = await request.text();
-    if (new TextEncoder().encode(text).length > limit) {
-      throw new Error(`Body size exceeds limit of ${limit} bytes`);
-    }
-    return text;
-  } catch {
-    return null;
+async function readBody(ctx: MiddlewareContext<BodyState>, limit: number): Promise<string> {
+  const text = await ctx.body.text();
+  if (new TextEncoder().encode(text).length > limit) {
+    throw new PayloadTooLargeError(limit);
   }
+  return text;
 }
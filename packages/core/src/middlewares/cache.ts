@@ -1,6 +1,9 @@
-import type { Middleware, MiddlewareContext, Store, CacheEntry } from '../types.js';
+import type { Middleware, MiddlewareContext, NextFunction, Store, CacheEntry } from '../types.js';
 import { MemoryStore } from '../stores/memory.js';
 import { parseTime } from '../utils/time.js';
+import { parseSize } from '../utils/size.js';
+import { isStreamBody, readStreamWithLimit } from '../utils/body.js';
+import { isEventStreamContentType } from '../utils/headers.js';
 
 /**
  * Options for the cache middleware.
@@ -52,11 +55,20 @@ export interface CacheOptions {
    * @default [200, 203, 204, 206, 300, 301, 308]
    */
   statusCodes?: number[];
+
+  /**
+   * Largest streamed body to cache (bytes or size string).
+   * Streams are copied while they are sent and dropped once they exceed this size.
+   * @default '1mb'
+   */
+  maxSize?: string | number;
 }
 
 /**
  * Cache middleware.
  * Caches responses to reduce downstream processing.
+ * Binary and streamed bodies are stored as bytes; streams are copied while they are sent.
+ * `text/event-stream` responses are never cached.
  *
  * @param options - Configuration options
  * @returns Middleware instance
@@ -83,13 +95,16 @@ export function cache(options: CacheOptions): Middleware {
     store = new MemoryStore<CacheEntry>(),
     skip,
     statusCodes = [200, 203, 204, 206, 300, 301, 308],
+    maxSize = '1mb',
   } = options;
 
   const ttlMs = parseTime(ttl);
+  const maxSizeBytes = parseSize(maxSize);
   const staleMs = stale ? parseTime(stale) : 0;
 
   return {
     name: 'cache',
+    options,
     handler: async (ctx, next) => {
       // Check if method is cacheable
       if (!methods.includes(ctx.request.method)) {
@@ -136,20 +151,42 @@ export function cache(options: CacheOptions): Middleware {
         }
       }
 
-      // Execute downstream middlewares
-      await next();
+      // Execute downstream middlewares; short-circuited responses are not cached
+      const result = await next();
+      if (result.done) {
+        return result;
+      }
 
-      // Cache the response if status is cacheable
-      if (statusCodes.includes(ctx.response.status)) {
-        const entry: CacheEntry = {
-          body: ctx.response.body as string,
+      // Cache the response if status is cacheable; event streams are live and never cached
+      const eventStream = isEventStreamContentType(ctx.response.headers.get('Content-Type'));
+      if (statusCodes.includes(ctx.response.status) && !eventStream) {
+        const body = ctx.response.body;
+        const entry: Omit<CacheEntry, 'body'> = {
           status: ctx.response.status,
           headers: getResponseHeaders(ctx),
           createdAt: now,
           expiresAt: now + ttlMs,
         };
 
-        await store.set(cacheKey, entry, ttlMs + staleMs);
+        if (isStreamBody(body)) {
+          // Send one branch, store the other once it has been read completely
+          const [sent, copy] = body.tee();
+          ctx.response.body = sent;
+          readStreamWithLimit(copy, maxSizeBytes)
+            .then((bytes) => {
+              if (bytes) {
+                return store.set(cacheKey, { ...entry, body: bytes }, ttlMs + staleMs);
+              }
+            })
+            .catch(() => {
+              // Failed streams are not cached
+            });
+        } else {
+          const cachedBody = await toCacheBody(body);
+          if (cachedBody !== undefined) {
+            await store.set(cacheKey, { ...entry, body: cachedBody }, ttlMs + staleMs);
+          }
+        }
 
         // Add cache headers
         ctx.response.setHeader('X-Cache', 'MISS');
@@ -205,12 +242,26 @@ function getResponseHeaders(ctx: MiddlewareContext): Array<[string, string]> {
   return headers;
 }
 
+/**
+ * Convert a buffered body into a storable value.
+ * Returns undefined for bodies that cannot be stored (e.g. FormData).
+ */
+async function toCacheBody(body: BodyInit | null): Promise<CacheEntry['body'] | undefined> {
+  if (body === null || typeof body === 'string') return body;
+  if (body instanceof ArrayBuffer) return body.slice(0);
+  if (ArrayBuffer.isView(body)) {
+    return new Uint8Array(body.buffer, body.byteOffset, body.byteLength).slice().buffer;
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) return body.arrayBuffer();
+  return undefined;
+}
+
 /**
  * Revalidate cache in background.
  */
 async function revalidateInBackground(
   ctx: MiddlewareContext,
-  next: () => Promise<void>,
+  next: NextFunction,
   cacheKey: string,
   ttlMs: number,
   statusCodes: number[],
@@ -1,4 +1,7 @@
 import type { Middleware, MiddlewareContext } from '../types.js';
+import { getBodySize, isStreamBody } from '../utils/body.js';
+import { withETagEncoding } from '../utils/etag.js';
+import { isEventStreamContentType, selectAccepted } from '../utils/headers.js';
 
 /**
  * Supported compression encodings.
@@ -60,6 +63,8 @@ const INCOMPRESSIBLE_TYPES = new Set([
 /**
  * Compress middleware.
  * Compresses response bodies using gzip, deflate, or brotli.
+ * Streamed bodies are compressed chunk by chunk as they are read;
+ * `text/event-stream` responses are never compressed.
  *
  * @param options - Configuration options
  * @returns Middleware instance
@@ -84,8 +89,12 @@ export function compress(options: CompressOptions = {}): Middleware {
 
   return {
     name: 'compress',
+    options,
     handler: async (ctx, next) => {
-      await next();
+      const result = await next();
+      if (result.done) {
+        return result;
+      }
 
       // Check if compression is supported
       if (typeof CompressionStream === 'undefined') {
@@ -99,19 +108,24 @@ export function compress(options: CompressOptions = {}): Middleware {
 
       // Get body
       const body = ctx.response.body;
-      if (!body || typeof body !== 'string') {
+      if (!body) {
         return { done: false };
       }
 
-      // Check threshold
-      const bodyLength = new TextEncoder().encode(body).length;
-      if (bodyLength < threshold) {
+      // Check threshold - streams are only skipped when a small Content-Length is declared
+      const streaming = isStreamBody(body);
+      const bodyLength = streaming ? getDeclaredLength(ctx) : getBodySize(body);
+      if (!streaming && bodyLength === undefined) {
+        return { done: false };
+      }
+      if (bodyLength !== undefined && bodyLength < threshold) {
         return { done: false };
       }
 
-      // Check content type - skip already compressed or incompressible content
+      // Check content type - skip already compressed or incompressible content,
+      // and event streams, whose events must not wait in the compressor's buffer
       const contentType = ctx.response.headers.get('Content-Type');
-      if (contentType && isIncompressible(contentType)) {
+      if (contentType && (isIncompressible(contentType) || isEventStreamContentType(contentType))) {
         return { done: false };
       }
 
@@ -135,22 +149,37 @@ export function compress(options: CompressOptions = {}): Middleware {
       }
 
       try {
-        // Compress using CompressionStream
-        const stream = new CompressionStream(compressionFormat);
-        const blob = new Blob([body]);
-        const compressedStream = blob.stream().pipeThrough(stream);
-        const compressedResponse = new Response(compressedStream);
-        const compressedBuffer = await compressedResponse.arrayBuffer();
-
-        // Only use compressed version if it's actually smaller
-        if (compressedBuffer.byteLength >= bodyLength) {
-          return { done: false };
+        if (streaming) {
+          // Compress chunk by chunk without buffering the body
+          const stream = new CompressionStream(compressionFormat);
+          ctx.response.body = body.pipeThrough(
+            stream as unknown as TransformStream<Uint8Array, Uint8Array>
+          );
+        } else {
+          // Compress using CompressionStream
+          const stream = new CompressionStream(compressionFormat);
+          const blob = new Blob([body as BlobPart]);
+          const compressedStream = blob.stream().pipeThrough(stream);
+          const compressedResponse = new Response(compressedStream);
+          const compressedBuffer = await compressedResponse.arrayBuffer();
+
+          // Only use compressed version if it's actually smaller
+          if (compressedBuffer.byteLength >= (bodyLength ?? 0)) {
+            return { done: false };
+          }
+
+          ctx.response.body = compressedBuffer;
         }
 
-        ctx.response.body = compressedBuffer;
         ctx.response.setHeader('Content-Encoding', selectedEncoding);
         ctx.response.deleteHeader('Content-Length');
         ctx.response.appendHeader('Vary', 'Accept-Encoding');
+
+        // A strong ETag identifies the identity bytes, so tag the encoded representation
+        const etag = ctx.response.headers.get('ETag');
+        if (etag) {
+          ctx.response.setHeader('ETag', withETagEncoding(etag, selectedEncoding));
+        }
       } catch {
         // Compression failed, continue with uncompressed response
       }
@@ -170,36 +199,18 @@ function isIncompressible(contentType: string): boolean {
 
 /**
  * Select best encoding based on Accept-Encoding header.
+ * Honors q-values; encodings with equal quality follow the preferred order.
  */
 function selectEncoding(
   acceptEncoding: string,
   preferredEncodings: CompressionEncoding[]
 ): CompressionEncoding | null {
-  const accepted = parseAcceptEncoding(acceptEncoding);
-
-  for (const encoding of preferredEncodings) {
-    if (accepted.has(encoding) || accepted.has('*')) {
-      return encoding;
-    }
-  }
-
-  return null;
-}
-
-/**
- * Parse Accept-Encoding header into a set of encodings.
- */
-function parseAcceptEncoding(header: string): Set<string> {
-  const encodings = new Set<string>();
-
-  for (const part of header.split(',')) {
-    const encoding = part.split(';')[0]?.trim().toLowerCase();
-    if (encoding) {
-      encodings.add(encoding);
-    }
+  // A missing header is treated as "no compression"
+  if (!acceptEncoding.trim()) {
+    return null;
   }
 
-  return encodings;
+  return selectAccepted(acceptEncoding, preferredEncodings) ?? null;
 }
 
 /**
@@ -224,3 +235,11 @@ function getCompressionFormat(encoding: CompressionEncoding): CompressionFormat
       return null;
   }
 }
+
+/**
+ * Get the Content-Length declared for a streamed body.
+ */
+function getDeclaredLength(ctx: MiddlewareContext): number | undefined {
+  const value = ctx.response.headers.get('Content-Length');
+  return value !== null ? Number(value) : undefined;
+}
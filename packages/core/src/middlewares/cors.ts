@@ -109,6 +109,7 @@ export function cors(options: CorsOptions = {}): Middleware {
 
   return {
     name: 'cors',
+    options,
     handler: async (ctx, next) => {
       const requestOrigin = ctx.request.headers.get('Origin');
 
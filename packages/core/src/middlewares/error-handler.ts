@@ -6,11 +6,22 @@ import {
   RateLimitError,
   TimeoutError,
 } from '../errors.js';
+import { selectAccepted } from '../utils/headers.js';
 
 /**
  * Error response format.
+ * `auto` picks JSON, HTML or text from the request's `Accept` header.
  */
-export type ErrorFormat = 'json' | 'html' | 'text';
+export type ErrorFormat = 'json' | 'html' | 'text' | 'auto';
+
+/**
+ * Media types offered by the `auto` format, in order of preference.
+ */
+const AUTO_FORMATS: Record<string, Exclude<ErrorFormat, 'auto'>> = {
+  'application/json': 'json',
+  'text/html': 'html',
+  'text/plain': 'text',
+};
 
 /**
  * Custom error handler function.
@@ -41,6 +52,7 @@ export interface ErrorHandlerOptions {
 
   /**
    * Response format for errors.
+   * `'auto'` negotiates JSON, HTML or text from the `Accept` header.
    * @default 'json'
    */
   format?: ErrorFormat;
@@ -95,6 +107,7 @@ export function errorHandler(options: ErrorHandlerOptions = {}): Middleware {
 
   return {
     name: 'error-handler',
+    options,
     handler: async (ctx, next) => {
       try {
         await next();
@@ -242,6 +255,13 @@ function sendError(
 ): void {
   ctx.response.setStatus(status);
 
+  if (format === 'auto') {
+    const accept = ctx.request.headers.get('Accept');
+    const selected = selectAccepted(accept, Object.keys(AUTO_FORMATS));
+    format = (selected && AUTO_FORMATS[selected]) || 'json';
+    ctx.response.appendHeader('Vary', 'Accept');
+  }
+
   switch (format) {
     case 'json':
       ctx.response.json(body);
@@ -0,0 +1,194 @@
+import type { Middleware, MiddlewareContext } from '../types.js';
+import { generateETag, matchesETag } from '../utils/etag.js';
+
+/**
+ * Validators of the current state of a resource, used for preconditions on unsafe methods.
+ */
+export interface ETagResource {
+  /** Current ETag (takes precedence over `body`) */
+  etag?: string;
+  /** Current representation as a GET would send it, hashed like a response body */
+  body?: string | ArrayBuffer | Uint8Array;
+  /** Last modification time, for If-Unmodified-Since */
+  lastModified?: Date;
+}
+
+/**
+ * Options for the ETag middleware.
+ */
+export interface ETagOptions {
+  /**
+   * Generate weak (`W/`) ETags.
+   * Weak ETags never satisfy `If-Match`, which requires strong comparison.
+   * @default false
+   */
+  weak?: boolean;
+
+  /**
+   * Look up the current resource for `If-Match`, `If-Unmodified-Since` and
+   * `If-None-Match` on unsafe methods. Return null if the resource does not exist.
+   * Without it, preconditions on unsafe methods are not evaluated.
+   */
+  resolve?: (
+    ctx: MiddlewareContext
+  ) => Promise<ETagResource | null | undefined> | ETagResource | null | undefined;
+}
+
+/**
+ * ETag middleware.
+ * Hashes the final response body with SHA-256 and sets `ETag`, answering
+ * `If-None-Match`/`If-Modified-Since` on GET and HEAD with 304.
+ * On unsafe methods, `If-Match`/`If-Unmodified-Since` are checked against
+ * the resource from `resolve` before the handler runs, responding 412 on mismatch.
+ *
+ * String, ArrayBuffer and Uint8Array bodies are hashed; streamed bodies are skipped,
+ * and an ETag set by a handler is kept. Placed inside `compress()`, the identity body
+ * is hashed and compress() appends the encoding to the tag; placed outside, the
+ * compressed bytes are hashed.
+ *
+ * @param options - Configuration options
+ * @returns Middleware instance
+ *
+ * @example
+ * ```typescript
+ * import { createChain, etag } from '@openmiddleware/chain';
+ *
+ * const chain = createChain()
+ *   .use(compress())
+ *   .use(etag({
+ *     resolve: async (ctx) => {
+ *       const doc = await documents.find(ctx.meta.url.pathname);
+ *       return doc && { body: JSON.stringify(doc) };
+ *     },
+ *   }));
+ * ```
+ */
+export function etag(options: ETagOptions = {}): Middleware {
+  const { weak = false, resolve } = options;
+
+  return {
+    name: 'etag',
+    options,
+    handler: async (ctx, next) => {
+      const { headers, method } = ctx.request;
+      const safe = method === 'GET' || method === 'HEAD';
+
+      if (!safe && resolve && hasPreconditions(headers)) {
+        const resource = await resolve(ctx);
+        const current =
+          resource?.etag ??
+          (resource?.body !== undefined ? await generateETag(resource.body, weak) : undefined);
+
+        if (!checkPreconditions(headers, resource != null, current, resource?.lastModified)) {
+          ctx.response
+            .setStatus(412)
+            .json({ error: 'Precondition Failed', code: 'PRECONDITION_FAILED' });
+          return { done: true, response: ctx.response.build() };
+        }
+      }
+
+      const result = await next();
+      if (result.done) {
+        return result;
+      }
+
+      const response = ctx.response;
+      if (response.status < 200 || response.status >= 300 || response.status === 206) {
+        return { done: false };
+      }
+
+      let tag = response.headers.get('ETag');
+      if (!tag) {
+        const body = response.body;
+        if (
+          typeof body !== 'string' &&
+          !(body instanceof ArrayBuffer) &&
+          !(body instanceof Uint8Array)
+        ) {
+          return { done: false };
+        }
+        tag = await generateETag(body, weak);
+        response.setHeader('ETag', tag);
+      }
+
+      if (safe && response.status === 200 && isNotModified(headers, tag, response.headers)) {
+        response.setStatus(304);
+        response.body = null;
+        response.deleteHeader('Content-Type');
+        response.deleteHeader('Content-Length');
+      }
+
+      return { done: false };
+    },
+  };
+}
+
+/**
+ * Check whether a request carries preconditions.
+ */
+function hasPreconditions(headers: Headers): boolean {
+  return (
+    headers.has('If-Match') || headers.has('If-Unmodified-Since') || headers.has('If-None-Match')
+  );
+}
+
+/**
+ * Evaluate preconditions for an unsafe method against the current resource.
+ */
+function checkPreconditions(
+  headers: Headers,
+  exists: boolean,
+  current: string | undefined,
+  lastModified: Date | undefined
+): boolean {
+  const ifMatch = headers.get('If-Match');
+  if (ifMatch) {
+    // `*` only requires the resource to exist
+    if (!exists) return false;
+    if (ifMatch.trim() !== '*' && !(current && matchesETag(ifMatch, current, false))) {
+      return false;
+    }
+  } else {
+    const ifUnmodifiedSince = headers.get('If-Unmodified-Since');
+    const since = ifUnmodifiedSince ? Date.parse(ifUnmodifiedSince) : NaN;
+    // HTTP dates have second precision
+    if (lastModified && !Number.isNaN(since) && truncateToSeconds(lastModified) > since) {
+      return false;
+    }
+  }
+
+  const ifNoneMatch = headers.get('If-None-Match');
+  if (ifNoneMatch && exists) {
+    if (ifNoneMatch.trim() === '*') return false;
+    if (current && matchesETag(ifNoneMatch, current)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check If-None-Match, then If-Modified-Since against the response's Last-Modified.
+ */
+function isNotModified(headers: Headers, tag: string, responseHeaders: Headers): boolean {
+  const ifNoneMatch = headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    return matchesETag(ifNoneMatch, tag);
+  }
+
+  const ifModifiedSince = headers.get('If-Modified-Since');
+  const lastModified = responseHeaders.get('Last-Modified');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    const modified = Date.parse(lastModified);
+    return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Drop milliseconds from a date.
+ */
+function truncateToSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000) * 1000;
+}
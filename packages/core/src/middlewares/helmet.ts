@@ -195,6 +195,7 @@ export function helmet(options: HelmetOptions = {}): Middleware {
 
   return {
     name: 'helmet',
+    options,
     handler: async (ctx, next) => {
       // Content-Security-Policy
       if (contentSecurityPolicy !== false && contentSecurityPolicy) {
@@ -34,6 +34,7 @@ export {
 } from './rate-limit.js';
 export { cache, type CacheOptions } from './cache.js';
 export { compress, type CompressOptions, type CompressionEncoding } from './compress.js';
+export { etag, type ETagOptions, type ETagResource } from './etag.js';
 export {
   bodyParser,
   type BodyParserOptions,
@@ -70,3 +71,36 @@ export {
   type Schema,
   type Infer,
 } from './validator/index.js';
+
+// Tracing middleware
+export {
+  tracing,
+  InMemoryExporter,
+  OTLPExporter,
+  createInMemoryExporter,
+  createOTLPExporter,
+  parseTraceparent,
+  formatTraceparent,
+  type TracingOptions,
+  type Span,
+  type SpanKind,
+  type SpanStatus,
+  type SpanAttributeValue,
+  type SpanExporter,
+  type OTLPExporterOptions,
+  type TraceParent,
+} from './tracing/index.js';
+
+// Static files middleware
+export {
+  serveStatic,
+  MemoryFileSystem,
+  NodeFileSystem,
+  createMemoryFileSystem,
+  createNodeFileSystem,
+  type ServeStaticOptions,
+  type DotfilesPolicy,
+  type StaticFileSystem,
+  type StaticFileStat,
+  type ByteRange,
+} from './static/index.js';
@@ -21,6 +21,8 @@ export interface LogEntry {
   headers?: Record<string, string>;
   /** Client IP address */
   ip?: string;
+  /** Trace ID (when `tracing()` runs before the logger returns) */
+  traceId?: string;
 }
 
 /**
@@ -121,6 +123,7 @@ export function logger(options: LoggerOptions = {}): Middleware {
 
   return {
     name: 'logger',
+    options,
     handler: async (ctx, next) => {
       // Skip if configured
       if (skip && skip(ctx)) {
@@ -130,7 +133,10 @@ export function logger(options: LoggerOptions = {}): Middleware {
 
       const startTime = Date.now();
 
-      await next();
+      const result = await next();
+      if (result.done) {
+        return result;
+      }
 
       const duration = Date.now() - startTime;
       const status = ctx.response.status;
@@ -150,6 +156,7 @@ export function logger(options: LoggerOptions = {}): Middleware {
         duration,
         timestamp: new Date().toISOString(),
         ip: ctx.meta.ip,
+        traceId: ctx.meta.traceId,
       };
 
       // Include headers if enabled
@@ -123,6 +123,7 @@ export function rateLimit(options: RateLimitOptions): Middleware {
 
   return {
     name: 'rate-limit',
+    options,
     handler: async (ctx, next) => {
       // Skip if configured
       if (skip && skip(ctx)) {
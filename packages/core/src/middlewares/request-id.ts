@@ -53,6 +53,7 @@ export function requestId(options: RequestIdOptions = {}): Middleware {
 
   return {
     name: 'request-id',
+    options,
     handler: async (ctx, next) => {
       // Use existing request ID or generate new one
       const existingId = ctx.request.headers.get(header);
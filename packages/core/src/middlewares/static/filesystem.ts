@@ -0,0 +1,239 @@
+/**
+ * File metadata returned by a StaticFileSystem.
+ */
+export interface StaticFileStat {
+  /** Size in bytes */
+  size: number;
+  /** Last modification time */
+  mtime: Date;
+  /** Whether the path is a directory */
+  isDirectory: boolean;
+}
+
+/**
+ * Inclusive byte range of a file.
+ */
+export interface ByteRange {
+  /** First byte */
+  start: number;
+  /** Last byte (inclusive) */
+  end: number;
+}
+
+/**
+ * File access used by `serveStatic()`.
+ * Paths are POSIX paths built from the `root` option and the request path.
+ *
+ * @example
+ * ```typescript
+ * const bucketFs: StaticFileSystem = {
+ *   stat: async (path) => {
+ *     const head = await bucket.head(path);
+ *     return head ? { size: head.size, mtime: head.uploaded, isDirectory: false } : null;
+ *   },
+ *   read: async (path, range) => {
+ *     const object = await bucket.get(path, range && { range: { offset: range.start, length: range.end - range.start + 1 } });
+ *     return object!.body;
+ *   },
+ * };
+ * ```
+ */
+export interface StaticFileSystem {
+  /**
+   * Get file metadata.
+   * @param path - File path
+   * @returns Metadata, or null if the path does not exist
+   */
+  stat(path: string): Promise<StaticFileStat | null>;
+
+  /**
+   * Open a file for reading.
+   * @param path - File path
+   * @param range - Byte range to read (whole file if omitted)
+   * @returns Stream of the file contents
+   */
+  read(path: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * File stored by MemoryFileSystem.
+ */
+interface MemoryFile {
+  content: Uint8Array;
+  mtime: Date;
+}
+
+/**
+ * In-memory file system.
+ * Intended for tests and for serving bundled assets in runtimes without a file system.
+ *
+ * @example
+ * ```typescript
+ * const fs = new MemoryFileSystem({
+ *   '/public/index.html': '<h1>Hello</h1>',
+ *   '/public/app.js': 'console.log(1)',
+ * });
+ *
+ * const chain = createChain().use(serveStatic({ root: '/public', fs }));
+ * ```
+ */
+export class MemoryFileSystem implements StaticFileSystem {
+  private files = new Map<string, MemoryFile>();
+
+  /**
+   * Create a new MemoryFileSystem.
+   *
+   * @param files - Initial file contents by path
+   */
+  constructor(files: Record<string, string | Uint8Array> = {}) {
+    for (const [path, content] of Object.entries(files)) {
+      this.set(path, content);
+    }
+  }
+
+  /**
+   * Add or replace a file.
+   *
+   * @param path - File path
+   * @param content - File contents
+   * @param mtime - Modification time (default: now)
+   */
+  set(path: string, content: string | Uint8Array, mtime: Date = new Date()): void {
+    this.files.set(normalizeMemoryPath(path), {
+      content: typeof content === 'string' ? new TextEncoder().encode(content) : content,
+      mtime,
+    });
+  }
+
+  /**
+   * Remove a file.
+   *
+   * @param path - File path
+   * @returns true if the file existed
+   */
+  delete(path: string): boolean {
+    return this.files.delete(normalizeMemoryPath(path));
+  }
+
+  /**
+   * Get file metadata. Directories exist implicitly when they contain files.
+   *
+   * @param path - File path
+   * @returns Metadata, or null if the path does not exist
+   */
+  async stat(path: string): Promise<StaticFileStat | null> {
+    const normalized = normalizeMemoryPath(path);
+    const file = this.files.get(normalized);
+    if (file) {
+      return { size: file.content.byteLength, mtime: file.mtime, isDirectory: false };
+    }
+
+    const prefix = normalized.endsWith('/') ? normalized : `${normalized}/`;
+    for (const [filePath, entry] of this.files) {
+      if (filePath.startsWith(prefix)) {
+        return { size: 0, mtime: entry.mtime, isDirectory: true };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Open a file for reading.
+   *
+   * @param path - File path
+   * @param range - Byte range to read (whole file if omitted)
+   * @returns Stream of the file contents
+   * @throws Error if the file does not exist
+   */
+  async read(path: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const file = this.files.get(normalizeMemoryPath(path));
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+
+    const content = range ? file.content.slice(range.start, range.end + 1) : file.content.slice();
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(content);
+        controller.close();
+      },
+    });
+  }
+}
+
+/**
+ * Create an in-memory file system.
+ *
+ * @param files - Initial file contents by path
+ * @returns MemoryFileSystem instance
+ */
+export function createMemoryFileSystem(
+  files: Record<string, string | Uint8Array> = {}
+): MemoryFileSystem {
+  return new MemoryFileSystem(files);
+}
+
+/**
+ * File system backed by Node's `fs` module.
+ * `node:fs` is loaded on first use, so importing the middleware stays runtime-agnostic.
+ * Works in Node, Bun and Deno.
+ *
+ * @example
+ * ```typescript
+ * const chain = createChain().use(serveStatic({ root: './public', fs: new NodeFileSystem() }));
+ * ```
+ */
+export class NodeFileSystem implements StaticFileSystem {
+  /**
+   * Get file metadata.
+   *
+   * @param path - File path
+   * @returns Metadata, or null if the path does not exist
+   */
+  async stat(path: string): Promise<StaticFileStat | null> {
+    const { promises } = await import('node:fs');
+    try {
+      const stats = await promises.stat(path);
+      return { size: stats.size, mtime: stats.mtime, isDirectory: stats.isDirectory() };
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ENOENT' || code === 'ENOTDIR') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Open a file for reading.
+   *
+   * @param path - File path
+   * @param range - Byte range to read (whole file if omitted)
+   * @returns Stream of the file contents
+   */
+  async read(path: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const [{ createReadStream }, { Readable }] = await Promise.all([
+      import('node:fs'),
+      import('node:stream'),
+    ]);
+    const stream = createReadStream(path, range ? { start: range.start, end: range.end } : {});
+    return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>;
+  }
+}
+
+/**
+ * Create a file system backed by Node's `fs` module.
+ *
+ * @returns NodeFileSystem instance
+ */
+export function createNodeFileSystem(): NodeFileSystem {
+  return new NodeFileSystem();
+}
+
+/**
+ * Normalize a MemoryFileSystem path to a leading-slash form.
+ */
+function normalizeMemoryPath(path: string): string {
+  const normalized = `/${path}`.replace(/\/+/g, '/');
+  return normalized.length > 1 && normalized.endsWith('/') ? normalized.slice(0, -1) : normalized;
+}
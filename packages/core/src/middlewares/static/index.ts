@@ -0,0 +1,10 @@
+export { serveStatic, type ServeStaticOptions, type DotfilesPolicy } from './middleware.js';
+export {
+  MemoryFileSystem,
+  NodeFileSystem,
+  createMemoryFileSystem,
+  createNodeFileSystem,
+  type StaticFileSystem,
+  type StaticFileStat,
+  type ByteRange,
+} from './filesystem.js';
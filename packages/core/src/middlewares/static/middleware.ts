@@ -0,0 +1,444 @@
+import type { Middleware, MiddlewareContext, MiddlewareResult } from '../../types.js';
+import { matchesETag } from '../../utils/etag.js';
+import { selectAccepted } from '../../utils/headers.js';
+import { parseTime } from '../../utils/time.js';
+import {
+  NodeFileSystem,
+  type ByteRange,
+  type StaticFileStat,
+  type StaticFileSystem,
+} from './filesystem.js';
+
+/**
+ * How `serveStatic()` treats path segments starting with a dot.
+ * - `'ignore'`: Pass the request to the next middleware
+ * - `'deny'`: Respond with 403
+ * - `'allow'`: Serve the file
+ */
+export type DotfilesPolicy = 'ignore' | 'deny' | 'allow';
+
+/**
+ * Options for the static file middleware.
+ */
+export interface ServeStaticOptions {
+  /**
+   * Directory to serve files from.
+   */
+  root: string;
+
+  /**
+   * Files to serve for directory requests, or false to disable.
+   * @default ['index.html']
+   */
+  index?: string | string[] | false;
+
+  /**
+   * File (relative to `root`) served for unknown extensionless paths that accept HTML,
+   * for single-page apps with client-side routing.
+   */
+  spaFallback?: string;
+
+  /**
+   * Cache-Control max-age (e.g., '1h', '7d' or milliseconds).
+   * @default 0
+   */
+  maxAge?: string | number;
+
+  /**
+   * Add `immutable` to Cache-Control, for fingerprinted assets.
+   * @default false
+   */
+  immutable?: boolean;
+
+  /**
+   * Emit an ETag header and answer If-None-Match.
+   * @default true
+   */
+  etag?: boolean;
+
+  /**
+   * Emit a Last-Modified header and answer If-Modified-Since.
+   * @default true
+   */
+  lastModified?: boolean;
+
+  /**
+   * Serve `.br` and `.gz` siblings when Accept-Encoding allows.
+   * @default true
+   */
+  precompressed?: boolean;
+
+  /**
+   * How to treat dotfiles and dot-directories.
+   * @default 'ignore'
+   */
+  dotfiles?: DotfilesPolicy;
+
+  /**
+   * File system to read from.
+   * @default NodeFileSystem
+   */
+  fs?: StaticFileSystem;
+}
+
+/**
+ * A resolved file ready to be served.
+ */
+interface StaticFile {
+  path: string;
+  stat: StaticFileStat;
+}
+
+/**
+ * Precompressed siblings by Content-Encoding, in order of preference.
+ */
+const PRECOMPRESSED_EXTENSIONS: Array<['br' | 'gzip', string]> = [
+  ['br', '.br'],
+  ['gzip', '.gz'],
+];
+
+/**
+ * Content types by file extension.
+ */
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  htm: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  map: 'application/json; charset=utf-8',
+  webmanifest: 'application/manifest+json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  xml: 'application/xml; charset=utf-8',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  pdf: 'application/pdf',
+  wasm: 'application/wasm',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  zip: 'application/zip',
+};
+
+/**
+ * Static file middleware.
+ * Serves GET and HEAD requests from a directory, streaming file contents.
+ * Emits ETag and Last-Modified, answers conditional requests with 304,
+ * single byte ranges with 206 and serves precompressed `.br`/`.gz` siblings.
+ * Requests for missing files are passed to the next middleware.
+ *
+ * File access goes through a StaticFileSystem, so the middleware runs wherever
+ * one is available; NodeFileSystem is used by default.
+ *
+ * @param options - Configuration options
+ * @returns Middleware instance
+ *
+ * @example
+ * ```typescript
+ * import { createChain, serveStatic } from '@openmiddleware/chain';
+ *
+ * const assets = createChain().use(
+ *   serveStatic({ root: './dist/assets', maxAge: '365d', immutable: true })
+ * );
+ *
+ * const chain = createChain()
+ *   .use(serveStatic({ root: './public', maxAge: '1h' }))
+ *   .mount('/assets', assets);
+ * ```
+ */
+export function serveStatic(options: ServeStaticOptions): Middleware {
+  const {
+    root,
+    index = ['index.html'],
+    spaFallback,
+    maxAge = 0,
+    immutable = false,
+    etag = true,
+    lastModified = true,
+    precompressed = true,
+    dotfiles = 'ignore',
+    fs = new NodeFileSystem(),
+  } = options;
+
+  const indexFiles = index === false ? [] : Array.isArray(index) ? index : [index];
+  const cacheControl = `public, max-age=${Math.floor(parseTime(maxAge) / 1000)}${
+    immutable ? ', immutable' : ''
+  }`;
+
+  /**
+   * Stat a path, falling back to its index files for directories.
+   */
+  async function resolveFile(path: string): Promise<StaticFile | null> {
+    const stat = await fs.stat(path);
+    if (!stat) return null;
+    if (!stat.isDirectory) return { path, stat };
+
+    for (const name of indexFiles) {
+      const indexPath = joinPath(path, name);
+      const indexStat = await fs.stat(indexPath);
+      if (indexStat && !indexStat.isDirectory) {
+        return { path: indexPath, stat: indexStat };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Select the file variant to send for the request's Accept-Encoding.
+   */
+  async function selectVariant(
+    ctx: MiddlewareContext,
+    file: StaticFile
+  ): Promise<{ file: StaticFile; encoding: string | null; vary: boolean }> {
+    if (!precompressed) {
+      return { file, encoding: null, vary: false };
+    }
+
+    const variants = new Map<string, StaticFile>();
+    for (const [encoding, extension] of PRECOMPRESSED_EXTENSIONS) {
+      const path = `${file.path}${extension}`;
+      const stat = await fs.stat(path);
+      if (stat && !stat.isDirectory) {
+        variants.set(encoding, { path, stat });
+      }
+    }
+    if (variants.size === 0) {
+      return { file, encoding: null, vary: false };
+    }
+
+    // A missing header means identity only
+    const acceptEncoding = ctx.request.headers.get('Accept-Encoding');
+    const encoding = acceptEncoding?.trim()
+      ? selectAccepted(acceptEncoding, [...variants.keys(), 'identity'])
+      : undefined;
+    const variant = encoding ? variants.get(encoding) : undefined;
+
+    return variant
+      ? { file: variant, encoding: encoding!, vary: true }
+      : { file, encoding: null, vary: true };
+  }
+
+  /**
+   * Send a file, honoring conditional and range requests.
+   */
+  async function sendFile(ctx: MiddlewareContext, resolved: StaticFile): Promise<MiddlewareResult> {
+    const { file, encoding, vary } = await selectVariant(ctx, resolved);
+    const { headers } = ctx.request;
+    const response = ctx.response;
+
+    response.setHeader('Content-Type', getMimeType(resolved.path));
+    response.setHeader('Cache-Control', cacheControl);
+    if (vary) {
+      response.appendHeader('Vary', 'Accept-Encoding');
+    }
+    if (encoding) {
+      response.setHeader('Content-Encoding', encoding);
+    } else {
+      response.setHeader('Accept-Ranges', 'bytes');
+    }
+
+    const tag = etag ? createETag(file.stat) : null;
+    const modified = lastModified ? file.stat.mtime.toUTCString() : null;
+    if (tag) response.setHeader('ETag', tag);
+    if (modified) response.setHeader('Last-Modified', modified);
+
+    if (isNotModified(headers, tag, lastModified ? file.stat.mtime : null)) {
+      response.deleteHeader('Content-Type');
+      response.setStatus(304);
+      return { done: true, response: response.build() };
+    }
+
+    const size = file.stat.size;
+    let range: ByteRange | undefined;
+    const rangeHeader = headers.get('Range');
+    if (rangeHeader && !encoding && isRangeFresh(headers.get('If-Range'), tag, modified)) {
+      const parsed = parseRange(rangeHeader, size);
+      if (parsed === 'unsatisfiable') {
+        response
+          .setStatus(416)
+          .setHeader('Content-Range', `bytes */${size}`)
+          .json({ error: 'Range Not Satisfiable', code: 'RANGE_NOT_SATISFIABLE' });
+        return { done: true, response: response.build() };
+      }
+      if (parsed) {
+        range = parsed;
+        response
+          .setStatus(206)
+          .setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+      }
+    }
+
+    const length = range ? range.end - range.start + 1 : size;
+    response.setHeader('Content-Length', String(length));
+    response.body =
+      ctx.request.method === 'HEAD' || length === 0 ? null : await fs.read(file.path, range);
+
+    return { done: true, response: response.build() };
+  }
+
+  return {
+    name: 'serve-static',
+    options,
+    handler: async (ctx, next) => {
+      const method = ctx.request.method;
+      if (method !== 'GET' && method !== 'HEAD') {
+        await next();
+        return { done: false };
+      }
+
+      let pathname: string;
+      try {
+        pathname = decodeURIComponent(ctx.meta.url.pathname);
+      } catch {
+        ctx.response.setStatus(400).json({ error: 'Bad Request', code: 'BAD_REQUEST' });
+        return { done: true, response: ctx.response.build() };
+      }
+
+      const segments = pathname.split('/').filter(Boolean);
+
+      // Encoded traversal survives URL normalization, so check the decoded segments
+      if (
+        pathname.includes('\0') ||
+        pathname.includes('\\') ||
+        segments.some((segment) => segment === '..' || segment === '.')
+      ) {
+        ctx.response.setStatus(403).json({ error: 'Forbidden', code: 'FORBIDDEN' });
+        return { done: true, response: ctx.response.build() };
+      }
+
+      if (dotfiles !== 'allow' && segments.some((segment) => segment.startsWith('.'))) {
+        if (dotfiles === 'deny') {
+          ctx.response.setStatus(403).json({ error: 'Forbidden', code: 'FORBIDDEN' });
+          return { done: true, response: ctx.response.build() };
+        }
+        await next();
+        return { done: false };
+      }
+
+      const file = await resolveFile(joinPath(root, segments.join('/')));
+      if (file) {
+        return sendFile(ctx, file);
+      }
+
+      if (spaFallback && acceptsSpaFallback(ctx, segments)) {
+        const fallback = await resolveFile(joinPath(root, spaFallback));
+        if (fallback) {
+          return sendFile(ctx, fallback);
+        }
+      }
+
+      await next();
+      return { done: false };
+    },
+  };
+}
+
+/**
+ * Join a root directory and a relative path.
+ */
+function joinPath(root: string, path: string): string {
+  const base = root.replace(/\/+$/, '');
+  const rest = path.replace(/^\/+/, '');
+  return rest ? `${base}/${rest}` : base || '/';
+}
+
+/**
+ * Get the Content-Type for a file path.
+ */
+function getMimeType(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dotIndex = name.lastIndexOf('.');
+  const extension = dotIndex > 0 ? name.slice(dotIndex + 1).toLowerCase() : '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Create a strong ETag from a file's size and modification time.
+ */
+function createETag(stat: StaticFileStat): string {
+  return `"${stat.size.toString(16)}-${Math.floor(stat.mtime.getTime()).toString(16)}"`;
+}
+
+/**
+ * Check If-None-Match (weak comparison), then If-Modified-Since.
+ */
+function isNotModified(headers: Headers, etag: string | null, mtime: Date | null): boolean {
+  const ifNoneMatch = headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    return etag !== null && matchesETag(ifNoneMatch, etag);
+  }
+
+  const ifModifiedSince = headers.get('If-Modified-Since');
+  if (ifModifiedSince && mtime) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !Number.isNaN(since) && Math.floor(mtime.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Check If-Range: the range applies only if the validator still matches.
+ */
+function isRangeFresh(
+  ifRange: string | null,
+  etag: string | null,
+  lastModified: string | null
+): boolean {
+  if (!ifRange) return true;
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    // If-Range requires a strong comparison
+    return etag !== null && value === etag;
+  }
+  return lastModified !== null && Date.parse(value) === Date.parse(lastModified);
+}
+
+/**
+ * Parse a single-range `Range` header.
+ * Returns null when the header should be ignored (malformed or multiple ranges).
+ */
+function parseRange(header: string, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, startText = '', endText = ''] = match;
+  if (startText === '' && endText === '') return null;
+
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const suffix = Number(endText);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(startText);
+  const end = endText === '' ? size - 1 : Math.min(Number(endText), size - 1);
+  if (endText !== '' && Number(endText) < start) return null;
+  if (start >= size) return 'unsatisfiable';
+  return { start, end };
+}
+
+/**
+ * Whether an unmatched request should get the SPA fallback:
+ * an extensionless path from a client that accepts HTML.
+ */
+function acceptsSpaFallback(ctx: MiddlewareContext, segments: string[]): boolean {
+  const last = segments[segments.length - 1] ?? '';
+  if (last.includes('.')) return false;
+  return selectAccepted(ctx.request.headers.get('Accept'), ['text/html']) !== undefined;
+}
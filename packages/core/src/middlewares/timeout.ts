@@ -1,5 +1,6 @@
 import type { Middleware, MiddlewareContext } from '../types.js';
 import { TimeoutError } from '../errors.js';
+import { abortContext } from '../context.js';
 import { parseTime } from '../utils/time.js';
 
 /**
@@ -35,6 +36,8 @@ export interface TimeoutOptions {
 /**
  * Timeout middleware.
  * Limits the time allowed for request processing.
+ * When the deadline passes, `ctx.signal` is aborted with a `TimeoutError`
+ * so downstream work that honors the signal stops.
  *
  * @param options - Configuration options
  * @returns Middleware instance
@@ -48,7 +51,13 @@ export interface TimeoutOptions {
  *     duration: '30s',
  *     status: 408,
  *     message: 'Request timed out',
- *   }));
+ *   }))
+ *   .use(async (ctx, next) => {
+ *     const res = await fetch(upstreamUrl, { signal: ctx.signal });
+ *     ctx.response.json(await res.json());
+ *     await next();
+ *     return { done: false };
+ *   });
  * ```
  */
 export function timeout(options: TimeoutOptions): Middleware {
@@ -63,6 +72,7 @@ export function timeout(options: TimeoutOptions): Middleware {
 
   return {
     name: 'timeout',
+    options,
     handler: async (ctx, next) => {
       let timeoutId: ReturnType<typeof setTimeout> | null = null;
       let timedOut = false;
@@ -70,7 +80,10 @@ export function timeout(options: TimeoutOptions): Middleware {
       const timeoutPromise = new Promise<never>((_, reject) => {
         timeoutId = setTimeout(() => {
           timedOut = true;
-          reject(new TimeoutError(timeoutMs));
+          const error = new TimeoutError(timeoutMs);
+          // Tell downstream work listening on ctx.signal to stop
+          abortContext(ctx, error);
+          reject(error);
         }, timeoutMs);
       });
 
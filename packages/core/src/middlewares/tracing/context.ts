@@ -0,0 +1,136 @@
+/**
+ * Parsed W3C `traceparent` header.
+ */
+export interface TraceParent {
+  /** Trace ID (32 lowercase hex characters) */
+  traceId: string;
+  /** Parent span ID (16 lowercase hex characters) */
+  spanId: string;
+  /** Whether the caller sampled the trace */
+  sampled: boolean;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const ZERO_TRACE_ID = '0'.repeat(32);
+const ZERO_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Maximum number of list members kept from `tracestate`.
+ */
+const MAX_TRACESTATE_MEMBERS = 32;
+
+/**
+ * A `key=value` tracestate list member.
+ */
+const TRACESTATE_MEMBER_PATTERN =
+  /^[a-z0-9][a-z0-9_\-*/@]{0,255}=[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/**
+ * Parse a W3C `traceparent` header.
+ * Invalid headers (unknown format, all-zero IDs, version `ff`) return null,
+ * in which case a new trace should be started.
+ *
+ * @param header - traceparent header value
+ * @returns Parsed trace parent, or null if invalid
+ *
+ * @example
+ * ```typescript
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { traceId: '4bf92f35...', spanId: '00f067aa0ba902b7', sampled: true }
+ * ```
+ */
+export function parseTraceparent(header: string | null | undefined): TraceParent | null {
+  if (!header) return null;
+
+  const match = TRACEPARENT_PATTERN.exec(header.trim().toLowerCase());
+  if (!match) return null;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (!version || !traceId || !spanId || !flags) return null;
+
+  // Version ff is forbidden; version 00 has no trailing fields
+  if (version === 'ff' || (version === '00' && rest)) return null;
+  if (traceId === ZERO_TRACE_ID || spanId === ZERO_SPAN_ID) return null;
+
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 0x01) === 0x01,
+  };
+}
+
+/**
+ * Format a W3C `traceparent` header (version 00).
+ *
+ * @param parent - Trace ID, span ID and sampling flag
+ * @returns traceparent header value
+ *
+ * @example
+ * ```typescript
+ * // Propagate the trace to a downstream service
+ * await fetch(url, {
+ *   headers: {
+ *     traceparent: formatTraceparent({
+ *       traceId: ctx.meta.traceId!,
+ *       spanId: ctx.meta.spanId!,
+ *       sampled: true,
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+export function formatTraceparent(parent: TraceParent): string {
+  return `00-${parent.traceId}-${parent.spanId}-${parent.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Normalize a W3C `tracestate` header.
+ * Drops empty and malformed members and keeps at most 32 members.
+ *
+ * @param header - tracestate header value
+ * @returns Normalized header value, or undefined if nothing is left
+ */
+export function normalizeTracestate(header: string | null | undefined): string | undefined {
+  if (!header) return undefined;
+
+  const members = header
+    .split(',')
+    .map((member) => member.trim())
+    .filter((member) => TRACESTATE_MEMBER_PATTERN.test(member))
+    .slice(0, MAX_TRACESTATE_MEMBERS);
+
+  return members.length > 0 ? members.join(',') : undefined;
+}
+
+/**
+ * Generate a random trace ID (16 bytes, hex).
+ */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/**
+ * Generate a random span ID (8 bytes, hex).
+ */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+/**
+ * Generate a non-zero random hex string.
+ */
+function randomHex(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+
+  do {
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+      crypto.getRandomValues(bytes);
+    } else {
+      for (let i = 0; i < byteLength; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+  } while (bytes.every((byte) => byte === 0));
+
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
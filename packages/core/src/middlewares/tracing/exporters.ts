@@ -0,0 +1,364 @@
+import { parseTime } from '../../utils/time.js';
+
+/**
+ * Span attribute value.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span kind.
+ * - `server`: The request handled by the chain
+ * - `internal`: A middleware within the chain
+ */
+export type SpanKind = 'server' | 'internal';
+
+/**
+ * Span status.
+ */
+export interface SpanStatus {
+  /** Status code (OpenTelemetry semantics) */
+  code: 'unset' | 'ok' | 'error';
+  /** Error message (only for `error`) */
+  message?: string;
+}
+
+/**
+ * Finished span, as handed to exporters.
+ */
+export interface Span {
+  /** Trace ID (32 hex characters) */
+  traceId: string;
+  /** Span ID (16 hex characters) */
+  spanId: string;
+  /** Parent span ID (remote parent for server spans) */
+  parentSpanId?: string;
+  /** Span name */
+  name: string;
+  /** Span kind */
+  kind: SpanKind;
+  /** Start time (milliseconds since epoch) */
+  startTime: number;
+  /** End time (milliseconds since epoch) */
+  endTime: number;
+  /** Span attributes */
+  attributes: Record<string, SpanAttributeValue>;
+  /** Span status */
+  status: SpanStatus;
+  /** Incoming tracestate (server spans only) */
+  traceState?: string;
+}
+
+/**
+ * Destination for finished spans.
+ *
+ * @example
+ * ```typescript
+ * const consoleExporter: SpanExporter = {
+ *   export: async (spans) => {
+ *     for (const span of spans) console.log(span.name, span.endTime - span.startTime);
+ *   },
+ * };
+ * ```
+ */
+export interface SpanExporter {
+  /** Export a batch of finished spans */
+  export(spans: Span[]): Promise<void>;
+  /** Flush buffered spans and release resources */
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * In-memory span exporter.
+ * Keeps every exported span; intended for tests.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemoryExporter();
+ * const chain = createChain().use(tracing({ exporter }));
+ *
+ * await chain.handle(new Request('http://localhost/'));
+ * exporter.getSpans(); // [{ kind: 'server', name: 'GET', ... }]
+ * ```
+ */
+export class InMemoryExporter implements SpanExporter {
+  private spans: Span[] = [];
+
+  /**
+   * Store spans.
+   *
+   * @param spans - Finished spans
+   */
+  async export(spans: Span[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  /**
+   * Get all exported spans.
+   *
+   * @returns Spans in export order
+   */
+  getSpans(): Span[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Remove all stored spans.
+   */
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Create an in-memory span exporter.
+ *
+ * @returns InMemoryExporter instance
+ */
+export function createInMemoryExporter(): InMemoryExporter {
+  return new InMemoryExporter();
+}
+
+/**
+ * Options for the OTLP/HTTP exporter.
+ */
+export interface OTLPExporterOptions {
+  /**
+   * Collector traces endpoint.
+   * @default 'http://localhost:4318/v1/traces'
+   */
+  url?: string;
+
+  /**
+   * Additional request headers (e.g., API keys).
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Value of the `service.name` resource attribute.
+   * @default 'openmiddleware'
+   */
+  serviceName?: string;
+
+  /**
+   * Additional resource attributes.
+   */
+  resourceAttributes?: Record<string, SpanAttributeValue>;
+
+  /**
+   * Maximum number of spans per request to the collector.
+   * @default 512
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Interval between flushes of buffered spans.
+   * @default '5s'
+   */
+  flushInterval?: string | number;
+
+  /**
+   * Fetch implementation.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * OTLP span kinds (opentelemetry.proto.trace.v1.Span.SpanKind).
+ */
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+};
+
+/**
+ * OTLP status codes (opentelemetry.proto.trace.v1.Status.StatusCode).
+ */
+const OTLP_STATUS_CODE: Record<SpanStatus['code'], number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+/**
+ * OTLP/HTTP JSON span exporter.
+ * Buffers spans and sends them to an OpenTelemetry collector in batches.
+ * Failed exports are logged and dropped.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new OTLPExporter({
+ *   url: 'https://otel.example.com/v1/traces',
+ *   headers: { 'x-api-key': process.env.OTEL_KEY! },
+ *   serviceName: 'api',
+ * });
+ * ```
+ */
+export class OTLPExporter implements SpanExporter {
+  private buffer: Span[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private pending = new Set<Promise<void>>();
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly resource: Record<string, SpanAttributeValue>;
+  private readonly maxBatchSize: number;
+  private readonly fetchFn: typeof fetch;
+
+  /**
+   * Create a new OTLPExporter.
+   *
+   * @param options - Exporter options
+   */
+  constructor(options: OTLPExporterOptions = {}) {
+    this.url = options.url ?? 'http://localhost:4318/v1/traces';
+    this.headers = options.headers ?? {};
+    this.resource = {
+      'service.name': options.serviceName ?? 'openmiddleware',
+      ...options.resourceAttributes,
+    };
+    this.maxBatchSize = options.maxBatchSize ?? 512;
+    this.fetchFn = options.fetch ?? globalThis.fetch.bind(globalThis);
+
+    const intervalMs = parseTime(options.flushInterval ?? '5s');
+    if (typeof setInterval !== 'undefined' && intervalMs > 0) {
+      this.flushTimer = setInterval(() => void this.flush(), intervalMs);
+      // Prevent the timer from keeping the process alive
+      if (this.flushTimer.unref) {
+        this.flushTimer.unref();
+      }
+    }
+  }
+
+  /**
+   * Buffer spans, sending a batch once `maxBatchSize` is reached.
+   *
+   * @param spans - Finished spans
+   */
+  async export(spans: Span[]): Promise<void> {
+    this.buffer.push(...spans);
+    if (this.buffer.length >= this.maxBatchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Send all buffered spans.
+   */
+  async flush(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.maxBatchSize);
+      const request = this.send(batch);
+      this.pending.add(request);
+      try {
+        await request;
+      } finally {
+        this.pending.delete(request);
+      }
+    }
+  }
+
+  /**
+   * Stop the flush timer and send remaining spans.
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * POST a batch to the collector.
+   */
+  private async send(spans: Span[]): Promise<void> {
+    try {
+      const response = await this.fetchFn(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify(toOTLPRequest(spans, this.resource)),
+      });
+      if (!response.ok) {
+        throw new Error(`Collector responded with ${response.status}`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`[OpenMiddleware] Failed to export ${spans.length} spans`, error);
+    }
+  }
+}
+
+/**
+ * Create an OTLP/HTTP JSON span exporter.
+ *
+ * @param options - Exporter options
+ * @returns OTLPExporter instance
+ */
+export function createOTLPExporter(options: OTLPExporterOptions = {}): OTLPExporter {
+  return new OTLPExporter(options);
+}
+
+/**
+ * Build an OTLP ExportTraceServiceRequest (JSON encoding).
+ *
+ * @param spans - Finished spans
+ * @param resource - Resource attributes
+ * @returns Request body object
+ */
+export function toOTLPRequest(
+  spans: Span[],
+  resource: Record<string, SpanAttributeValue>
+): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toOTLPAttributes(resource) },
+        scopeSpans: [
+          {
+            scope: { name: '@openmiddleware/chain' },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              ...(span.traceState && { traceState: span.traceState }),
+              name: span.name,
+              kind: OTLP_SPAN_KIND[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toOTLPAttributes(span.attributes),
+              status: {
+                code: OTLP_STATUS_CODE[span.status.code],
+                ...(span.status.message && { message: span.status.message }),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Convert attributes to OTLP KeyValue list.
+ */
+function toOTLPAttributes(
+  attributes: Record<string, SpanAttributeValue>
+): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes).map(([key, value]) => {
+    if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+    if (typeof value === 'number') {
+      return Number.isInteger(value)
+        ? { key, value: { intValue: String(value) } }
+        : { key, value: { doubleValue: value } };
+    }
+    return { key, value: { stringValue: value } };
+  });
+}
+
+/**
+ * Convert milliseconds since epoch to a nanosecond string (microsecond precision).
+ */
+function toUnixNano(ms: number): string {
+  return `${Math.round(ms * 1000)}000`;
+}
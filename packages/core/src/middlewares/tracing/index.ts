@@ -0,0 +1,14 @@
+export { tracing, type TracingOptions } from './middleware.js';
+export {
+  InMemoryExporter,
+  OTLPExporter,
+  createInMemoryExporter,
+  createOTLPExporter,
+  type Span,
+  type SpanKind,
+  type SpanStatus,
+  type SpanAttributeValue,
+  type SpanExporter,
+  type OTLPExporterOptions,
+} from './exporters.js';
+export { parseTraceparent, formatTraceparent, type TraceParent } from './context.js';
@@ -0,0 +1,249 @@
+import type {
+  Middleware,
+  MiddlewareChain,
+  MiddlewareContext,
+  MiddlewareEndEvent,
+  MiddlewareErrorEvent,
+  RequestMeta,
+} from '../../types.js';
+import { isMiddlewareError } from '../../errors.js';
+import {
+  parseTraceparent,
+  formatTraceparent,
+  normalizeTracestate,
+  generateTraceId,
+  generateSpanId,
+} from './context.js';
+import type { Span, SpanAttributeValue, SpanExporter } from './exporters.js';
+
+/**
+ * Options for the tracing middleware.
+ */
+export interface TracingOptions {
+  /**
+   * Destination for finished spans.
+   */
+  exporter: SpanExporter;
+
+  /**
+   * Chain whose middlewares get a child span each.
+   * Spans are created from the chain's lifecycle events; only middlewares
+   * running after `tracing()` are traced.
+   */
+  chain?: Pick<MiddlewareChain, 'on'>;
+
+  /**
+   * Server span name.
+   * @default ctx.meta.method
+   */
+  spanName?: (ctx: MiddlewareContext) => string;
+
+  /**
+   * Extra attributes for the server span, read when the request ends.
+   */
+  attributes?: (ctx: MiddlewareContext) => Record<string, SpanAttributeValue>;
+
+  /**
+   * Sampling ratio for new traces (0 to 1).
+   * Requests with a `traceparent` header follow the caller's sampling decision.
+   * @default 1
+   */
+  sampleRate?: number;
+
+  /**
+   * Set `traceparent`/`tracestate` response headers.
+   * @default true
+   */
+  responseHeaders?: boolean;
+}
+
+/**
+ * Spans of a request in progress.
+ */
+interface ActiveTrace {
+  traceId: string;
+  spanId: string;
+  open: Map<number, { spanId: string; shortCircuit: boolean }>;
+  finished: Span[];
+}
+
+/**
+ * Tracing middleware.
+ * Continues or starts a W3C Trace Context trace, records a server span for
+ * the request and exports it with one child span per middleware.
+ * Sets `ctx.meta.traceId` and `ctx.meta.spanId`, which `logger()` includes in its entries.
+ *
+ * @param options - Configuration options
+ * @returns Middleware instance
+ *
+ * @example
+ * ```typescript
+ * import { createChain, tracing, logger, OTLPExporter } from '@openmiddleware/chain';
+ *
+ * const chain = createChain();
+ * chain
+ *   .use(tracing({
+ *     exporter: new OTLPExporter({ serviceName: 'api' }),
+ *     chain,
+ *   }))
+ *   .use(logger());
+ * ```
+ */
+export function tracing(options: TracingOptions): Middleware {
+  const {
+    exporter,
+    chain,
+    spanName = (ctx) => ctx.meta.method,
+    attributes,
+    sampleRate = 1,
+    responseHeaders = true,
+  } = options;
+
+  const traces = new WeakMap<RequestMeta, ActiveTrace>();
+  const unsubscribers: Array<() => void> = [];
+
+  if (chain) {
+    unsubscribers.push(
+      chain.on('middleware:start', (event) => {
+        traces.get(event.meta)?.open.set(event.index, {
+          spanId: generateSpanId(),
+          shortCircuit: false,
+        });
+      }),
+      chain.on('short-circuit', (event) => {
+        const open = traces.get(event.meta)?.open.get(event.index);
+        if (open) {
+          open.shortCircuit = true;
+        }
+      }),
+      chain.on('middleware:end', (event) => finishMiddlewareSpan(traces, event)),
+      chain.on('middleware:error', (event) => finishMiddlewareSpan(traces, event))
+    );
+  }
+
+  return {
+    name: 'tracing',
+    options,
+    handler: async (ctx, next) => {
+      const headers = ctx.request.headers;
+      const parent = parseTraceparent(headers.get('traceparent'));
+      const traceState = parent ? normalizeTracestate(headers.get('tracestate')) : undefined;
+      const sampled = parent ? parent.sampled : Math.random() < sampleRate;
+      const trace: ActiveTrace = {
+        traceId: parent?.traceId ?? generateTraceId(),
+        spanId: generateSpanId(),
+        open: new Map(),
+        finished: [],
+      };
+
+      ctx.meta.traceId = trace.traceId;
+      ctx.meta.spanId = trace.spanId;
+
+      if (responseHeaders) {
+        ctx.response.setHeader(
+          'traceparent',
+          formatTraceparent({ traceId: trace.traceId, spanId: trace.spanId, sampled })
+        );
+        if (traceState) {
+          ctx.response.setHeader('tracestate', traceState);
+        }
+      }
+
+      if (sampled) {
+        traces.set(ctx.meta, trace);
+      }
+
+      const startTime = Date.now();
+      const start = performance.now();
+      let status = 200;
+      let failure: unknown;
+
+      try {
+        const result = await next();
+        status = result.done ? result.response.status : ctx.response.status;
+      } catch (error) {
+        failure = error;
+        status = isMiddlewareError(error) ? error.statusCode : 500;
+        throw error;
+      } finally {
+        traces.delete(ctx.meta);
+
+        if (sampled) {
+          const server: Span = {
+            traceId: trace.traceId,
+            spanId: trace.spanId,
+            ...(parent && { parentSpanId: parent.spanId }),
+            ...(traceState && { traceState }),
+            name: spanName(ctx),
+            kind: 'server',
+            startTime,
+            endTime: startTime + (performance.now() - start),
+            attributes: {
+              'http.request.method': ctx.meta.method,
+              'url.path': ctx.meta.url.pathname,
+              'url.scheme': ctx.meta.url.protocol.replace(/:$/, ''),
+              'server.address': ctx.meta.url.hostname,
+              ...(ctx.meta.ip && { 'client.address': ctx.meta.ip }),
+              'request.id': ctx.meta.id,
+              'http.response.status_code': status,
+              ...attributes?.(ctx),
+            },
+            status:
+              failure !== undefined || status >= 500
+                ? { code: 'error', ...(failure instanceof Error && { message: failure.message }) }
+                : { code: 'unset' },
+          };
+
+          exporter.export([server, ...trace.finished]).catch((error: unknown) => {
+            // eslint-disable-next-line no-console
+            console.error('[OpenMiddleware] Span export failed', error);
+          });
+        }
+      }
+
+      return { done: false };
+    },
+    onDestroy: async () => {
+      for (const unsubscribe of unsubscribers) {
+        unsubscribe();
+      }
+      await exporter.shutdown?.();
+    },
+  };
+}
+
+/**
+ * Close the child span of a middleware.
+ */
+function finishMiddlewareSpan(
+  traces: WeakMap<RequestMeta, ActiveTrace>,
+  event: MiddlewareEndEvent | MiddlewareErrorEvent
+): void {
+  const trace = traces.get(event.meta);
+  const open = trace?.open.get(event.index);
+  if (!trace || !open) return;
+
+  trace.open.delete(event.index);
+
+  trace.finished.push({
+    traceId: trace.traceId,
+    spanId: open.spanId,
+    parentSpanId: trace.spanId,
+    name: event.name,
+    kind: 'internal',
+    startTime: event.startTime,
+    endTime: event.startTime + event.duration,
+    attributes: {
+      'middleware.name': event.name,
+      'middleware.index': event.index,
+      ...(open.shortCircuit && { 'middleware.short_circuit': true }),
+    },
+    status:
+      'error' in event
+        ? {
+            code: 'error',
+            message: event.error instanceof Error ? event.error.message : String(event.error),
+          }
+        : { code: 'unset' },
+  });
+}
@@ -32,7 +32,7 @@ export interface ValidatorOptions {
 
   /**
    * Schema for validating URL parameters.
-   * URL parameters should be extracted and passed in state.
+   * Reads `ctx.state.params`, as filled by `createRouter()`.
    */
   params?: Schema;
 
@@ -64,7 +64,7 @@ export interface ValidatorOptions {
  * ```typescript
  * import { createChain, validator, z } from '@openmiddleware/chain';
  *
- * const chain = createChain<ValidatedState>()
+ * const chain = createChain()
  *   .use(validator({
  *     body: z.object({
  *       name: z.string().min(1),
@@ -97,6 +97,9 @@ export function validator(options: ValidatorOptions): Middleware<ValidatedState>
 
   return {
     name: 'validator',
+    // Validates ctx.state.body as parsed by body-parser when both are used
+    after: ['body-parser'],
+    options,
     handler: async (ctx, next) => {
       const allErrors: ValidationIssue[] = [];
 
@@ -179,14 +182,14 @@ async function getBodyData(ctx: MiddlewareContext<ValidatedState>): Promise<unkn
     return state['body'];
   }
 
-  // Try to parse body
+  // Try to parse body (memoized, so later middlewares can still read it)
   try {
     const contentType = ctx.request.headers.get('Content-Type') || '';
     if (contentType.includes('application/json')) {
-      return await ctx.request.clone().json();
+      return await ctx.body.json();
     }
     if (contentType.includes('application/x-www-form-urlencoded')) {
-      const text = await ctx.request.clone().text();
+      const text = await ctx.body.text();
       const params = new URLSearchParams(text);
       const obj: Record<string, string> = {};
       params.forEach((value, key) => {
@@ -194,7 +197,7 @@ async function getBodyData(ctx: MiddlewareContext<ValidatedState>): Promise<unkn
       });
       return obj;
     }
-    return await ctx.request.clone().text();
+    return await ctx.body.text();
   } catch {
     return undefined;
   }
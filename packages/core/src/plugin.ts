@@ -0,0 +1,188 @@
+import type {
+  ChainableMiddleware,
+  MiddlewareChain,
+  MiddlewareContext,
+  Plugin,
+  PluginHost,
+  ResponseBuilder,
+} from './types.js';
+import { createContext } from './context.js';
+
+/**
+ * Lifecycle hooks registered by a plugin.
+ * Not exported publicly - run by the chain alongside middleware hooks.
+ */
+export interface PluginHook {
+  /** `plugin:<name>`, used in InitializationError messages */
+  name: string;
+  onInit?: () => Promise<void> | void;
+  onDestroy?: () => Promise<void> | void;
+}
+
+/**
+ * Context and response decorations registered by plugins.
+ */
+export interface Decorations {
+  context: Array<Decoration<(ctx: MiddlewareContext) => unknown>>;
+  response: Array<Decoration<(response: ResponseBuilder, ctx: MiddlewareContext) => unknown>>;
+}
+
+/**
+ * Decoration of a single property.
+ */
+interface Decoration<TFactory> {
+  name: PropertyKey;
+  plugin: string;
+  factory: TFactory;
+}
+
+/**
+ * Context whose properties cannot be decorated, created on first use.
+ */
+let probe: MiddlewareContext | undefined;
+
+/**
+ * Define a plugin.
+ * Plugins bundle middlewares, context decorations and lifecycle hooks for
+ * features that span more than one middleware.
+ *
+ * @template TOptions - Options passed to `chain.register()`
+ * @param plugin - Plugin definition
+ * @returns The plugin
+ *
+ * @example
+ * ```typescript
+ * declare module '@openmiddleware/chain' {
+ *   interface ContextExtensions {
+ *     metrics: Metrics;
+ *   }
+ * }
+ *
+ * const metricsPlugin = definePlugin<{ prefix?: string } | undefined>({
+ *   name: 'metrics',
+ *   register(chain, options) {
+ *     const metrics = new Metrics(options?.prefix ?? 'http');
+ *     chain
+ *       .decorate('metrics', () => metrics)
+ *       .insertBefore('router', requestCounter(metrics))
+ *       .onDestroy(() => metrics.flush());
+ *   },
+ * });
+ *
+ * createChain().use(router).register(metricsPlugin, { prefix: 'api' });
+ * ```
+ */
+export function definePlugin<TOptions = undefined>(plugin: Plugin<TOptions>): Plugin<TOptions> {
+  if (!plugin.name) {
+    throw new Error('Plugin name is required');
+  }
+  return plugin;
+}
+
+/**
+ * Create the API passed to a plugin's register().
+ *
+ * @param name - Plugin name
+ * @param chain - Chain the plugin is registered on
+ * @param decorations - Decorations of the chain
+ * @param hooks - Lifecycle hooks of the chain
+ * @returns PluginHost instance
+ */
+export function createPluginHost<TState>(
+  name: string,
+  chain: MiddlewareChain<TState>,
+  decorations: Decorations,
+  hooks: PluginHook[]
+): PluginHost {
+  const target = chain as unknown as MiddlewareChain;
+
+  const host: PluginHost = {
+    plugin: name,
+
+    use(...middlewares: ChainableMiddleware[]) {
+      target.use(...middlewares);
+      return host;
+    },
+
+    insertBefore(before: string, ...middlewares: ChainableMiddleware[]) {
+      target.insertBefore(before, ...middlewares);
+      return host;
+    },
+
+    insertAfter(after: string, ...middlewares: ChainableMiddleware[]) {
+      target.insertAfter(after, ...middlewares);
+      return host;
+    },
+
+    decorate(property, factory) {
+      checkDecoration(decorations, 'context', property, name);
+      decorations.context.push({ name: property, plugin: name, factory });
+      return host;
+    },
+
+    decorateResponse(property, factory) {
+      checkDecoration(decorations, 'response', property, name);
+      decorations.response.push({ name: property, plugin: name, factory });
+      return host;
+    },
+
+    onInit(hook) {
+      hooks.push({ name: `plugin:${name}`, onInit: hook });
+      return host;
+    },
+
+    onDestroy(hook) {
+      hooks.push({ name: `plugin:${name}`, onDestroy: hook });
+      return host;
+    },
+  };
+
+  return host;
+}
+
+/**
+ * Add the decorated properties to a context and its response builder.
+ *
+ * @param ctx - Middleware context
+ * @param decorations - Decorations to apply
+ */
+export function applyDecorations<TState>(
+  ctx: MiddlewareContext<TState>,
+  decorations: Decorations
+): void {
+  const context = ctx as unknown as MiddlewareContext;
+  for (const { name, factory } of decorations.context) {
+    (context as unknown as Record<PropertyKey, unknown>)[name] = factory(context);
+  }
+  for (const { name, factory } of decorations.response) {
+    (context.response as unknown as Record<PropertyKey, unknown>)[name] = factory(
+      context.response,
+      context
+    );
+  }
+}
+
+/**
+ * Reject decorations that would shadow built-in or other plugins' properties.
+ */
+function checkDecoration(
+  decorations: Decorations,
+  kind: 'context' | 'response',
+  property: PropertyKey,
+  plugin: string
+): void {
+  const label = kind === 'context' ? 'Context' : 'Response';
+  const existing = decorations[kind].find((decoration) => decoration.name === property);
+  if (existing) {
+    throw new Error(
+      `${label} property "${String(property)}" is already decorated by plugin "${existing.plugin}"`
+    );
+  }
+
+  probe ??= createContext(new Request('http://localhost/'));
+  if (property in (kind === 'context' ? probe : probe.response)) {
+    throw new Error(
+      `Plugin "${plugin}" cannot decorate built-in ${kind} property "${String(property)}"`
+    );
+  }
+}
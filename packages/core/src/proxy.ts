@@ -0,0 +1,152 @@
+import type { TrustProxy } from './types.js';
+import { compileIPRange, normalizeIP, parseForwarded } from './utils/ip.js';
+
+/**
+ * Compiled trustProxy setting.
+ * Receives the address of a hop (undefined if unknown or invalid) and its
+ * distance from the server (0 for the connected peer).
+ */
+export type TrustPredicate = (address: string | undefined, hop: number) => boolean;
+
+/**
+ * Client details resolved from the connection and forwarding headers.
+ */
+export interface ClientInfo {
+  /** Client IP address */
+  ip?: string;
+  /** Protocol without the trailing colon (e.g. 'https') */
+  protocol: string;
+  /** Host, with the port if not the default */
+  host: string;
+}
+
+/**
+ * Named ranges accepted in trustProxy lists.
+ */
+const TRUST_PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+/**
+ * Protocol tokens accepted from forwarding headers.
+ */
+const PROTOCOL_PATTERN = /^[a-z][a-z0-9+.-]*$/;
+
+/**
+ * Compiled settings, so a chain's setting is compiled once rather than per request.
+ */
+const compiledLists = new WeakMap<object, TrustPredicate>();
+const compiledStrings = new Map<string, TrustPredicate>();
+
+/**
+ * Compile a trustProxy setting into a predicate.
+ *
+ * @param trust - trustProxy setting
+ * @returns Predicate deciding whether a hop is a trusted proxy
+ * @throws Error if a list contains an invalid IP range
+ */
+export function compileTrustProxy(trust: TrustProxy): TrustPredicate {
+  if (typeof trust === 'boolean' || typeof trust === 'number') {
+    return compile(trust);
+  }
+
+  let compiled = typeof trust === 'string' ? compiledStrings.get(trust) : compiledLists.get(trust);
+  if (!compiled) {
+    compiled = compile(trust);
+    if (typeof trust === 'string') {
+      compiledStrings.set(trust, compiled);
+    } else {
+      compiledLists.set(trust, compiled);
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Resolve the client address, protocol and host of a request.
+ * Starting from the connected peer, addresses from `Forwarded` (or
+ * `X-Forwarded-For`) are walked from the right while they belong to trusted
+ * proxies; the first untrusted address is the client. Protocol and host come
+ * from the forwarding headers only when the peer is trusted.
+ *
+ * @param request - Fetch API Request
+ * @param url - Parsed request URL
+ * @param remoteAddress - Socket address of the connected peer
+ * @param trust - Compiled trustProxy setting
+ * @returns Resolved client details
+ */
+export function resolveClient(
+  request: Request,
+  url: URL,
+  remoteAddress: string | undefined,
+  trust: TrustPredicate
+): ClientInfo {
+  const peer = normalizeIP(remoteAddress);
+  const direct: ClientInfo = { ip: peer, protocol: url.protocol.slice(0, -1), host: url.host };
+  if (!trust(peer, 0)) return direct;
+
+  const { headers } = request;
+  const forwarded = parseForwarded(headers.get('Forwarded'));
+  const addresses =
+    forwarded.length > 0
+      ? forwarded.map((element) => element.for)
+      : splitList(headers.get('X-Forwarded-For'));
+
+  // Hops from the client to the peer; the peer's address is not in the headers
+  const hops = [...addresses.map(normalizeIP), peer];
+  let index = hops.length - 1;
+  let hop = 0;
+  while (index > 0 && trust(hops[index], hop)) {
+    index--;
+    hop++;
+  }
+
+  // The element at the client's position was added by the first trusted proxy
+  const proto =
+    forwarded.length > 0
+      ? forwarded[index]?.proto
+      : splitList(headers.get('X-Forwarded-Proto'))[0]?.toLowerCase();
+  const host =
+    forwarded.length > 0 ? forwarded[index]?.host : splitList(headers.get('X-Forwarded-Host'))[0];
+
+  return {
+    ip: hops[index],
+    protocol: proto && PROTOCOL_PATTERN.test(proto) ? proto : direct.protocol,
+    host: host || direct.host,
+  };
+}
+
+/**
+ * Compile a trustProxy setting without caching.
+ */
+function compile(trust: TrustProxy): TrustPredicate {
+  if (typeof trust === 'boolean') {
+    return () => trust;
+  }
+  if (typeof trust === 'number') {
+    return (_address, hop) => hop < trust;
+  }
+  if (typeof trust === 'function') {
+    return (address, hop) => address !== undefined && trust(address, hop);
+  }
+
+  const ranges = (typeof trust === 'string' ? trust.split(',') : trust)
+    .map((range) => range.trim())
+    .filter(Boolean)
+    .flatMap((range) => TRUST_PRESETS[range] ?? [range])
+    .map(compileIPRange);
+  return (address) => address !== undefined && ranges.some((matches) => matches(address));
+}
+
+/**
+ * Split a comma-separated header into trimmed values.
+ */
+function splitList(header: string | null): string[] {
+  if (!header) return [];
+  return header
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
@@ -1,9 +1,41 @@
-import type { ResponseBuilder } from './types.js';
+import type {
+  CookieOptions,
+  NegotiationHandlers,
+  ResponseBuilder,
+  SSEOptions,
+  SSEStream,
+  StreamProducer,
+} from './types.js';
+import { createSSEBody } from './sse.js';
+import { encryptCookieValue, signCookieValue } from './cookies.js';
+import { serializeCookie } from './utils/cookies.js';
+import { selectAccepted } from './utils/headers.js';
+
+/**
+ * Options for createResponseBuilder().
+ */
+export interface ResponseBuilderOptions {
+  /**
+   * Request being answered. `sse()` reads its `Last-Event-ID` header.
+   */
+  request?: Request;
+
+  /**
+   * Signal of the request (ctx.signal). `sse()` closes the stream when it aborts.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Secrets for `setSignedCookie()` and `setEncryptedCookie()`, newest first.
+   */
+  cookieSecrets?: string[];
+}
 
 /**
  * Create a new ResponseBuilder instance.
  * Provides a fluent API for constructing HTTP responses.
  *
+ * @param options - Request the response belongs to
  * @returns ResponseBuilder instance
  *
  * @example
@@ -15,12 +47,13 @@ import type { ResponseBuilder } from './types.js';
  *   .build();
  * ```
  */
-export function createResponseBuilder(): ResponseBuilder {
+export function createResponseBuilder(options: ResponseBuilderOptions = {}): ResponseBuilder {
   let _status = 200;
   const _headers = new Headers();
   let _body: BodyInit | null = null;
 
-  const builder: ResponseBuilder = {
+  // Plugin decorations (ResponseExtensions) are added by the chain
+  const builder = {
     get status(): number {
       return _status;
     },
@@ -84,13 +117,167 @@ export function createResponseBuilder(): ResponseBuilder {
       return builder;
     },
 
+    stream(
+      producer: StreamProducer,
+      contentType: string = 'application/octet-stream'
+    ): ResponseBuilder {
+      if (!_headers.has('Content-Type')) {
+        _headers.set('Content-Type', contentType);
+      }
+      _headers.delete('Content-Length');
+      _body = createStreamBody(producer);
+      return builder;
+    },
+
+    sse(sseOptions: SSEOptions = {}): SSEStream {
+      const lastEventId = options.request?.headers.get('Last-Event-ID') ?? null;
+      const { body, stream } = createSSEBody(sseOptions, lastEventId, options.signal);
+
+      _headers.set('Content-Type', 'text/event-stream');
+      _headers.set('Cache-Control', 'no-cache');
+      // Stop nginx from buffering the events
+      _headers.set('X-Accel-Buffering', 'no');
+      _headers.delete('Content-Length');
+      _body = body;
+      return stream;
+    },
+
+    negotiate(handlers: NegotiationHandlers): ResponseBuilder {
+      const { default: fallback, ...types } = handlers;
+      const offers = Object.keys(types).filter((type) => types[type] !== undefined);
+      const selected = selectAccepted(options.request?.headers.get('Accept') ?? null, offers);
+
+      _headers.append('Vary', 'Accept');
+
+      if (selected !== undefined) {
+        _headers.set('Content-Type', selected);
+        types[selected]?.();
+
+        // Body helpers such as text() set their own type; the negotiated one wins,
+        // keeping parameters like charset
+        const [mediaType = '', ...params] = (_headers.get('Content-Type') ?? '').split(';');
+        if (mediaType.trim().toLowerCase() !== selected.toLowerCase()) {
+          _headers.set('Content-Type', [selected, ...params].join(';'));
+        }
+      } else if (fallback) {
+        fallback();
+      } else {
+        builder.setStatus(406).json({ error: 'Not Acceptable', code: 'NOT_ACCEPTABLE' });
+      }
+      return builder;
+    },
+
+    setCookie(name: string, value: string, cookieOptions?: CookieOptions): ResponseBuilder {
+      _headers.append('Set-Cookie', serializeCookie(name, value, cookieOptions));
+      return builder;
+    },
+
+    async setSignedCookie(
+      name: string,
+      value: string,
+      cookieOptions?: CookieOptions
+    ): Promise<ResponseBuilder> {
+      const signed = await signCookieValue(name, value, requireCookieSecret(options));
+      return builder.setCookie(name, signed, cookieOptions);
+    },
+
+    async setEncryptedCookie(
+      name: string,
+      value: string,
+      cookieOptions?: CookieOptions
+    ): Promise<ResponseBuilder> {
+      const encrypted = await encryptCookieValue(name, value, requireCookieSecret(options));
+      return builder.setCookie(name, encrypted, cookieOptions);
+    },
+
+    clearCookie(
+      name: string,
+      cookieOptions?: Omit<CookieOptions, 'maxAge' | 'expires'>
+    ): ResponseBuilder {
+      return builder.setCookie(name, '', { ...cookieOptions, maxAge: 0, expires: new Date(0) });
+    },
+
     build(): Response {
       return new Response(_body, {
         status: _status,
         headers: _headers,
       });
     },
-  };
+  } as ResponseBuilder;
 
   return builder;
 }
+
+/**
+ * Get the secret used for new signed and encrypted cookies.
+ */
+function requireCookieSecret(options: ResponseBuilderOptions): string {
+  const secret = options.cookieSecrets?.[0];
+  if (!secret) {
+    throw new Error('Signed and encrypted cookies require `cookies.secrets` in the chain options');
+  }
+  return secret;
+}
+
+/**
+ * Create a pull-based ReadableStream fed by a producer function.
+ * The producer starts on the first read and each write waits for the next read.
+ *
+ * @param producer - Function writing the chunks
+ * @returns ReadableStream of bytes
+ */
+export function createStreamBody(producer: StreamProducer): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const cancelled = new AbortController();
+  let started = false;
+  let resumeWriter: (() => void) | null = null;
+
+  const resume = (): void => {
+    const resolve = resumeWriter;
+    resumeWriter = null;
+    resolve?.();
+  };
+
+  return new ReadableStream<Uint8Array>(
+    {
+      pull(controller) {
+        if (started) {
+          resume();
+          return;
+        }
+        started = true;
+
+        const writer = {
+          signal: cancelled.signal,
+          async write(chunk: string | Uint8Array): Promise<void> {
+            if (cancelled.signal.aborted) {
+              throw new Error('Stream was cancelled');
+            }
+            controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+            if ((controller.desiredSize ?? 0) <= 0) {
+              await new Promise<void>((resolve) => {
+                resumeWriter = resolve;
+              });
+            }
+          },
+        };
+
+        Promise.resolve()
+          .then(() => producer(writer))
+          .then(
+            () => {
+              if (!cancelled.signal.aborted) controller.close();
+            },
+            (error: unknown) => {
+              if (!cancelled.signal.aborted) controller.error(error);
+            }
+          );
+      },
+      cancel(reason) {
+        cancelled.abort(reason);
+        resume();
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
@@ -0,0 +1,520 @@
+import type {
+  Middleware,
+  MiddlewareHandler,
+  MiddlewareContext,
+  MiddlewareResult,
+  NextFunction,
+} from './types.js';
+import { composeChain, type ComposedChain } from './chain.js';
+
+/**
+ * Path parameters extracted from a route pattern.
+ * Supports named (`:id`), optional (`:id?`) and wildcard (`*`) segments.
+ *
+ * @template TPath - Route pattern literal
+ *
+ * @example
+ * ```typescript
+ * type Params = PathParams<'/users/:id/posts/:postId?'>;
+ * // { id: string; postId?: string }
+ *
+ * type Files = PathParams<'/files/*'>;
+ * // { '*': string }
+ * ```
+ */
+export type PathParams<TPath extends string> = string extends TPath
+  ? Record<string, string | undefined>
+  : Simplify<SegmentsParams<TPath>>;
+
+/**
+ * State added by the router to matched requests.
+ *
+ * @template TPath - Route pattern literal
+ */
+export interface RouteState<TPath extends string = string> {
+  /** Path parameters extracted from the matched route */
+  params: PathParams<TPath>;
+}
+
+/**
+ * Route handler: a middleware or handler that sees typed path params.
+ *
+ * @template TState - Chain state
+ * @template TPath - Route pattern literal
+ */
+export type RouteHandler<TState, TPath extends string> =
+  | Middleware<TState & RouteState<TPath>>
+  | MiddlewareHandler<TState & RouteState<TPath>>;
+
+/**
+ * Options for the router.
+ */
+export interface RouterOptions {
+  /**
+   * Middleware name used for the router in the chain.
+   * @default 'router'
+   */
+  name?: string;
+
+  /**
+   * Call next() instead of answering 404 when no route matches the path.
+   * Useful when the router is followed by other middlewares.
+   * @default false
+   */
+  fallthrough?: boolean;
+}
+
+/**
+ * Registered route definition.
+ */
+export interface RouteDefinition {
+  /** HTTP method (uppercase), or `'*'` for any method */
+  method: string;
+  /** Route pattern as registered */
+  path: string;
+}
+
+/**
+ * Route matched by `router.match()`.
+ *
+ * @template TState - Chain state visible to route handlers
+ */
+export interface RouteMatch<TState = Record<string, unknown>> {
+  /** HTTP method of the matched route (uppercase), or `'*'` for any method */
+  method: string;
+  /** Route pattern as registered */
+  path: string;
+  /** Decoded path parameters */
+  params: Record<string, string>;
+  /** Route handlers, in execution order */
+  middlewares: ReadonlyArray<Middleware<TState>>;
+}
+
+/**
+ * Router middleware with method-specific route registration.
+ * A router is a regular `Middleware` and can be passed to `chain.use()`.
+ *
+ * @template TState - Chain state visible to route handlers
+ */
+export interface Router<TState = Record<string, unknown>> extends Middleware<TState> {
+  /** Register a route for GET requests (also answers HEAD) */
+  get<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+  /** Register a route for POST requests */
+  post<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+  /** Register a route for PUT requests */
+  put<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+  /** Register a route for PATCH requests */
+  patch<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+  /** Register a route for DELETE requests */
+  delete<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+  /** Register a route for HEAD requests (overrides the GET fallback) */
+  head<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+  /** Register a route for OPTIONS requests (overrides the automatic Allow response) */
+  options<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+  /** Register a route for any HTTP method */
+  all<TPath extends string>(path: TPath, ...handlers: Array<RouteHandler<TState, TPath>>): this;
+
+  /**
+   * Register a route for one or more HTTP methods
+   * @param method - HTTP method or list of methods
+   * @param path - Route pattern
+   * @param handlers - Route handlers, executed in order
+   * @returns this for chaining
+   */
+  on<TPath extends string>(
+    method: string | string[],
+    path: TPath,
+    ...handlers: Array<RouteHandler<TState, TPath>>
+  ): this;
+
+  /**
+   * Get all registered routes
+   * @returns Readonly array of route definitions
+   */
+  routes(): ReadonlyArray<RouteDefinition>;
+
+  /**
+   * Find the route a request would be dispatched to, without running it.
+   * HEAD requests fall back to GET routes like in dispatch.
+   * @param method - HTTP method
+   * @param pathname - URL pathname
+   * @returns Matched route, or null if no route matches the method and path
+   */
+  match(method: string, pathname: string): RouteMatch<TState> | null;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type SegmentsParams<TPath extends string> = TPath extends `${infer Head}/${infer Tail}`
+  ? SegmentParam<Head> & SegmentsParams<Tail>
+  : SegmentParam<TPath>;
+
+type SegmentParam<TSegment extends string> = TSegment extends '*'
+  ? { '*': string }
+  : TSegment extends `:${infer Name}?`
+    ? { [K in Name]?: string }
+    : TSegment extends `:${infer Name}`
+      ? { [K in Name]: string }
+      : {};
+
+/**
+ * Wildcard method marker for `router.all()`.
+ */
+const ANY_METHOD = '*';
+
+/**
+ * Compiled route.
+ */
+interface CompiledRoute<TState> {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  keys: string[];
+  middlewares: Middleware<TState>[];
+  /** Route handlers composed at registration */
+  run: ComposedChain<TState>;
+}
+
+/**
+ * Compiled route with the params extracted from a pathname.
+ */
+interface RouteCandidate<TState> {
+  route: CompiledRoute<TState>;
+  params: Record<string, string>;
+}
+
+/**
+ * Result of looking up a request in the route table.
+ */
+interface RouteLookup<TState> {
+  /** Route registered for the method (or any method) */
+  match?: RouteCandidate<TState>;
+  /** GET route answering a HEAD request */
+  headFallback?: RouteCandidate<TState>;
+  /** Methods of routes matching the path with another method */
+  allowed: Set<string>;
+}
+
+/**
+ * Create a router middleware.
+ * Routes are matched in registration order. Matched path parameters are
+ * stored in `ctx.state.params`.
+ *
+ * Unmatched paths are answered with 404, paths that match with a different
+ * method with 405 and an `Allow` header. HEAD requests fall back to GET
+ * routes with the body stripped, and OPTIONS requests are answered with the
+ * allowed methods unless an explicit OPTIONS route exists.
+ *
+ * @template TState - Chain state visible to route handlers
+ * @param options - Router options
+ * @returns Router instance
+ *
+ * @example
+ * ```typescript
+ * import { createChain, createRouter } from '@openmiddleware/chain';
+ *
+ * const router = createRouter()
+ *   .get('/users/:id', async (ctx, next) => {
+ *     ctx.response.json({ id: ctx.state.params.id });
+ *     await next();
+ *     return { done: false };
+ *   })
+ *   .delete('/users/:id', auth({ jwt: { secret } }), async (ctx, next) => {
+ *     ctx.response.setStatus(204);
+ *     await next();
+ *     return { done: false };
+ *   });
+ *
+ * const chain = createChain().use(logger()).use(router);
+ * ```
+ */
+export function createRouter<TState = Record<string, unknown>>(
+  options: RouterOptions = {}
+): Router<TState> {
+  const { name = 'router', fallthrough = false } = options;
+  const routes: CompiledRoute<TState>[] = [];
+
+  const register = (
+    methods: string | string[],
+    path: string,
+    handlers: Array<Middleware<TState> | MiddlewareHandler<TState>>
+  ): void => {
+    if (handlers.length === 0) {
+      throw new Error(`Route ${path} requires at least one handler`);
+    }
+
+    const { pattern, keys } = compilePattern(path);
+    const methodList = Array.isArray(methods) ? methods : [methods];
+
+    for (const method of methodList) {
+      const upper = method.toUpperCase();
+      const middlewares = handlers.map((handler, i) =>
+        typeof handler === 'function'
+          ? { name: `${upper} ${path}${handlers.length > 1 ? ` #${i}` : ''}`, handler }
+          : handler
+      );
+      routes.push({
+        method: upper,
+        path,
+        pattern,
+        keys,
+        middlewares,
+        run: composeChain(middlewares),
+      });
+    }
+  };
+
+  const router: Router<TState> = {
+    name,
+
+    handler: async (ctx, next) => {
+      const method = ctx.meta.method;
+      const { match, headFallback, allowed } = lookupRoute(routes, method, ctx.meta.url.pathname);
+
+      if (match) {
+        return runRoute(match.route, match.params, ctx, next, false);
+      }
+
+      if (headFallback) {
+        return runRoute(headFallback.route, headFallback.params, ctx, next, true);
+      }
+
+      if (allowed.size === 0) {
+        if (fallthrough) {
+          await next();
+          return { done: false };
+        }
+
+        ctx.response.setStatus(404).json({ error: 'Not Found', code: 'NOT_FOUND' });
+        return { done: true, response: ctx.response.build() };
+      }
+
+      if (allowed.has('GET')) allowed.add('HEAD');
+      allowed.add('OPTIONS');
+      ctx.response.setHeader('Allow', [...allowed].join(', '));
+
+      if (method === 'OPTIONS') {
+        ctx.response.setStatus(204);
+        ctx.response.body = null;
+        return { done: true, response: ctx.response.build() };
+      }
+
+      ctx.response
+        .setStatus(405)
+        .json({ error: 'Method Not Allowed', code: 'METHOD_NOT_ALLOWED' });
+      return { done: true, response: ctx.response.build() };
+    },
+
+    onInit: async () => {
+      for (const route of routes) {
+        for (const mw of route.middlewares) {
+          if (mw.onInit) {
+            await mw.onInit();
+          }
+        }
+      }
+    },
+
+    onDestroy: async () => {
+      for (const route of routes) {
+        for (const mw of route.middlewares) {
+          if (mw.onDestroy) {
+            await mw.onDestroy();
+          }
+        }
+      }
+    },
+
+    get(path, ...handlers) {
+      register('GET', path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    post(path, ...handlers) {
+      register('POST', path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    put(path, ...handlers) {
+      register('PUT', path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    patch(path, ...handlers) {
+      register('PATCH', path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    delete(path, ...handlers) {
+      register('DELETE', path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    head(path, ...handlers) {
+      register('HEAD', path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    options(path, ...handlers) {
+      register('OPTIONS', path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    all(path, ...handlers) {
+      register(ANY_METHOD, path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+    on(method, path, ...handlers) {
+      register(method, path, handlers as Array<Middleware<TState>>);
+      return router;
+    },
+
+    routes(): ReadonlyArray<RouteDefinition> {
+      return routes.map((route) => ({ method: route.method, path: route.path }));
+    },
+
+    match(method: string, pathname: string): RouteMatch<TState> | null {
+      const { match, headFallback } = lookupRoute(routes, method.toUpperCase(), pathname);
+      const found = match ?? headFallback;
+      if (!found) return null;
+
+      return {
+        method: found.route.method,
+        path: found.route.path,
+        params: found.params,
+        middlewares: [...found.route.middlewares],
+      };
+    },
+  };
+
+  return router;
+}
+
+/**
+ * Look up a request in the route table, in registration order.
+ */
+function lookupRoute<TState>(
+  routes: ReadonlyArray<CompiledRoute<TState>>,
+  method: string,
+  pathname: string
+): RouteLookup<TState> {
+  const allowed = new Set<string>();
+  let headFallback: RouteCandidate<TState> | undefined;
+
+  for (const route of routes) {
+    const params = matchRoute(route, pathname);
+    if (!params) continue;
+
+    if (route.method === method || route.method === ANY_METHOD) {
+      return { match: { route, params }, headFallback, allowed };
+    }
+
+    if (method === 'HEAD' && route.method === 'GET' && !headFallback) {
+      headFallback = { route, params };
+    }
+    allowed.add(route.method);
+  }
+
+  return { headFallback, allowed };
+}
+
+/**
+ * Run the handlers of a matched route.
+ * Route handlers continue into the outer chain when the last one calls next().
+ */
+async function runRoute<TState>(
+  route: CompiledRoute<TState>,
+  params: Record<string, string>,
+  ctx: MiddlewareContext<TState>,
+  next: NextFunction,
+  stripBody: boolean
+): Promise<MiddlewareResult> {
+  (ctx.state as Record<string, unknown>)['params'] = params;
+
+  const result = await route.run(ctx, next);
+  if (!stripBody) {
+    return result;
+  }
+  if (result.done) {
+    return { done: true, response: withoutBody(result.response) };
+  }
+
+  ctx.response.body = null;
+  return result;
+}
+
+/**
+ * Copy a response without its body (for HEAD requests).
+ */
+function withoutBody(response: Response): Response {
+  return new Response(null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Match a pathname against a compiled route.
+ * @returns Decoded params, or null if the path does not match
+ */
+function matchRoute<TState>(
+  route: CompiledRoute<TState>,
+  pathname: string
+): Record<string, string> | null {
+  const result = route.pattern.exec(pathname);
+  if (!result) return null;
+
+  const params: Record<string, string> = {};
+  route.keys.forEach((key, i) => {
+    const value = result[i + 1];
+    if (value === undefined) {
+      if (key === '*') params[key] = '';
+      return;
+    }
+    params[key] = safeDecode(value);
+  });
+  return params;
+}
+
+/**
+ * Compile a route pattern into a regular expression.
+ *
+ * @param path - Route pattern (e.g., '/users/:id', '/files/*')
+ * @returns Regular expression and ordered parameter keys
+ */
+function compilePattern(path: string): { pattern: RegExp; keys: string[] } {
+  const segments = path.split('/').filter(Boolean);
+  const keys: string[] = [];
+  let source = '';
+
+  segments.forEach((segment, i) => {
+    if (segment === '*') {
+      if (i !== segments.length - 1) {
+        throw new Error(`Wildcard must be the last segment in route ${path}`);
+      }
+      keys.push('*');
+      source += '(?:/(.*))?';
+      return;
+    }
+
+    if (segment.startsWith(':')) {
+      const optional = segment.endsWith('?');
+      const key = segment.slice(1, optional ? -1 : undefined);
+      if (!key) {
+        throw new Error(`Invalid parameter in route ${path}`);
+      }
+      keys.push(key);
+      source += optional ? '(?:/([^/]+))?' : '/([^/]+)';
+      return;
+    }
+
+    source += `/${segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+  });
+
+  return { pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+/**
+ * Decode a URI component, keeping the raw value if it is malformed.
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,251 @@
+import type { MiddlewareContext, ServiceProvider, ServiceResolver, ServiceToken } from './types.js';
+
+/**
+ * Services registered on a chain, holding the singleton instances.
+ * Not exported publicly - configured through `createChain({ services })`.
+ */
+export interface ServiceContainer {
+  /**
+   * Create the services of one request.
+   * @param overrides - Providers replacing the chain's for this request only
+   */
+  createScope(overrides?: ServiceProvider[]): RequestServices;
+  /**
+   * Dispose singleton instances in reverse creation order.
+   * @returns Errors thrown by dispose hooks
+   */
+  dispose(): Promise<Error[]>;
+}
+
+/**
+ * Services of one request, behind `ctx.get()`.
+ */
+export interface RequestServices {
+  /** Resolve a service for the request */
+  get<T>(token: ServiceToken<T>, ctx: MiddlewareContext<unknown>): T;
+  /** Dispose request-scoped and transient instances in reverse creation order */
+  dispose(): Promise<Error[]>;
+}
+
+/**
+ * Omit applied to each member of a union.
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Created instance with a dispose hook.
+ */
+interface Disposable {
+  provider: ServiceProvider;
+  instance: unknown;
+}
+
+/**
+ * Create a typed token for a service.
+ * Tokens are compared by identity, so create each one once and share it.
+ *
+ * @template T - Service type
+ * @param name - Name used in error messages
+ * @returns ServiceToken instance
+ *
+ * @example
+ * ```typescript
+ * const DbToken = createToken<Database>('db');
+ *
+ * const chain = createChain({
+ *   services: [provide(DbToken, { factory: () => new Database(url), dispose: (db) => db.close() })],
+ * }).use(async (ctx, next) => {
+ *   ctx.response.json(await ctx.get(DbToken).users.list());
+ *   await next();
+ *   return { done: false };
+ * });
+ * ```
+ */
+export function createToken<T>(name: string): ServiceToken<T> {
+  return Object.freeze({ name }) as ServiceToken<T>;
+}
+
+/**
+ * Create a provider for a token, typing the factory and dispose hook
+ * with the token's service type.
+ *
+ * @template T - Service type
+ * @param token - Service token
+ * @param provider - Value or factory, scope and dispose hook
+ * @returns ServiceProvider instance
+ *
+ * @example
+ * ```typescript
+ * provide(ConfigToken, { value: config });
+ * provide(DbToken, { factory: () => new Database(url), dispose: (db) => db.close() });
+ * provide(UserRepoToken, {
+ *   scope: 'request',
+ *   factory: ({ get, ctx }) => new UserRepo(get(DbToken), ctx?.signal),
+ * });
+ * ```
+ */
+export function provide<T>(
+  token: ServiceToken<T>,
+  provider: DistributiveOmit<ServiceProvider<T>, 'token'>
+): ServiceProvider<T> {
+  return { ...provider, token } as ServiceProvider<T>;
+}
+
+/**
+ * Create a service container from a chain's providers.
+ *
+ * @param providers - Service providers
+ * @returns ServiceContainer instance
+ * @throws Error if a token has more than one provider
+ */
+export function createServiceContainer(providers: ServiceProvider[] = []): ServiceContainer {
+  const registry = indexProviders(providers);
+  const singletons = new Map<ServiceProvider, unknown>();
+  const singletonDisposables: Disposable[] = [];
+
+  /**
+   * Resolve without a request: singletons and the transients they depend on.
+   */
+  const resolveRoot = (token: ServiceToken<unknown>, path: ServiceToken<unknown>[]): unknown => {
+    const provider = findProvider(registry, token);
+    if (provider.scope === 'request') {
+      // Name the singleton that would capture the request-scoped instance
+      const owner = [...path].reverse().find((t) => !registry.get(t)?.scope);
+      throw new Error(
+        `Singleton service "${owner?.name ?? '?'}" cannot depend on ` +
+          `request-scoped service "${token.name}"`
+      );
+    }
+    if (provider.scope === 'transient') {
+      return create(provider, path, resolveRoot, undefined, singletonDisposables);
+    }
+    if (!singletons.has(provider)) {
+      singletons.set(
+        provider,
+        create(provider, path, resolveRoot, undefined, singletonDisposables)
+      );
+    }
+    return singletons.get(provider);
+  };
+
+  return {
+    createScope(overrides = []) {
+      const local = indexProviders(overrides);
+      const instances = new Map<ServiceProvider, unknown>();
+      const disposables: Disposable[] = [];
+
+      const resolve = (
+        token: ServiceToken<unknown>,
+        path: ServiceToken<unknown>[],
+        ctx: MiddlewareContext<unknown>
+      ): unknown => {
+        const override = local.get(token);
+        const provider = override ?? findProvider(registry, token);
+        const scope = provider.scope ?? 'singleton';
+
+        // Chain singletons are shared; overrides only live for this request
+        if (!override && scope === 'singleton') {
+          return resolveRoot(token, path);
+        }
+
+        const next = (dependency: ServiceToken<unknown>, chain: ServiceToken<unknown>[]) =>
+          resolve(dependency, chain, ctx);
+        if (scope === 'transient') {
+          return create(provider, path, next, ctx, disposables);
+        }
+        if (!instances.has(provider)) {
+          instances.set(provider, create(provider, path, next, ctx, disposables));
+        }
+        return instances.get(provider);
+      };
+
+      return {
+        get<T>(token: ServiceToken<T>, ctx: MiddlewareContext<unknown>): T {
+          return resolve(token, [], ctx) as T;
+        },
+        dispose: () => disposeAll(disposables),
+      };
+    },
+
+    dispose: () => disposeAll(singletonDisposables),
+  };
+}
+
+/**
+ * Index providers by token, rejecting duplicates.
+ */
+function indexProviders(providers: ServiceProvider[]): Map<ServiceToken<unknown>, ServiceProvider> {
+  const registry = new Map<ServiceToken<unknown>, ServiceProvider>();
+  for (const provider of providers) {
+    if (registry.has(provider.token)) {
+      throw new Error(`Duplicate provider for service "${provider.token.name}"`);
+    }
+    registry.set(provider.token, provider);
+  }
+  return registry;
+}
+
+/**
+ * Look up the provider of a token.
+ */
+function findProvider(
+  registry: Map<ServiceToken<unknown>, ServiceProvider>,
+  token: ServiceToken<unknown>
+): ServiceProvider {
+  const provider = registry.get(token);
+  if (!provider) {
+    throw new Error(`No provider for service "${token.name}"`);
+  }
+  return provider;
+}
+
+/**
+ * Create an instance, resolving its dependencies and tracking it for disposal.
+ */
+function create(
+  provider: ServiceProvider,
+  path: ServiceToken<unknown>[],
+  resolve: (token: ServiceToken<unknown>, path: ServiceToken<unknown>[]) => unknown,
+  ctx: MiddlewareContext<unknown> | undefined,
+  disposables: Disposable[]
+): unknown {
+  if ('value' in provider) {
+    if (provider.dispose) {
+      disposables.push({ provider, instance: provider.value });
+    }
+    return provider.value;
+  }
+
+  const chain = [...path, provider.token];
+  if (path.includes(provider.token)) {
+    throw new Error(
+      `Circular service dependency: ${chain.map((token) => token.name).join(' -> ')}`
+    );
+  }
+
+  const resolver: ServiceResolver = {
+    get: <T>(token: ServiceToken<T>) => resolve(token, chain) as T,
+    ctx,
+  };
+  const instance = provider.factory(resolver);
+  if (provider.dispose) {
+    disposables.push({ provider, instance });
+  }
+  return instance;
+}
+
+/**
+ * Run dispose hooks in reverse creation order.
+ * Every hook runs, even if an earlier one throws.
+ */
+async function disposeAll(disposables: Disposable[]): Promise<Error[]> {
+  const errors: Error[] = [];
+  for (const { provider, instance } of disposables.splice(0).reverse()) {
+    try {
+      await provider.dispose?.(instance);
+    } catch (error) {
+      errors.push(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,94 @@
+import type { MiddlewareChain, ChainCloseOptions, ChainCloseResult } from './types.js';
+
+/**
+ * Options for closing a chain on process signals.
+ */
+export interface CloseOnSignalOptions extends ChainCloseOptions {
+  /**
+   * Signals that trigger the shutdown.
+   * @default ['SIGTERM', 'SIGINT']
+   */
+  signals?: string[];
+
+  /**
+   * Exit the process after the chain is closed.
+   * Exit code is 1 if any onDestroy hook or `onClose` failed, 0 otherwise.
+   * Without exiting, a failed shutdown still sets `process.exitCode` to 1.
+   * @default true
+   */
+  exit?: boolean;
+
+  /**
+   * Called with the close result, before exiting.
+   * Use it to close the HTTP server or flush logs.
+   */
+  onClose?: (result: ChainCloseResult) => void | Promise<void>;
+}
+
+/**
+ * Close a chain gracefully when the process receives a shutdown signal.
+ * Does nothing in runtimes without `process.on` (e.g. edge workers).
+ *
+ * @param chain - MiddlewareChain instance
+ * @param options - Shutdown options
+ * @returns Function that removes the signal listeners
+ *
+ * @example
+ * ```typescript
+ * import { createChain, closeOnSignal } from '@openmiddleware/chain';
+ *
+ * const chain = createChain().use(rateLimit({ max: 100, window: '1m' }));
+ * const server = app.listen(3000);
+ *
+ * closeOnSignal(chain, {
+ *   timeout: '10s',
+ *   onClose: () => new Promise((resolve) => server.close(() => resolve())),
+ * });
+ * ```
+ */
+export function closeOnSignal(
+  chain: MiddlewareChain,
+  options: CloseOnSignalOptions = {}
+): () => void {
+  const { signals = ['SIGTERM', 'SIGINT'], exit = true, onClose, ...closeOptions } = options;
+
+  const proc = globalThis.process;
+  if (!proc || typeof proc.on !== 'function') {
+    return () => {};
+  }
+
+  const listener = async (): Promise<void> => {
+    remove();
+    let code: number;
+    try {
+      const result = await chain.close(closeOptions);
+      if (onClose) {
+        await onClose(result);
+      }
+      code = result.errors.length > 0 ? 1 : 0;
+    } catch (error) {
+      // Nothing awaits a signal listener, so a rejection would go unhandled
+      // eslint-disable-next-line no-console
+      console.error('[OpenMiddleware] Shutdown failed', error);
+      code = 1;
+    }
+    if (code === 1) {
+      proc.exitCode = code;
+    }
+    if (exit) {
+      proc.exit(code);
+    }
+  };
+
+  const remove = (): void => {
+    for (const signal of signals) {
+      proc.off(signal, listener);
+    }
+  };
+
+  for (const signal of signals) {
+    proc.on(signal, listener);
+  }
+
+  return remove;
+}
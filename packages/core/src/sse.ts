@@ -0,0 +1,270 @@
+import type { SSEEvent, SSEEventLog, SSEOptions, SSEStream, Store } from './types.js';
+import { MemoryStore } from './stores/memory.js';
+import { parseTime } from './utils/time.js';
+import { generateUUID } from './utils/uuid.js';
+
+/**
+ * Options for the store-backed event log.
+ */
+export interface EventLogOptions {
+  /**
+   * Store holding the events.
+   * Share a store between instances to resume across servers.
+   * @default MemoryStore
+   */
+  store?: Store<SSEEvent[]>;
+
+  /**
+   * Store key of the log; use one key per event channel.
+   * @default 'events'
+   */
+  key?: string;
+
+  /**
+   * Number of events kept for replay.
+   * @default 100
+   */
+  maxEvents?: number;
+
+  /**
+   * How long the log is kept after the last append.
+   * Can be a number (ms) or time string ('5m', '1h').
+   */
+  ttl?: string | number;
+}
+
+/**
+ * Event log backed by a `Store`.
+ * Keeps the most recent events of a channel so reconnecting clients can resume.
+ *
+ * @example
+ * ```typescript
+ * const log = new StoreEventLog({ key: 'orders', maxEvents: 500 });
+ *
+ * // Publisher: record once, then broadcast to connected clients
+ * const event = await log.append({ event: 'order', data: order });
+ * for (const client of clients) client.send(event);
+ *
+ * // Route: replay what a reconnecting client missed
+ * const sse = ctx.response.sse({ log });
+ * ```
+ */
+export class StoreEventLog implements SSEEventLog {
+  private readonly store: Store<SSEEvent[]>;
+  private readonly key: string;
+  private readonly maxEvents: number;
+  private readonly ttlMs: number | undefined;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a new StoreEventLog.
+   *
+   * @param options - Event log options
+   */
+  constructor(options: EventLogOptions = {}) {
+    this.store = options.store ?? new MemoryStore<SSEEvent[]>();
+    this.key = options.key ?? 'events';
+    this.maxEvents = options.maxEvents ?? 100;
+    this.ttlMs = options.ttl !== undefined ? parseTime(options.ttl) : undefined;
+  }
+
+  /**
+   * Record an event, assigning an ID if it has none.
+   * Appends are serialized so concurrent publishers do not overwrite each other.
+   *
+   * @param event - Event to record
+   * @returns The recorded event
+   */
+  async append(event: SSEEvent): Promise<SSEEvent & { id: string }> {
+    const recorded = { ...event, id: event.id ?? generateUUID() };
+
+    const write = this.writes.then(async () => {
+      const events = (await this.store.get(this.key)) ?? [];
+      events.push(recorded);
+      await this.store.set(this.key, events.slice(-this.maxEvents), this.ttlMs);
+    });
+    this.writes = write.catch(() => {});
+
+    await write;
+    return recorded;
+  }
+
+  /**
+   * Get the events recorded after an event ID.
+   *
+   * @param lastEventId - ID of the last event the client received
+   * @returns Events in order; every retained event if the ID is unknown
+   */
+  async since(lastEventId: string): Promise<SSEEvent[]> {
+    const events = (await this.store.get(this.key)) ?? [];
+    const index = events.findIndex((event) => event.id === lastEventId);
+    return events.slice(index + 1);
+  }
+}
+
+/**
+ * Create a store-backed event log.
+ *
+ * @param options - Event log options
+ * @returns StoreEventLog instance
+ */
+export function createEventLog(options: EventLogOptions = {}): StoreEventLog {
+  return new StoreEventLog(options);
+}
+
+/**
+ * Create a Server-Sent Events body and its event sender.
+ *
+ * @param options - SSE options
+ * @param lastEventId - `Last-Event-ID` request header
+ * @param signal - Signal closing the stream (ctx.signal)
+ * @returns Body stream and event sender
+ */
+export function createSSEBody(
+  options: SSEOptions,
+  lastEventId: string | null,
+  signal?: AbortSignal
+): { body: ReadableStream<Uint8Array>; stream: SSEStream } {
+  const { heartbeat = '15s', retry, log } = options;
+  const encoder = new TextEncoder();
+  const closed = new AbortController();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // Messages sent while replaying are held back until the replay is written
+  let pending: string[] | null = log && lastEventId !== null ? [] : null;
+
+  const enqueue = (message: string): void => {
+    if (closed.signal.aborted) return;
+    if (pending) {
+      pending.push(message);
+      return;
+    }
+    controller.enqueue(encoder.encode(message));
+  };
+
+  const finish = (cancelled: boolean): void => {
+    if (closed.signal.aborted) return;
+    closed.abort();
+    if (heartbeatTimer !== null) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+    signal?.removeEventListener('abort', onAbort);
+    if (!cancelled) {
+      controller.close();
+    }
+  };
+
+  const onAbort = (): void => finish(false);
+
+  const stream: SSEStream = {
+    send(event) {
+      enqueue(formatSSEEvent(event));
+    },
+    comment(text) {
+      enqueue(formatSSEComment(text));
+    },
+    close() {
+      finish(false);
+    },
+    get closed() {
+      return closed.signal.aborted;
+    },
+    lastEventId,
+    signal: closed.signal,
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+    cancel() {
+      finish(true);
+    },
+  });
+
+  if (retry !== undefined) {
+    controller.enqueue(encoder.encode(`retry: ${retry}\n\n`));
+  }
+
+  if (log && lastEventId !== null) {
+    log
+      .since(lastEventId)
+      .catch((): SSEEvent[] => [])
+      .then((missed) => {
+        const held = pending ?? [];
+        pending = null;
+        for (const message of [...missed.map(formatSSEEvent), ...held]) {
+          enqueue(message);
+        }
+      });
+  }
+
+  const heartbeatMs = heartbeat === false ? 0 : parseTime(heartbeat);
+  if (heartbeatMs > 0 && typeof setInterval !== 'undefined') {
+    heartbeatTimer = setInterval(() => stream.comment('heartbeat'), heartbeatMs);
+    // Prevent the timer from keeping the process alive
+    if (heartbeatTimer.unref) {
+      heartbeatTimer.unref();
+    }
+  }
+
+  if (signal?.aborted) {
+    finish(false);
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return { body, stream };
+}
+
+/**
+ * Serialize an event in the `text/event-stream` format.
+ *
+ * @param event - Event to serialize
+ * @returns Event message, terminated by a blank line
+ *
+ * @example
+ * ```typescript
+ * formatSSEEvent({ event: 'ping', data: { ok: true }, id: '1' });
+ * // 'event: ping\nid: 1\ndata: {"ok":true}\n\n'
+ * ```
+ */
+export function formatSSEEvent(event: SSEEvent): string {
+  let message = '';
+  if (event.event !== undefined) {
+    message += `event: ${stripNewlines(event.event)}\n`;
+  }
+  if (event.id !== undefined) {
+    message += `id: ${stripNewlines(event.id)}\n`;
+  }
+  if (event.retry !== undefined) {
+    message += `retry: ${Math.floor(event.retry)}\n`;
+  }
+
+  const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+  for (const line of (data ?? '').split(/\r\n|\r|\n/)) {
+    message += `data: ${line}\n`;
+  }
+
+  return `${message}\n`;
+}
+
+/**
+ * Serialize a comment in the `text/event-stream` format.
+ */
+function formatSSEComment(text: string): string {
+  return (
+    text
+      .split(/\r\n|\r|\n/)
+      .map((line) => `: ${line}\n`)
+      .join('') + '\n'
+  );
+}
+
+/**
+ * Remove line breaks and NUL characters, which would end or corrupt a field.
+ */
+function stripNewlines(value: string): string {
+  return value.replace(/[\r\n\0]/g, '');
+}
@@ -27,6 +27,7 @@ export type MiddlewareHandler<TState = Record<string, unknown>> = (
  * ```typescript
  * const authMiddleware: Middleware<AuthState> = {
  *   name: 'auth',
+ *   provides: ['user'],
  *   handler: async (ctx, next) => {
  *     // authentication logic
  *     await next();
@@ -44,8 +45,89 @@ export interface Middleware<TState = Record<string, unknown>> {
   onInit?: () => Promise<void> | void;
   /** Optional cleanup hook called on shutdown */
   onDestroy?: () => Promise<void> | void;
+  /** Capabilities that an earlier middleware must provide (e.g. 'body', 'user') */
+  requires?: string[];
+  /** Capabilities this middleware makes available to later middlewares */
+  provides?: string[];
+  /** Names of middlewares this one must run before, when they are in the chain */
+  before?: string[];
+  /** Names of middlewares this one must run after, when they are in the chain */
+  after?: string[];
+  /** Declared configuration, shown by `chain.inspect()` with secrets redacted */
+  options?: object;
+  /** Condition set by `when()`, `unless()`, `forMethods()` or `forPaths()` */
+  condition?: MiddlewareConditionInfo<TState>;
+  /** Chain run by this middleware, set by `mount()` and `toMiddleware()` */
+  nested?: NestedChainInfo;
 }
 
+/**
+ * Condition attached to a conditional middleware, for introspection.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ */
+export interface MiddlewareConditionInfo<TState = Record<string, unknown>> {
+  /** Human-readable description (e.g. 'when path matches /api/**') */
+  description: string;
+  /** Resolves to true when the middleware runs */
+  test: (ctx: MiddlewareContext<TState>) => boolean | Promise<boolean>;
+}
+
+/**
+ * Nested chain run by a middleware, for introspection.
+ * Not generic: a chain-typed field would make `Middleware` invariant in its
+ * state, so middlewares could no longer be added to chains with more state.
+ */
+export interface NestedChainInfo {
+  /** Nested chain, with only the members introspection reads */
+  chain: Pick<MiddlewareChain<never>, 'getMiddlewares'>;
+  /** Normalized mount prefix ('' for the root), when mounted under a path */
+  prefix?: string;
+}
+
+/**
+ * Middleware definition or bare handler, as accepted by `chain.use()`.
+ *
+ * @template TState - Type-safe state passed between middlewares
+ */
+export type ChainableMiddleware<TState = Record<string, unknown>> =
+  | Middleware<TState>
+  | MiddlewareHandler<TState>;
+
+/**
+ * Intersection of the states in a tuple.
+ * Used by `chain.use()` to merge the state added by each middleware.
+ *
+ * @example
+ * ```typescript
+ * type State = IntersectStates<[BodyState, AuthState]>; // BodyState & AuthState
+ * ```
+ */
+export type IntersectStates<T extends unknown[]> = T extends [infer THead, ...infer TRest]
+  ? THead & IntersectStates<TRest>
+  : unknown;
+
+/**
+ * Properties added to every context by plugins with `decorate()`.
+ * Extend it with declaration merging to type the decorations.
+ *
+ * @example
+ * ```typescript
+ * declare module '@openmiddleware/chain' {
+ *   interface ContextExtensions {
+ *     session: Session;
+ *   }
+ * }
+ * ```
+ */
+export interface ContextExtensions {}
+
+/**
+ * Properties added to every response builder by plugins with `decorateResponse()`.
+ * Extend it with declaration merging, like ContextExtensions.
+ */
+export interface ResponseExtensions {}
+
 /**
  * Request context passed through middleware chain.
  * Uses Fetch API Request as base for universal compatibility.
@@ -61,7 +143,7 @@ export interface Middleware<TState = Record<string, unknown>> {
  * };
  * ```
  */
-export interface MiddlewareContext<TState = Record<string, unknown>> {
+export interface MiddlewareContext<TState = Record<string, unknown>> extends ContextExtensions {
   /** Incoming request (Fetch API compatible, readonly) */
   readonly request: Request;
   /** Mutable response builder */
@@ -70,6 +152,26 @@ export interface MiddlewareContext<TState = Record<string, unknown>> {
   state: TState;
   /** Request metadata */
   readonly meta: RequestMeta;
+  /**
+   * Aborted when the request is cancelled: the client disconnected,
+   * `request.signal` fired, or `timeout()` expired.
+   * Pass it to `fetch` and database drivers to stop wasted work.
+   */
+  readonly signal: AbortSignal;
+  /** Cookies sent with the request */
+  readonly cookies: CookieJar;
+  /**
+   * Memoized request body. The stream is read once, on first access, and
+   * shared by every middleware, so use it instead of reading `ctx.request`.
+   */
+  readonly body: RequestBody;
+  /**
+   * Resolve a service registered with `createChain({ services })`.
+   * @param token - Token created with `createToken()`
+   * @returns Service instance
+   * @throws Error if no provider is registered for the token
+   */
+  get<T>(token: ServiceToken<T>): T;
 }
 
 /**
@@ -84,7 +186,7 @@ export interface MiddlewareContext<TState = Record<string, unknown>> {
  *   .json({ id: '123', created: true });
  * ```
  */
-export interface ResponseBuilder {
+export interface ResponseBuilder extends ResponseExtensions {
   /** HTTP status code (default: 200) */
   status: number;
   /** Response headers */
@@ -151,6 +253,75 @@ export interface ResponseBuilder {
    */
   redirect(url: string, redirectStatus?: number): this;
 
+  /**
+   * Set a streaming body produced by a writer function.
+   * The producer starts when the body is first read and each write waits
+   * until the consumer has taken the previous chunk, so memory stays bounded.
+   * @param producer - Writes chunks; the stream closes when it resolves and errors when it throws
+   * @param contentType - Content-Type, unless one is already set (default: 'application/octet-stream')
+   * @returns this for chaining
+   */
+  stream(producer: StreamProducer, contentType?: string): this;
+
+  /**
+   * Set a Server-Sent Events body and return its event sender.
+   * Sets `Content-Type: text/event-stream` and disables caching. The stream closes
+   * when `close()` is called, the client disconnects or `ctx.signal` is aborted.
+   * @param options - Heartbeat, retry and replay options
+   * @returns Event sender
+   */
+  sse(options?: SSEOptions): SSEStream;
+
+  /**
+   * Run the handler for the media type that best matches the request's `Accept` header.
+   * The Content-Type is the selected type, also when the handler uses a body
+   * helper such as `text()` (its charset is kept), and `Vary: Accept` is added.
+   * Without a match, `default` runs or a 406 is sent.
+   * @param handlers - Handlers keyed by media type, in order of preference
+   * @returns this for chaining
+   */
+  negotiate(handlers: NegotiationHandlers): this;
+
+  /**
+   * Add a `Set-Cookie` header. Earlier cookies are kept.
+   * @param name - Cookie name
+   * @param value - Cookie value
+   * @param options - Cookie attributes (path defaults to '/')
+   * @returns this for chaining
+   */
+  setCookie(name: string, value: string, options?: CookieOptions): this;
+
+  /**
+   * Add a `Set-Cookie` header with an HMAC-SHA256 signed value.
+   * Signed with the first of the chain's `cookies.secrets`.
+   * @param name - Cookie name
+   * @param value - Cookie value (readable by the client)
+   * @param options - Cookie attributes
+   * @returns this for chaining
+   * @throws Error if no cookie secrets are configured
+   */
+  setSignedCookie(name: string, value: string, options?: CookieOptions): Promise<this>;
+
+  /**
+   * Add a `Set-Cookie` header with an AES-GCM encrypted value.
+   * Encrypted with the first of the chain's `cookies.secrets`.
+   * @param name - Cookie name
+   * @param value - Cookie value (hidden from the client)
+   * @param options - Cookie attributes
+   * @returns this for chaining
+   * @throws Error if no cookie secrets are configured
+   */
+  setEncryptedCookie(name: string, value: string, options?: CookieOptions): Promise<this>;
+
+  /**
+   * Expire a cookie in the browser.
+   * Domain and path must match the ones the cookie was set with.
+   * @param name - Cookie name
+   * @param options - Cookie attributes
+   * @returns this for chaining
+   */
+  clearCookie(name: string, options?: Omit<CookieOptions, 'maxAge' | 'expires'>): this;
+
   /**
    * Build final Response object
    * @returns Fetch API Response
@@ -158,6 +329,276 @@ export interface ResponseBuilder {
   build(): Response;
 }
 
+/**
+ * Writer passed to `ctx.response.stream()` producers.
+ *
+ * @example
+ * ```typescript
+ * ctx.response.stream(async (writer) => {
+ *   for await (const row of db.query('SELECT * FROM orders', { signal: writer.signal })) {
+ *     await writer.write(`${row.id},${row.total}\n`);
+ *   }
+ * }, 'text/csv');
+ * ```
+ */
+export interface StreamWriter {
+  /**
+   * Write a chunk. Strings are UTF-8 encoded.
+   * Resolves once the consumer is ready for more data.
+   * @throws Error if the consumer cancelled the stream
+   */
+  write(chunk: string | Uint8Array): Promise<void>;
+  /** Aborted when the consumer cancels the stream (e.g. client disconnect) */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Function producing a streaming response body.
+ */
+export type StreamProducer = (writer: StreamWriter) => Promise<void> | void;
+
+/**
+ * Handlers for `ctx.response.negotiate()`, keyed by media type.
+ *
+ * @example
+ * ```typescript
+ * ctx.response.negotiate({
+ *   'application/json': () => ctx.response.json(orders),
+ *   'text/csv': () => {
+ *     ctx.response.body = toCsv(orders);
+ *   },
+ *   default: () => ctx.response.json(orders),
+ * });
+ * ```
+ */
+export interface NegotiationHandlers {
+  [mediaType: string]: (() => void) | undefined;
+  /** Called when no media type is acceptable, instead of sending 406 */
+  default?: () => void;
+}
+
+/**
+ * Server-Sent Event.
+ *
+ * @example
+ * ```typescript
+ * sse.send({ event: 'order', data: { id: 42, status: 'shipped' }, id: '42' });
+ * ```
+ */
+export interface SSEEvent {
+  /** Event type; clients listen with `source.addEventListener(event, ...)` (default: 'message') */
+  event?: string;
+  /** Event data; non-string values are JSON-encoded */
+  data: unknown;
+  /** Event ID, sent back by reconnecting clients as `Last-Event-ID` */
+  id?: string;
+  /** Client reconnection delay in milliseconds */
+  retry?: number;
+}
+
+/**
+ * Event log used to replay missed events to reconnecting clients.
+ */
+export interface SSEEventLog {
+  /**
+   * Record an event, assigning an ID if it has none.
+   * @param event - Event to record
+   * @returns The recorded event
+   */
+  append(event: SSEEvent): Promise<SSEEvent & { id: string }>;
+
+  /**
+   * Get the events recorded after an event ID.
+   * @param lastEventId - ID of the last event the client received
+   * @returns Events in order; every retained event if the ID is unknown
+   */
+  since(lastEventId: string): Promise<SSEEvent[]>;
+}
+
+/**
+ * Options for `ctx.response.sse()`.
+ */
+export interface SSEOptions {
+  /**
+   * Interval between heartbeat comments that keep proxies from closing idle connections.
+   * Set to `false` to disable.
+   * @default '15s'
+   */
+  heartbeat?: string | number | false;
+
+  /**
+   * Reconnection delay sent to the client when the stream opens (milliseconds).
+   */
+  retry?: number;
+
+  /**
+   * Event log to replay from when the request has a `Last-Event-ID` header.
+   * Replayed events are sent before any event passed to `send()`.
+   */
+  log?: SSEEventLog;
+}
+
+/**
+ * Event sender returned by `ctx.response.sse()`.
+ *
+ * @example
+ * ```typescript
+ * const sse = ctx.response.sse();
+ * const unsubscribe = orders.subscribe((order) => sse.send({ event: 'order', data: order }));
+ * sse.signal.addEventListener('abort', unsubscribe);
+ * ```
+ */
+export interface SSEStream {
+  /**
+   * Send an event. Ignored once the stream is closed.
+   * @param event - Event to send
+   */
+  send(event: SSEEvent): void;
+
+  /**
+   * Send a comment line (ignored by clients).
+   * @param text - Comment text
+   */
+  comment(text: string): void;
+
+  /** Close the stream */
+  close(): void;
+
+  /** Whether the stream is closed */
+  readonly closed: boolean;
+
+  /** `Last-Event-ID` sent by a reconnecting client */
+  readonly lastEventId: string | null;
+
+  /** Aborted when the stream closes (including client disconnects) */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Attributes of a `Set-Cookie` header.
+ */
+export interface CookieOptions {
+  /**
+   * Cookie lifetime.
+   * Can be a number (ms) or time string ('1h', '7d'). Sent as `Max-Age` in seconds.
+   */
+  maxAge?: string | number;
+
+  /** Absolute expiry date */
+  expires?: Date;
+
+  /** Domain the cookie is sent to */
+  domain?: string;
+
+  /**
+   * Path the cookie is sent to.
+   * @default '/'
+   */
+  path?: string;
+
+  /** Only send the cookie over HTTPS */
+  secure?: boolean;
+
+  /** Hide the cookie from client-side scripts */
+  httpOnly?: boolean;
+
+  /** Cross-site sending policy */
+  sameSite?: 'strict' | 'lax' | 'none';
+
+  /**
+   * Store the cookie in partitioned storage (CHIPS). Requires `secure`.
+   */
+  partitioned?: boolean;
+}
+
+/**
+ * Memoized accessors for the request body.
+ * The first call reads the stream, up to the chain's `bodyLimit`; later calls,
+ * from any middleware, reuse the result.
+ *
+ * @example
+ * ```typescript
+ * const payload = await ctx.body.json<{ name: string }>();
+ * const raw = await ctx.body.text(); // same bytes, not read again
+ * ```
+ */
+export interface RequestBody {
+  /** Maximum body size in bytes (`Infinity` without a limit) */
+  readonly limit: number;
+  /** Whether the body has been read */
+  readonly read: boolean;
+  /**
+   * Read the body as bytes.
+   * @returns Copy of the body bytes
+   * @throws PayloadTooLargeError if the body exceeds the limit
+   */
+  arrayBuffer(): Promise<ArrayBuffer>;
+  /**
+   * Read the body as UTF-8 text.
+   * @throws PayloadTooLargeError if the body exceeds the limit
+   */
+  text(): Promise<string>;
+  /**
+   * Parse the body as JSON. Every call resolves to the same parsed value.
+   * @throws PayloadTooLargeError if the body exceeds the limit
+   * @throws SyntaxError if the body is not valid JSON
+   */
+  json<T = unknown>(): Promise<T>;
+  /**
+   * Parse a multipart or URL-encoded body according to its Content-Type.
+   * Every call resolves to the same FormData.
+   * @throws PayloadTooLargeError if the body exceeds the limit
+   * @throws TypeError if the body cannot be parsed as form data
+   */
+  formData(): Promise<FormData>;
+}
+
+/**
+ * Cookies of the incoming request.
+ * Signed and encrypted cookies need `cookies.secrets` in the chain options.
+ *
+ * @example
+ * ```typescript
+ * const theme = ctx.cookies.get('theme');
+ * const userId = await ctx.cookies.getSigned('uid');
+ * const session = await ctx.cookies.getEncrypted('session');
+ * ```
+ */
+export interface CookieJar {
+  /**
+   * Get a cookie value
+   * @param name - Cookie name
+   * @returns Value, or undefined if not sent
+   */
+  get(name: string): string | undefined;
+
+  /**
+   * Get all cookie values
+   * @returns Values by name
+   */
+  getAll(): Record<string, string>;
+
+  /**
+   * Check whether a cookie was sent
+   * @param name - Cookie name
+   */
+  has(name: string): boolean;
+
+  /**
+   * Get a cookie set with `ctx.response.setSignedCookie()`
+   * @param name - Cookie name
+   * @returns Value, or undefined if missing or the signature does not match any secret
+   */
+  getSigned(name: string): Promise<string | undefined>;
+
+  /**
+   * Get a cookie set with `ctx.response.setEncryptedCookie()`
+   * @param name - Cookie name
+   * @returns Value, or undefined if missing or it cannot be decrypted with any secret
+   */
+  getEncrypted(name: string): Promise<string | undefined>;
+}
+
 /**
  * Request metadata extracted from the incoming request.
  *
@@ -177,25 +618,42 @@ export interface RequestMeta {
   url: URL;
   /** HTTP method (uppercase) */
   method: string;
-  /** Client IP address (if available from headers) */
+  /**
+   * Client IP address.
+   * Resolved from the socket address and the forwarding headers of proxies
+   * trusted by `trustProxy`; without it, the socket address.
+   */
   ip?: string;
+  /** Protocol the client used, without the colon (e.g. 'https') */
+  protocol: string;
+  /** Host the client requested, including a non-default port */
+  host: string;
+  /** W3C trace ID (set by `tracing()`) */
+  traceId?: string;
+  /** Server span ID (set by `tracing()`) */
+  spanId?: string;
 }
 
 /**
  * Next function to continue to the next middleware in chain.
  * Must be called to proceed, unless short-circuiting.
+ * Resolves with the result of the downstream middlewares: `{ done: true, response }`
+ * if one of them short-circuited. Returning `{ done: false }` afterwards still
+ * sends that response, so only middlewares that post-process need to check it.
  *
  * @example
  * ```typescript
  * const handler = async (ctx, next) => {
  *   console.log('Before next middleware');
- *   await next();
- *   console.log('After next middleware');
+ *   const result = await next();
+ *   if (result.done) {
+ *     console.log('Short-circuited with', result.response.status);
+ *   }
  *   return { done: false };
  * };
  * ```
  */
-export type NextFunction = () => Promise<void>;
+export type NextFunction = () => Promise<MiddlewareResult>;
 
 /**
  * Middleware execution result.
@@ -231,22 +689,135 @@ export type MiddlewareResult =
  * ```
  */
 export interface MiddlewareChain<TState = Record<string, unknown>> {
+  /** Lifecycle status of the chain */
+  readonly status: ChainStatus;
+
+  /** Whether all onInit hooks have completed (`status === 'ready'`) */
+  readonly ready: boolean;
+
+  /**
+   * Add middleware(s) to the chain.
+   * The state each middleware declares (e.g. `Middleware<AuthState>`) is added
+   * to the chain's state, so later middlewares see it without casts.
+   * @param middlewares - Middleware definitions or handlers
+   * @returns this, typed with the accumulated state
+   * @throws DependencyError if the new middlewares break a `requires`/`before`/`after` declaration
+   */
+  use<TAdded extends unknown[]>(
+    ...middlewares: { [K in keyof TAdded]: ChainableMiddleware<TState & TAdded[K]> }
+  ): MiddlewareChain<TState & IntersectStates<TAdded>>;
+
+  /**
+   * Insert middleware(s) right before the middleware with the given name.
+   * @param name - Name of an existing middleware
+   * @param middlewares - Middleware definitions or handlers
+   * @returns this for chaining
+   * @throws Error if no middleware or several middlewares have this name
+   * @throws DependencyError if the new middlewares break a `requires`/`before`/`after` declaration
+   */
+  insertBefore(
+    name: string,
+    ...middlewares: Array<ChainableMiddleware<TState>>
+  ): MiddlewareChain<TState>;
+
   /**
-   * Add middleware(s) to the chain
+   * Insert middleware(s) right after the middleware with the given name.
+   * @param name - Name of an existing middleware
    * @param middlewares - Middleware definitions or handlers
    * @returns this for chaining
+   * @throws Error if no middleware or several middlewares have this name
+   * @throws DependencyError if the new middlewares break a `requires`/`before`/`after` declaration
    */
-  use<TNewState extends TState>(
-    ...middlewares: Array<Middleware<TNewState> | MiddlewareHandler<TNewState>>
-  ): MiddlewareChain<TNewState>;
+  insertAfter(
+    name: string,
+    ...middlewares: Array<ChainableMiddleware<TState>>
+  ): MiddlewareChain<TState>;
+
+  /**
+   * Replace the middleware with the given name, keeping its position.
+   * The replaced middleware's onDestroy hook is not called.
+   * @param name - Name of an existing middleware
+   * @param middleware - Replacement middleware or handler
+   * @returns this for chaining
+   * @throws Error if no middleware or several middlewares have this name
+   * @throws DependencyError if the replacement breaks a `requires`/`before`/`after` declaration
+   */
+  replace(name: string, middleware: ChainableMiddleware<TState>): MiddlewareChain<TState>;
+
+  /**
+   * Remove the middleware with the given name.
+   * The removed middleware's onDestroy hook is not called.
+   * @param name - Name of an existing middleware
+   * @returns this for chaining
+   * @throws Error if no middleware or several middlewares have this name
+   */
+  remove(name: string): MiddlewareChain<TState>;
+
+  /**
+   * Run all pending onInit hooks.
+   * Concurrent calls share a single initialization. Called automatically
+   * by the first handle(), but can be awaited upfront (e.g. before
+   * reporting readiness).
+   * @returns Promise resolving once the chain is ready
+   * @throws DependencyError if middleware declarations are not satisfied
+   * @throws InitializationError if an onInit hook fails or times out
+   */
+  init(): Promise<void>;
+
+  /**
+   * Check the `requires`/`provides`/`before`/`after` declarations of all middlewares.
+   * `use()` already rejects ordering mistakes; this also reports requirements
+   * that no middleware provides. Called automatically by init().
+   * @throws DependencyError describing the first violation
+   */
+  validate(): void;
 
   /**
    * Execute the middleware chain with a request
    * @param request - Fetch API Request
    * @param initialState - Optional initial state
+   * @param options - Connection details supplied by adapters
    * @returns Promise resolving to Response
    */
-  handle(request: Request, initialState?: Partial<TState>): Promise<Response>;
+  handle(
+    request: Request,
+    initialState?: Partial<TState>,
+    options?: HandleOptions
+  ): Promise<Response>;
+
+  /**
+   * Map an error class to a response.
+   * Errors escaping `handle()` use the mapping of their closest class, so a
+   * subclass mapping wins over its parent's. Errors from onInit hooks are matched
+   * by the hook's original error first, then by the InitializationError.
+   * Mappings take precedence over the `onError` chain option.
+   * @param errorClass - Error class to match with instanceof
+   * @param mapper - Function building the response
+   * @returns this for chaining
+   */
+  mapError<TError>(
+    errorClass: ErrorClass<TError>,
+    mapper: ErrorMapper<TError, TState>
+  ): MiddlewareChain<TState>;
+
+  /**
+   * Mount a nested chain under a path prefix.
+   * The nested chain only runs for matching paths, sees `ctx.meta.url` with
+   * the prefix stripped, and otherwise shares the context with this chain:
+   * what it sets on `ctx`, `ctx.meta` or `ctx.state` is visible here.
+   * @param prefix - Path prefix (e.g., '/admin')
+   * @param chain - Nested chain
+   * @returns this for chaining
+   */
+  mount(prefix: string, chain: MiddlewareChain<TState>): MiddlewareChain<TState>;
+
+  /**
+   * Convert the chain into a single middleware.
+   * When its last middleware calls next(), execution continues in the outer chain.
+   * @param name - Middleware name (default: 'chain')
+   * @returns Middleware running this chain's middlewares
+   */
+  toMiddleware(name?: string): Middleware<TState>;
 
   /**
    * Get all registered middlewares
@@ -254,11 +825,560 @@ export interface MiddlewareChain<TState = Record<string, unknown>> {
    */
   getMiddlewares(): ReadonlyArray<Middleware<TState>>;
 
+  /**
+   * Describe the chain as a tree: middleware names, conditions, declared
+   * options (with secrets redacted), mounted chains and router routes.
+   * @returns Chain inspection, also accepted by toMermaid() and toDot()
+   */
+  inspect(): ChainInspection;
+
+  /**
+   * Dry-run a request through the chain without running any handler.
+   * Conditions, mount prefixes and routes are evaluated to report which
+   * middlewares would run and why others would be skipped. Since handlers
+   * do not run, middlewares that would respond early are not taken into account.
+   * @param request - Fetch API Request
+   * @returns Explanation with one step per middleware
+   */
+  explain(request: Request): Promise<ChainExplanation>;
+
   /**
    * Clone the chain for modification
-   * @returns New MiddlewareChain with same middlewares
+   * @returns New MiddlewareChain with same middlewares, error mappers and plugins
    */
   clone(): MiddlewareChain<TState>;
+
+  /**
+   * Register a lifecycle event listener.
+   * Events are emitted for every middleware of this chain and every request it handles.
+   * @param event - Event name
+   * @param listener - Listener called with the event payload
+   * @returns Function that removes the listener
+   */
+  on<TEvent extends keyof ChainEventMap>(
+    event: TEvent,
+    listener: ChainEventListener<TEvent>
+  ): () => void;
+
+  /**
+   * Remove a lifecycle event listener.
+   * @param event - Event name
+   * @param listener - Listener passed to on()
+   */
+  off<TEvent extends keyof ChainEventMap>(event: TEvent, listener: ChainEventListener<TEvent>): void;
+
+  /**
+   * Shut the chain down gracefully.
+   * Stops accepting requests (new requests get a 503 response), waits for
+   * in-flight requests to finish, then calls `onDestroy` hooks in reverse order.
+   * Calling close() again returns the same result.
+   * @param options - Close options
+   * @returns Promise resolving to the close result
+   */
+  close(options?: ChainCloseOptions): Promise<ChainCloseResult>;
+
+  /**
+   * Register a plugin: its dependencies are registered first, then its
+   * `register()` adds middlewares, decorations and lifecycle hooks.
+   * If any `register()` throws, the chain is left as it was before the call.
+   * @param plugin - Plugin created with `definePlugin()`
+   * @param options - Plugin options
+   * @returns this for chaining
+   * @throws Error if a plugin with the same name is already registered, or a
+   *   dependency given by name is missing
+   */
+  register<TOptions>(
+    plugin: Plugin<TOptions>,
+    ...options: undefined extends TOptions ? [options?: TOptions] : [options: TOptions]
+  ): MiddlewareChain<TState>;
+
+  /**
+   * Names of the registered plugins, in registration order.
+   */
+  readonly plugins: readonly string[];
+}
+
+/**
+ * Plugin bundling middlewares, context decorations and lifecycle hooks.
+ *
+ * @template TOptions - Options passed to `chain.register()`
+ */
+export interface Plugin<TOptions = undefined> {
+  /** Unique plugin name */
+  name: string;
+  /**
+   * Plugins that must be registered first.
+   * Plugins given by name must already be registered; plugin objects are
+   * registered automatically (without options) if they are not.
+   */
+  dependencies?: Array<string | Plugin>;
+  /**
+   * Set the plugin up on a chain.
+   * @param chain - Chain API available to plugins
+   * @param options - Options passed to `chain.register()`
+   */
+  register(chain: PluginHost, options: TOptions): void;
+}
+
+/**
+ * Chain API passed to `Plugin.register()`.
+ * Middlewares are untyped here; plugins type their context additions
+ * through ContextExtensions and ResponseExtensions.
+ */
+export interface PluginHost {
+  /** Name of the plugin being registered */
+  readonly plugin: string;
+
+  /** Add middleware(s) at the end of the chain */
+  use(...middlewares: ChainableMiddleware[]): PluginHost;
+
+  /** Add middleware(s) right before the middleware with the given name */
+  insertBefore(name: string, ...middlewares: ChainableMiddleware[]): PluginHost;
+
+  /** Add middleware(s) right after the middleware with the given name */
+  insertAfter(name: string, ...middlewares: ChainableMiddleware[]): PluginHost;
+
+  /**
+   * Add a property to every context, computed when the request starts
+   * (after onInit hooks have run).
+   * @throws Error if the property exists or another plugin decorates it
+   */
+  decorate<TKey extends keyof ContextExtensions>(
+    name: TKey,
+    factory: (ctx: MiddlewareContext) => ContextExtensions[TKey]
+  ): PluginHost;
+
+  /**
+   * Add a property to every response builder, e.g. a response helper.
+   * @throws Error if the property exists or another plugin decorates it
+   */
+  decorateResponse<TKey extends keyof ResponseExtensions>(
+    name: TKey,
+    factory: (response: ResponseBuilder, ctx: MiddlewareContext) => ResponseExtensions[TKey]
+  ): PluginHost;
+
+  /** Run a hook during `chain.init()`, before the middlewares' onInit hooks */
+  onInit(hook: () => Promise<void> | void): PluginHost;
+
+  /** Run a hook during `chain.close()`, after the middlewares' onDestroy hooks */
+  onDestroy(hook: () => Promise<void> | void): PluginHost;
+}
+
+/**
+ * Kind of an inspected middleware.
+ * - `middleware`: Regular middleware
+ * - `chain`: Chain converted with `toMiddleware()`
+ * - `mount`: Chain mounted under a path prefix
+ * - `router`: Router created with `createRouter()`
+ */
+export type InspectedMiddlewareKind = 'middleware' | 'chain' | 'mount' | 'router';
+
+/**
+ * Middleware as described by `chain.inspect()`.
+ */
+export interface InspectedMiddleware {
+  /** Middleware name */
+  name: string;
+  /** Kind of middleware */
+  kind: InspectedMiddlewareKind;
+  /** Condition description, for conditional middlewares */
+  condition?: string;
+  /** Declared options, with secrets replaced by '[REDACTED]' */
+  options?: Record<string, unknown>;
+  /** Declared `requires` capabilities */
+  requires?: string[];
+  /** Declared `provides` capabilities */
+  provides?: string[];
+  /** Declared `before` constraints */
+  before?: string[];
+  /** Declared `after` constraints */
+  after?: string[];
+  /** Mount prefix ('/' for the root), for mounted chains */
+  prefix?: string;
+  /** Middlewares of the nested chain, for `chain` and `mount` */
+  children?: InspectedMiddleware[];
+  /** Registered routes, for routers */
+  routes?: Array<{ method: string; path: string }>;
+}
+
+/**
+ * Result of `chain.inspect()`.
+ */
+export interface ChainInspection {
+  /** Lifecycle status of the chain */
+  status: ChainStatus;
+  /** Middlewares in execution order */
+  middlewares: InspectedMiddleware[];
+}
+
+/**
+ * One middleware in the result of `chain.explain()`.
+ */
+export interface ExplainStep {
+  /** Middleware name */
+  name: string;
+  /** Whether the middleware would run */
+  runs: boolean;
+  /** Why the middleware would be skipped, or which route a router would match */
+  reason?: string;
+  /** Steps of the nested chain or matched route */
+  steps?: ExplainStep[];
+}
+
+/**
+ * Result of `chain.explain()`.
+ */
+export interface ChainExplanation {
+  /** Request method */
+  method: string;
+  /** Request path */
+  path: string;
+  /** Steps in execution order */
+  steps: ExplainStep[];
+}
+
+/**
+ * Fields shared by all middleware lifecycle events.
+ */
+export interface MiddlewareEventBase {
+  /** Middleware name */
+  name: string;
+  /** Position of the middleware in the chain */
+  index: number;
+  /** Request ID (`ctx.meta.id`) */
+  requestId: string;
+  /** Request metadata */
+  meta: RequestMeta;
+  /** Timestamp when the middleware started (Date.now()) */
+  startTime: number;
+}
+
+/**
+ * Emitted before a middleware handler runs.
+ */
+export type MiddlewareStartEvent = MiddlewareEventBase;
+
+/**
+ * Emitted when a middleware handler returns.
+ * The duration includes downstream middlewares awaited through next().
+ */
+export interface MiddlewareEndEvent extends MiddlewareEventBase {
+  /** Handler duration in milliseconds */
+  duration: number;
+}
+
+/**
+ * Emitted when a middleware handler throws.
+ */
+export interface MiddlewareErrorEvent extends MiddlewareEventBase {
+  /** Handler duration in milliseconds */
+  duration: number;
+  /** Thrown error */
+  error: unknown;
+}
+
+/**
+ * Emitted when a middleware short-circuits with `{ done: true }`.
+ */
+export interface ShortCircuitEvent extends MiddlewareEventBase {
+  /** Handler duration in milliseconds */
+  duration: number;
+  /** Response returned by the middleware */
+  response: Response;
+}
+
+/**
+ * Emitted when the chain finishes handling a request.
+ */
+export interface RequestEndEvent {
+  /** Request ID (`ctx.meta.id`) */
+  requestId: string;
+  /** Request metadata */
+  meta: RequestMeta;
+  /** Response status (500 if the chain threw) */
+  status: number;
+  /** Total handling time in milliseconds */
+  duration: number;
+  /** Error thrown by the chain, if any */
+  error?: unknown;
+}
+
+/**
+ * Chain lifecycle events and their payloads.
+ *
+ * @example
+ * ```typescript
+ * chain.on('middleware:end', ({ name, requestId, duration }) => {
+ *   if (duration > 100) console.warn(`${name} took ${duration}ms (${requestId})`);
+ * });
+ * ```
+ */
+export interface ChainEventMap {
+  'middleware:start': MiddlewareStartEvent;
+  'middleware:end': MiddlewareEndEvent;
+  'middleware:error': MiddlewareErrorEvent;
+  'short-circuit': ShortCircuitEvent;
+  'request:end': RequestEndEvent;
+}
+
+/**
+ * Listener for a chain lifecycle event.
+ */
+export type ChainEventListener<TEvent extends keyof ChainEventMap> = (
+  payload: ChainEventMap[TEvent]
+) => void;
+
+/**
+ * Lifecycle status of a middleware chain.
+ * - `idle`: onInit hooks have not run (or new middlewares were added)
+ * - `initializing`: onInit hooks are running
+ * - `ready`: all onInit hooks completed
+ * - `failed`: an onInit hook failed or timed out
+ * - `closing` / `closed`: close() was called
+ */
+export type ChainStatus = 'idle' | 'initializing' | 'ready' | 'failed' | 'closing' | 'closed';
+
+/**
+ * Error class accepted by `chain.mapError()`.
+ */
+export type ErrorClass<TError> = abstract new (...args: never[]) => TError;
+
+/**
+ * Function turning an error escaping the chain into a response.
+ *
+ * @template TError - Error type
+ * @template TState - Chain state type
+ *
+ * @example
+ * ```typescript
+ * const onError: ErrorMapper = (error, ctx) =>
+ *   Response.json({ error: 'Internal Server Error', requestId: ctx.meta.id }, { status: 500 });
+ * ```
+ */
+export type ErrorMapper<TError = unknown, TState = Record<string, unknown>> = (
+  error: TError,
+  ctx: MiddlewareContext<TState>
+) => Response | Promise<Response>;
+
+/**
+ * Options for creating a middleware chain.
+ *
+ * @example
+ * ```typescript
+ * const chain = createChain({ initTimeout: '5s', initFailure: 'fail-fast' });
+ * ```
+ */
+export interface ChainOptions {
+  /**
+   * Maximum time for each middleware's onInit hook.
+   * Can be a number (ms) or time string ('5s', '1m').
+   * @default No timeout
+   */
+  initTimeout?: string | number;
+
+  /**
+   * Behavior when an onInit hook fails.
+   * - `'retry'`: the next init() or request retries the hooks that have not succeeded
+   * - `'fail-fast'`: the chain stays failed and every init() or request rejects with the error
+   * @default 'retry'
+   */
+  initFailure?: 'retry' | 'fail-fast';
+
+  /**
+   * Turn errors escaping `handle()` into a response, including errors thrown
+   * from onInit hooks. Runs when no `mapError()` mapping matches.
+   * Without it (and without a matching mapping), handle() rejects with the error.
+   * If the hook itself throws, a generic 500 response is returned.
+   */
+  onError?: ErrorMapper;
+
+  /**
+   * Maximum request body size read through `ctx.body`.
+   * Can be a number (bytes) or size string ('1mb', '10kb').
+   * Larger bodies make `ctx.body` readers throw a PayloadTooLargeError.
+   * @default No limit
+   */
+  bodyLimit?: string | number;
+
+  /**
+   * Which proxies may set `Forwarded` and `X-Forwarded-*` headers, used to
+   * resolve `ctx.meta.ip`, `ctx.meta.protocol` and `ctx.meta.host`.
+   * When not set, no proxy is trusted: `ctx.meta.ip` is the socket address
+   * passed by the adapter, and forwarding headers are ignored.
+   * @default false
+   */
+  trustProxy?: TrustProxy;
+
+  /**
+   * Services available to middlewares through `ctx.get(token)`.
+   * Request-scoped instances are disposed when `handle()` finishes and
+   * singletons after the `onDestroy` hooks in `close()`.
+   *
+   * @example
+   * ```typescript
+   * createChain({
+   *   services: [
+   *     provide(DbToken, { factory: () => new Database(url), dispose: (db) => db.close() }),
+   *     provide(TxToken, {
+   *       scope: 'request',
+   *       factory: ({ get }) => get(DbToken).transaction(),
+   *       dispose: (tx) => tx.release(),
+   *     }),
+   *   ],
+   * });
+   * ```
+   */
+  services?: ServiceProvider[];
+
+  /**
+   * Log a warning when a middleware returns `{ done: false }` without calling
+   * next(), which silently skips the rest of the chain. Warns once per middleware.
+   * Meant for development; misuse of next() itself always throws a NextCallError.
+   * @default false
+   */
+  devWarnings?: boolean;
+
+  /**
+   * Cookie settings.
+   */
+  cookies?: {
+    /**
+     * Secrets for signed and encrypted cookies, newest first.
+     * New cookies use the first secret; all secrets are tried when reading,
+     * so older secrets can be rotated out once their cookies have expired.
+     */
+    secrets?: string[];
+  };
+}
+
+/**
+ * Typed key for a service, created with `createToken()`.
+ *
+ * @template T - Service type
+ */
+export interface ServiceToken<T> {
+  /** Name used in error messages */
+  readonly name: string;
+  /** Carries the service type; never set at runtime */
+  readonly __type?: T;
+}
+
+/**
+ * Lifetime of a service instance.
+ * - `singleton`: one instance per chain, disposed by `chain.close()`
+ * - `request`: one instance per request, disposed when `handle()` finishes
+ * - `transient`: a new instance for every `get()`, disposed with the request
+ *   (or with the chain when created for a singleton)
+ */
+export type ServiceScope = 'singleton' | 'request' | 'transient';
+
+/**
+ * Passed to service factories to resolve their dependencies.
+ */
+export interface ServiceResolver {
+  /** Resolve another service */
+  get<T>(token: ServiceToken<T>): T;
+  /** Request context, for request-scoped and transient services created during a request */
+  readonly ctx?: MiddlewareContext<unknown>;
+}
+
+/**
+ * Service provided as an existing value (a singleton).
+ */
+export interface ServiceValueProvider<T = unknown> {
+  /** Token the service is registered under */
+  token: ServiceToken<T>;
+  /** Service instance */
+  value: T;
+  scope?: never;
+  /** Called when the chain closes */
+  dispose?(instance: T): void | Promise<void>;
+}
+
+/**
+ * Service created by a factory on first use.
+ */
+export interface ServiceFactoryProvider<T = unknown> {
+  /** Token the service is registered under */
+  token: ServiceToken<T>;
+  /**
+   * Lifetime of the instances.
+   * @default 'singleton'
+   */
+  scope?: ServiceScope;
+  /** Create an instance; dependencies are resolved through the resolver */
+  factory(resolver: ServiceResolver): T;
+  /** Called when the instance's scope ends (see ServiceScope) */
+  dispose?(instance: T): void | Promise<void>;
+}
+
+/**
+ * Service registration for `createChain({ services })`.
+ * Use `provide()` to type the factory and dispose hook from the token.
+ *
+ * @template T - Service type
+ */
+export type ServiceProvider<T = unknown> = ServiceValueProvider<T> | ServiceFactoryProvider<T>;
+
+/**
+ * Trusted proxy setting.
+ * - `true` / `false`: trust every hop / no hop
+ * - number: trust this many hops closest to the server
+ * - string or string[]: IP addresses, CIDR ranges or the presets `'loopback'`,
+ *   `'linklocal'` and `'uniquelocal'` (a string may be comma-separated)
+ * - function: decide per hop, where hop 0 is the connected peer
+ *
+ * @example
+ * ```typescript
+ * createChain({ trustProxy: 'loopback, 10.0.0.0/8' });
+ * createChain({ trustProxy: 1 }); // one load balancer in front
+ * ```
+ */
+export type TrustProxy =
+  | boolean
+  | number
+  | string
+  | string[]
+  | ((address: string, hop: number) => boolean);
+
+/**
+ * Per-request options for `chain.handle()`.
+ */
+export interface HandleOptions {
+  /**
+   * Socket address of the connected peer.
+   * The client IP when no trusted proxy is involved.
+   */
+  remoteAddress?: string;
+
+  /**
+   * Providers replacing the chain's for this request, e.g. test doubles.
+   * Instances are disposed when the request finishes, whatever their scope.
+   * Singletons the chain already created keep their original dependencies.
+   */
+  services?: ServiceProvider[];
+}
+
+/**
+ * Options for closing a middleware chain.
+ */
+export interface ChainCloseOptions {
+  /**
+   * Maximum time to wait for in-flight requests before running `onDestroy` hooks.
+   * Can be a number (ms) or time string ('10s', '1m').
+   * @default '30s'
+   */
+  timeout?: string | number;
+}
+
+/**
+ * Result of closing a middleware chain.
+ */
+export interface ChainCloseResult {
+  /** Whether all in-flight requests finished before the timeout */
+  drained: boolean;
+  /** Errors thrown by `onDestroy` hooks and singleton service dispose hooks */
+  errors: Error[];
 }
 
 /**
@@ -312,6 +1432,12 @@ export interface AdapterOptions<THandler, TReq, TRes> {
    * @returns Fetch API Request
    */
   toRequest: (req: TReq) => Request;
+  /**
+   * Get the socket address of the connected peer
+   * @param req - Framework request object
+   * @returns Remote address, if known
+   */
+  remoteAddress?: (req: TReq) => string | undefined;
   /**
    * Convert Fetch API Response to framework response
    * @param res - Fetch API Response
@@ -383,8 +1509,8 @@ export interface RateLimitEntry {
  * Cache store entry
  */
 export interface CacheEntry {
-  /** Cached response body */
-  body: string;
+  /** Cached response body (binary and streamed bodies are stored as bytes) */
+  body: string | ArrayBuffer | null;
   /** Response status */
   status: number;
   /** Response headers as array of tuples */
@@ -0,0 +1,67 @@
+/**
+ * Check whether a response body is a ReadableStream.
+ *
+ * @param body - Response body
+ * @returns true if the body is streamed
+ */
+export function isStreamBody(body: BodyInit | null): body is ReadableStream<Uint8Array> {
+  return typeof ReadableStream !== 'undefined' && body instanceof ReadableStream;
+}
+
+/**
+ * Get the byte length of a response body without reading it.
+ *
+ * @param body - Response body
+ * @returns Size in bytes, or undefined for streams and form bodies
+ *
+ * @example
+ * ```typescript
+ * getBodySize('héllo');               // 6
+ * getBodySize(new Uint8Array(10));    // 10
+ * getBodySize(new ReadableStream());  // undefined
+ * ```
+ */
+export function getBodySize(body: BodyInit | null): number | undefined {
+  if (body === null) return 0;
+  if (typeof body === 'string') return new TextEncoder().encode(body).byteLength;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  if (typeof Blob !== 'undefined' && body instanceof Blob) return body.size;
+  return undefined;
+}
+
+/**
+ * Read a stream up to a byte limit.
+ * The stream is cancelled once the limit is exceeded.
+ *
+ * @param stream - Byte stream
+ * @param limit - Maximum number of bytes
+ * @returns Bytes read, or null if the stream is larger than the limit
+ */
+export async function readStreamWithLimit(
+  stream: ReadableStream<Uint8Array>,
+  limit: number
+): Promise<ArrayBuffer | null> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
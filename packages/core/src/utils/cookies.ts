@@ -0,0 +1,128 @@
+import type { CookieOptions } from '../types.js';
+import { parseTime } from './time.js';
+
+/**
+ * Cookie names must be HTTP tokens (RFC 6265).
+ */
+const COOKIE_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Characters allowed in domain and path attributes.
+ */
+const COOKIE_ATTRIBUTE_PATTERN = /^[!-:<-~]*$/;
+
+/**
+ * Parse a `Cookie` request header.
+ * Values are URI-decoded; the first occurrence of a name wins.
+ *
+ * @param header - Cookie header value
+ * @returns Cookie values by name
+ *
+ * @example
+ * ```typescript
+ * parseCookies('session=abc; theme=dark%20blue');
+ * // { session: 'abc', theme: 'dark blue' }
+ * ```
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  // No prototype, so names like 'constructor' are ordinary cookies
+  const cookies: Record<string, string> = Object.create(null);
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const eqIndex = pair.indexOf('=');
+    if (eqIndex === -1) continue;
+
+    const name = pair.slice(0, eqIndex).trim();
+    if (!name || Object.hasOwn(cookies, name)) continue;
+
+    let value = pair.slice(eqIndex + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      value = value.slice(1, -1);
+    }
+    cookies[name] = safeDecode(value);
+  }
+
+  return cookies;
+}
+
+/**
+ * Serialize a cookie into a `Set-Cookie` header value.
+ * The value is URI-encoded.
+ *
+ * @param name - Cookie name
+ * @param value - Cookie value
+ * @param options - Cookie attributes
+ * @returns Set-Cookie header value
+ * @throws Error if the name or an attribute is invalid
+ *
+ * @example
+ * ```typescript
+ * serializeCookie('session', 'abc', { httpOnly: true, sameSite: 'lax', maxAge: '1h' });
+ * // 'session=abc; Max-Age=3600; Path=/; HttpOnly; SameSite=Lax'
+ * ```
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!COOKIE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid cookie name: ${name}`);
+  }
+
+  const { maxAge, expires, domain, path = '/', secure, httpOnly, sameSite, partitioned } = options;
+
+  if (partitioned && !secure) {
+    throw new Error('Partitioned cookies must be secure');
+  }
+  if (sameSite === 'none' && !secure) {
+    throw new Error('SameSite=None cookies must be secure');
+  }
+
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+
+  if (maxAge !== undefined) {
+    cookie += `; Max-Age=${Math.floor(parseTime(maxAge) / 1000)}`;
+  }
+  if (expires) {
+    cookie += `; Expires=${expires.toUTCString()}`;
+  }
+  if (domain) {
+    cookie += `; Domain=${validateAttribute('domain', domain)}`;
+  }
+  if (path) {
+    cookie += `; Path=${validateAttribute('path', path)}`;
+  }
+  if (secure) {
+    cookie += '; Secure';
+  }
+  if (httpOnly) {
+    cookie += '; HttpOnly';
+  }
+  if (sameSite) {
+    cookie += `; SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`;
+  }
+  if (partitioned) {
+    cookie += '; Partitioned';
+  }
+
+  return cookie;
+}
+
+/**
+ * Reject attribute values that would inject further attributes.
+ */
+function validateAttribute(attribute: string, value: string): string {
+  if (!COOKIE_ATTRIBUTE_PATTERN.test(value)) {
+    throw new Error(`Invalid cookie ${attribute}: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Decode a URI-encoded value, returning it unchanged if it is malformed.
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Encodings whose suffix compress() appends to strong ETags.
+ */
+const ENCODING_SUFFIX_PATTERN = /-(?:gzip|deflate|br)"$/;
+
+/**
+ * Generate an ETag by hashing a body with SHA-256.
+ *
+ * @param body - Body to hash
+ * @param weak - Generate a weak (`W/`) ETag
+ * @returns Quoted ETag
+ *
+ * @example
+ * ```typescript
+ * await generateETag('{"id":1}');        // '"8-y1tKn0Yx..."'
+ * await generateETag('{"id":1}', true);  // 'W/"8-y1tKn0Yx..."'
+ * ```
+ */
+export async function generateETag(
+  body: string | ArrayBuffer | ArrayBufferView,
+  weak = false
+): Promise<string> {
+  const bytes =
+    typeof body === 'string'
+      ? new TextEncoder().encode(body)
+      : body instanceof ArrayBuffer
+        ? new Uint8Array(body)
+        : new Uint8Array(body.buffer, body.byteOffset, body.byteLength).slice();
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  let binary = '';
+  for (let i = 0; i < digest.length; i++) {
+    binary += String.fromCharCode(digest[i]!);
+  }
+  const hash = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').slice(0, 27);
+
+  const tag = `"${bytes.byteLength.toString(16)}-${hash}"`;
+  return weak ? `W/${tag}` : tag;
+}
+
+/**
+ * Check an `If-Match`/`If-None-Match` header against an ETag.
+ * Encoding suffixes added by compress() are ignored, so a tag received
+ * for the compressed representation still matches.
+ *
+ * @param header - Comma-separated list of ETags, or `*`
+ * @param etag - Current ETag
+ * @param weak - Use weak comparison (If-None-Match); strong comparison rejects weak tags (If-Match)
+ * @returns true if any listed tag matches
+ *
+ * @example
+ * ```typescript
+ * matchesETag('"a", W/"b"', '"b"');        // true
+ * matchesETag('W/"b"', '"b"', false);      // false
+ * matchesETag('"b-gzip"', '"b"');          // true
+ * ```
+ */
+export function matchesETag(header: string, etag: string, weak = true): boolean {
+  if (header.trim() === '*') return true;
+  if (!weak && etag.startsWith('W/')) return false;
+
+  const current = normalizeETag(etag);
+  return header.split(',').some((candidate) => {
+    const tag = candidate.trim();
+    if (!weak && tag.startsWith('W/')) return false;
+    return normalizeETag(tag) === current;
+  });
+}
+
+/**
+ * Mark a strong ETag as belonging to an encoded representation.
+ * Weak ETags are shared between encodings and returned unchanged.
+ *
+ * @param etag - ETag of the identity representation
+ * @param encoding - Content-Encoding applied to the body
+ * @returns ETag for the encoded representation
+ */
+export function withETagEncoding(etag: string, encoding: string): string {
+  if (etag.startsWith('W/') || !etag.endsWith('"') || ENCODING_SUFFIX_PATTERN.test(etag)) {
+    return etag;
+  }
+  return `${etag.slice(0, -1)}-${encoding}"`;
+}
+
+/**
+ * Strip the weak prefix and encoding suffix from an ETag.
+ */
+function normalizeETag(etag: string): string {
+  return etag.replace(/^W\//, '').replace(ENCODING_SUFFIX_PATTERN, '"');
+}
@@ -121,6 +121,17 @@ export function isTextContentType(contentType: string | null): boolean {
   return /^text\//i.test(contentType);
 }
 
+/**
+ * Check if a content type indicates a Server-Sent Events stream
+ *
+ * @param contentType - Content-Type header value
+ * @returns true if content type is text/event-stream
+ */
+export function isEventStreamContentType(contentType: string | null): boolean {
+  if (!contentType) return false;
+  return /^text\/event-stream(?:\s*;|\s*$)/i.test(contentType);
+}
+
 /**
  * Parse content type header into type and parameters
  *
@@ -160,6 +171,134 @@ export function parseContentType(contentType: string | null): {
   return { type: type.toLowerCase(), parameters };
 }
 
+/**
+ * Entry of an Accept-style header (Accept, Accept-Encoding, Accept-Language).
+ */
+export interface AcceptEntry {
+  /** Media range or token, lowercased (e.g. 'text/html', 'text/*', 'gzip', '*') */
+  value: string;
+  /** Quality value from 0 (not acceptable) to 1 */
+  q: number;
+  /** Parameters other than q */
+  parameters: Record<string, string>;
+}
+
+/**
+ * Parse an Accept-style header with q-values
+ *
+ * @param header - Accept, Accept-Encoding or Accept-Language header value
+ * @returns Entries ordered by quality, then specificity, then header order
+ *
+ * @example
+ * ```typescript
+ * parseAccept('text/*;q=0.5, application/json, text/csv;q=0.5');
+ * // [
+ * //   { value: 'application/json', q: 1, parameters: {} },
+ * //   { value: 'text/csv', q: 0.5, parameters: {} },
+ * //   { value: 'text/*', q: 0.5, parameters: {} },
+ * // ]
+ * ```
+ */
+export function parseAccept(header: string | null): AcceptEntry[] {
+  if (!header) return [];
+
+  const entries: AcceptEntry[] = [];
+  for (const part of header.split(',')) {
+    const parsed = parseContentType(part.trim());
+    if (!parsed?.type) continue;
+
+    const { q: rawQ, ...parameters } = parsed.parameters;
+    const q = rawQ === undefined ? 1 : Number(rawQ);
+    entries.push({
+      value: parsed.type,
+      q: Number.isFinite(q) ? Math.min(Math.max(q, 0), 1) : 1,
+      parameters,
+    });
+  }
+
+  // Array.prototype.sort is stable, so equal entries keep header order
+  return entries.sort((a, b) => b.q - a.q || getAcceptSpecificity(b) - getAcceptSpecificity(a));
+}
+
+/**
+ * Select the best offer for an Accept-style header
+ *
+ * Each offer gets the quality of the most specific entry matching it; entries
+ * with `q=0` exclude it. Ties go to the more specific match, then to the
+ * earlier offer. An empty or missing header accepts the first offer.
+ *
+ * @param header - Accept, Accept-Encoding or Accept-Language header value
+ * @param offers - Available media types or tokens, in order of preference
+ * @returns The selected offer, or undefined if none is acceptable
+ *
+ * @example
+ * ```typescript
+ * selectAccepted('text/html, application/json;q=0.9', ['application/json', 'text/html']);
+ * // 'text/html'
+ * selectAccepted('gzip;q=0, deflate', ['gzip', 'deflate']); // 'deflate'
+ * selectAccepted('image/png', ['application/json']); // undefined
+ * ```
+ */
+export function selectAccepted<TOffer extends string>(
+  header: string | null,
+  offers: TOffer[]
+): TOffer | undefined {
+  if (!header?.trim()) return offers[0];
+
+  const entries = parseAccept(header);
+  let selected: TOffer | undefined;
+  let selectedQ = 0;
+  let selectedSpecificity = -1;
+
+  for (const offer of offers) {
+    const match = findAcceptMatch(entries, offer);
+    if (!match || match.q === 0) continue;
+
+    const specificity = getAcceptSpecificity(match);
+    if (match.q > selectedQ || (match.q === selectedQ && specificity > selectedSpecificity)) {
+      selected = offer;
+      selectedQ = match.q;
+      selectedSpecificity = specificity;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Find the most specific Accept entry matching an offer.
+ */
+function findAcceptMatch(entries: AcceptEntry[], offer: string): AcceptEntry | undefined {
+  const value = offer.split(';')[0]?.trim().toLowerCase() ?? '';
+  const [type, subtype] = value.split('/');
+  let match: AcceptEntry | undefined;
+
+  for (const entry of entries) {
+    const [entryType, entrySubtype] = entry.value.split('/');
+    const matches =
+      entry.value === value ||
+      entry.value === '*' ||
+      entry.value === '*/*' ||
+      (subtype !== undefined && entrySubtype === '*' && entryType === type);
+
+    if (matches && (!match || getAcceptSpecificity(entry) > getAcceptSpecificity(match))) {
+      match = entry;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Rank how specific an Accept entry is.
+ * Full wildcards rank lowest, then type wildcards, exact values and exact values with parameters.
+ */
+function getAcceptSpecificity(entry: AcceptEntry): number {
+  if (entry.value === '*' || entry.value === '*/*') return 0;
+  if (entry.value.endsWith('/*')) return 1;
+  return Object.keys(entry.parameters).length > 0 ? 3 : 2;
+}
+
 /**
  * Redact sensitive header values
  *
@@ -9,6 +9,13 @@ export {
   isFormContentType,
   isMultipartContentType,
   isTextContentType,
+  isEventStreamContentType,
   parseContentType,
+  parseAccept,
+  selectAccepted,
   redactHeaders,
+  type AcceptEntry,
 } from './headers.js';
+export { parseCookies, serializeCookie } from './cookies.js';
+export { generateETag, matchesETag } from './etag.js';
+export { parseForwarded, normalizeIP, isIPInRange, type ForwardedElement } from './ip.js';
@@ -0,0 +1,242 @@
+/**
+ * Element of an RFC 7239 `Forwarded` header, added by one proxy.
+ */
+export interface ForwardedElement {
+  /** Address the proxy received the request from (port and brackets removed) */
+  for?: string;
+  /** Interface the proxy received the request on */
+  by?: string;
+  /** Host header the proxy received */
+  host?: string;
+  /** Protocol the proxy received the request with, lowercased (e.g. 'https') */
+  proto?: string;
+}
+
+/**
+ * Parse an RFC 7239 `Forwarded` header.
+ *
+ * @param header - Forwarded header value
+ * @returns Elements from the client side to the proxy closest to the server
+ *
+ * @example
+ * ```typescript
+ * parseForwarded('for=192.0.2.60;proto=https, for="[2001:db8::17]:4711"');
+ * // [{ for: '192.0.2.60', proto: 'https' }, { for: '2001:db8::17' }]
+ * ```
+ */
+export function parseForwarded(header: string | null): ForwardedElement[] {
+  if (!header) return [];
+
+  return splitOutsideQuotes(header, ',').map((element) => {
+    const result: ForwardedElement = {};
+    for (const pair of splitOutsideQuotes(element, ';')) {
+      const separator = pair.indexOf('=');
+      if (separator === -1) continue;
+
+      const key = pair.slice(0, separator).trim().toLowerCase();
+      let value = pair.slice(separator + 1).trim();
+      if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+        value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+      }
+
+      if (key === 'for' || key === 'by') {
+        result[key] = stripPort(value);
+      } else if (key === 'proto') {
+        result.proto = value.toLowerCase();
+      } else if (key === 'host') {
+        result.host = value;
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Normalize an IP address from a socket or header: brackets and ports are
+ * removed, and IPv4-mapped IPv6 addresses become plain IPv4.
+ *
+ * @param address - IP address, optionally with brackets or port
+ * @returns Normalized address, or undefined if it is not a valid IP
+ *
+ * @example
+ * ```typescript
+ * normalizeIP('::ffff:10.0.0.1');       // '10.0.0.1'
+ * normalizeIP('[2001:db8::1]:8080');    // '2001:db8::1'
+ * normalizeIP('unknown');               // undefined
+ * ```
+ */
+export function normalizeIP(address: string | undefined): string | undefined {
+  if (!address) return undefined;
+
+  const stripped = stripPort(address.trim());
+  const bytes = parseIP(stripped);
+  if (!bytes) return undefined;
+  return bytes.length === 4 ? bytes.join('.') : stripped.toLowerCase().replace(/%.*$/, '');
+}
+
+/**
+ * Check whether an IP address is within a CIDR range.
+ * A range without a prefix length matches the single address.
+ *
+ * @param address - IP address
+ * @param range - CIDR range (e.g., '10.0.0.0/8', 'fc00::/7') or address
+ * @returns true if the address is in the range
+ *
+ * @example
+ * ```typescript
+ * isIPInRange('10.1.2.3', '10.0.0.0/8');     // true
+ * isIPInRange('::ffff:10.1.2.3', '10.0.0.0/8'); // true
+ * isIPInRange('2001:db8::1', '10.0.0.0/8');  // false
+ * ```
+ */
+export function isIPInRange(address: string, range: string): boolean {
+  return compileIPRange(range)(address);
+}
+
+/**
+ * Compile a CIDR range into a matcher.
+ *
+ * @param range - CIDR range or single address
+ * @returns Function testing an address against the range
+ * @throws Error if the range is not a valid IP or CIDR
+ */
+export function compileIPRange(range: string): (address: string) => boolean {
+  const [network = '', prefix] = range.trim().split('/');
+  const networkBytes = parseIP(network);
+  if (!networkBytes) {
+    throw new Error(`Invalid IP range: ${range}`);
+  }
+
+  const bits = prefix === undefined ? networkBytes.length * 8 : Number(prefix);
+  if (!Number.isInteger(bits) || bits < 0 || bits > networkBytes.length * 8) {
+    throw new Error(`Invalid IP range: ${range}`);
+  }
+
+  return (address: string) => {
+    const bytes = parseIP(stripPort(address.trim()));
+    if (!bytes || bytes.length !== networkBytes.length) return false;
+
+    for (let i = 0; i < bytes.length; i++) {
+      const remaining = bits - i * 8;
+      if (remaining <= 0) break;
+      const mask = remaining >= 8 ? 0xff : (0xff << (8 - remaining)) & 0xff;
+      if ((bytes[i]! & mask) !== (networkBytes[i]! & mask)) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Parse an IP address into bytes.
+ * IPv4-mapped IPv6 addresses are returned as 4 IPv4 bytes.
+ */
+function parseIP(address: string): number[] | null {
+  if (address.includes(':')) {
+    const bytes = parseIPv6(address.replace(/%.*$/, ''));
+    const mapped =
+      bytes?.slice(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+    if (bytes && mapped) {
+      return bytes.slice(12);
+    }
+    return bytes;
+  }
+  return parseIPv4(address);
+}
+
+/**
+ * Parse a dotted IPv4 address.
+ */
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const value = Number(part);
+    if (value > 255) return null;
+    bytes.push(value);
+  }
+  return bytes;
+}
+
+/**
+ * Parse an IPv6 address, including `::` compression and a trailing IPv4 part.
+ */
+function parseIPv6(address: string): number[] | null {
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const parseGroups = (part: string): number[] | null => {
+    if (part === '') return [];
+    const bytes: number[] = [];
+    const groups = part.split(':');
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i]!;
+      if (i === groups.length - 1 && group.includes('.')) {
+        const ipv4 = parseIPv4(group);
+        if (!ipv4) return null;
+        bytes.push(...ipv4);
+        continue;
+      }
+      if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+      const value = parseInt(group, 16);
+      bytes.push(value >> 8, value & 0xff);
+    }
+    return bytes;
+  };
+
+  const head = parseGroups(halves[0]!);
+  const tail = halves.length === 2 ? parseGroups(halves[1]!) : [];
+  if (!head || !tail) return null;
+
+  if (halves.length === 1) {
+    return head.length === 16 ? head : null;
+  }
+  const missing = 16 - head.length - tail.length;
+  if (missing < 2) return null;
+  return [...head, ...new Array<number>(missing).fill(0), ...tail];
+}
+
+/**
+ * Remove brackets and port from an address ('[::1]:80' → '::1', '1.2.3.4:80' → '1.2.3.4').
+ */
+function stripPort(address: string): string {
+  if (address.startsWith('[')) {
+    const end = address.indexOf(']');
+    return end === -1 ? address : address.slice(1, end);
+  }
+  // A single colon separates an IPv4 address or hostname from its port
+  const colon = address.indexOf(':');
+  if (colon !== -1 && colon === address.lastIndexOf(':')) {
+    return address.slice(0, colon);
+  }
+  return address;
+}
+
+/**
+ * Split a header on a separator, ignoring separators inside quoted strings.
+ */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+    if (char === '\\' && quoted) {
+      current += char + (value[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
@@ -0,0 +1,74 @@
+/**
+ * Normalize a mount prefix: leading slash, no trailing slash.
+ *
+ * @param prefix - Path prefix
+ * @returns Normalized prefix ('' for the root)
+ *
+ * @example
+ * ```typescript
+ * normalizePrefix('admin/');  // '/admin'
+ * normalizePrefix('/');       // ''
+ * ```
+ */
+export function normalizePrefix(prefix: string): string {
+  const trimmed = prefix.trim().replace(/\/+$/, '');
+  if (trimmed === '') return '';
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/**
+ * Strip a normalized prefix from a pathname.
+ * Only whole segments match: '/admin' matches '/admin' and '/admin/users',
+ * but not '/administrator'.
+ *
+ * @param pathname - URL pathname
+ * @param prefix - Normalized prefix
+ * @returns Remaining pathname (always starting with '/'), or null if the prefix does not match
+ *
+ * @example
+ * ```typescript
+ * stripPrefix('/admin/users', '/admin'); // '/users'
+ * stripPrefix('/admin', '/admin');       // '/'
+ * stripPrefix('/administrator', '/admin'); // null
+ * ```
+ */
+export function stripPrefix(pathname: string, prefix: string): string | null {
+  if (prefix === '') return pathname;
+  if (!pathname.startsWith(prefix)) return null;
+
+  const rest = pathname.slice(prefix.length);
+  if (rest === '') return '/';
+  return rest.startsWith('/') ? rest : null;
+}
+
+/**
+ * Compile a path glob into a matcher function.
+ * `*` matches within a single segment, `**` matches any number of segments.
+ *
+ * @param glob - Path glob (e.g., '/api/**', '/users/*')
+ * @returns Function testing a pathname against the glob
+ *
+ * @example
+ * ```typescript
+ * const isApi = compilePathGlob('/api/**');
+ * isApi('/api');          // true
+ * isApi('/api/users/42'); // true
+ * isApi('/health');       // false
+ * ```
+ */
+export function compilePathGlob(glob: string): (pathname: string) => boolean {
+  const segments = glob.split('/').filter(Boolean);
+  let source = '';
+
+  for (const segment of segments) {
+    if (segment === '**') {
+      source += '(?:/.*)?';
+      continue;
+    }
+    const escaped = segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*');
+    source += `/${escaped}`;
+  }
+
+  const pattern = new RegExp(`^${source}/?$`);
+  return (pathname: string) => pattern.test(pathname);
+}
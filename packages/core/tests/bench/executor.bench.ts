@@ -0,0 +1,109 @@
+import { bench, describe } from 'vitest';
+import { composeChain } from '../../src/chain.js';
+import { createContext } from '../../src/context.js';
+import type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareResult,
+  NextFunction,
+} from '../../src/types.js';
+
+/**
+ * Executor used before short-circuits were propagated as values: every
+ * `{ done: true }` threw, and every request built a new next() closure.
+ */
+class ShortCircuitError extends Error {
+  constructor(public readonly response: Response) {
+    super('Short circuit');
+    this.name = 'ShortCircuitError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Result the legacy next() resolved with; downstream short-circuits were thrown instead.
+ */
+const CONTINUED: MiddlewareResult = { done: false };
+
+async function executeThrowing(
+  middlewares: ReadonlyArray<Middleware>,
+  ctx: MiddlewareContext,
+  final?: () => Promise<void>
+): Promise<Response | undefined> {
+  let index = 0;
+
+  const next: NextFunction = async () => {
+    if (index >= middlewares.length) {
+      if (final) {
+        await final();
+      }
+      return CONTINUED;
+    }
+
+    const middleware = middlewares[index++];
+    if (!middleware) {
+      return CONTINUED;
+    }
+
+    const result = await middleware.handler(ctx, next);
+    if (result.done) {
+      throw new ShortCircuitError(result.response);
+    }
+    return CONTINUED;
+  };
+
+  try {
+    await next();
+    return undefined;
+  } catch (error) {
+    if (error instanceof ShortCircuitError) {
+      return error.response;
+    }
+    throw error;
+  }
+}
+
+const passThrough = (name: string): Middleware => ({
+  name,
+  handler: async (_ctx, next) => {
+    await next();
+    return { done: false };
+  },
+});
+
+const unauthorized = new Response(null, { status: 401 });
+
+// logger, request-id, cors, helmet, then an auth rejection
+const rejecting: Middleware[] = [
+  ...['logger', 'request-id', 'cors', 'helmet'].map(passThrough),
+  { name: 'auth', handler: () => ({ done: true, response: unauthorized }) },
+];
+
+// The same chain with a handler that lets the request through
+const passing: Middleware[] = [...rejecting.slice(0, -1), passThrough('handler')];
+
+const ctx = createContext(new Request('http://localhost/'));
+
+describe('short-circuit (auth rejection)', () => {
+  const composed = composeChain(rejecting);
+
+  bench('throwing executor', async () => {
+    await executeThrowing(rejecting, ctx);
+  });
+
+  bench('precomposed executor', async () => {
+    await composed(ctx);
+  });
+});
+
+describe('pass-through', () => {
+  const composed = composeChain(passing);
+
+  bench('throwing executor', async () => {
+    await executeThrowing(passing, ctx);
+  });
+
+  bench('precomposed executor', async () => {
+    await composed(ctx);
+  });
+});
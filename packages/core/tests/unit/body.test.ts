@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { createRequestBody } from '../../src/body.js';
+import { createChain } from '../../src/chain.js';
+import { PayloadTooLargeError } from '../../src/errors.js';
+import { bodyParser } from '../../src/middlewares/body-parser.js';
+import { validator, z } from '../../src/middlewares/validator/index.js';
+
+function post(body: BodyInit, contentType = 'application/json'): Request {
+  return new Request('http://localhost/items', {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body,
+  });
+}
+
+describe('Request body', () => {
+  describe('createRequestBody', () => {
+    it('should read the stream once and reuse it for every accessor', async () => {
+      const request = post('{"name":"widget"}');
+      const body = createRequestBody(request);
+
+      expect(body.read).toBe(false);
+      const [parsed, again] = await Promise.all([body.json(), body.json()]);
+      expect(body.read).toBe(true);
+
+      expect(parsed).toEqual({ name: 'widget' });
+      expect(again).toBe(parsed);
+      expect(await body.text()).toBe('{"name":"widget"}');
+      expect((await body.arrayBuffer()).byteLength).toBe(17);
+      expect(request.bodyUsed).toBe(true);
+    });
+
+    it('should parse multipart and URL-encoded form data', async () => {
+      const form = new FormData();
+      form.append('file', new Blob(['hello']), 'hello.txt');
+      const multipart = createRequestBody(
+        new Request('http://localhost/', { method: 'POST', body: form })
+      );
+      const urlencoded = createRequestBody(post('a=1&a=2', 'application/x-www-form-urlencoded'));
+
+      expect(((await multipart.formData()).get('file') as File).name).toBe('hello.txt');
+      expect((await urlencoded.formData()).getAll('a')).toEqual(['1', '2']);
+    });
+
+    it('should resolve to an empty body without a stream', async () => {
+      const body = createRequestBody(new Request('http://localhost/'));
+
+      expect(await body.text()).toBe('');
+    });
+
+    it('should enforce the size limit on the stream and on Content-Length', async () => {
+      const streamed = createRequestBody(post('x'.repeat(20)), 10);
+      const declared = createRequestBody(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Length': '20' },
+          body: 'x'.repeat(20),
+        }),
+        10
+      );
+
+      await expect(streamed.text()).rejects.toThrow(PayloadTooLargeError);
+      await expect(declared.arrayBuffer()).rejects.toThrow('exceeds limit of 10 bytes');
+    });
+
+    it('should report a body already read from the request', async () => {
+      const request = post('{}');
+      await request.text();
+
+      await expect(createRequestBody(request).json()).rejects.toThrow('use ctx.body instead');
+    });
+  });
+
+  describe('in a chain', () => {
+    it('should let middlewares read the body before and after body-parser', async () => {
+      const seen: unknown[] = [];
+      const chain = createChain()
+        .use(async (ctx, next) => {
+          seen.push(await ctx.body.json());
+          await next();
+          return { done: false };
+        })
+        .use(bodyParser())
+        .use(validator({ body: z.object({ name: z.string() }) }))
+        .use(async (ctx, next) => {
+          ctx.response.json({ body: ctx.state.body, text: await ctx.body.text() });
+          await next();
+          return { done: false };
+        });
+
+      const response = await chain.handle(post('{"name":"widget"}'));
+
+      expect(seen).toEqual([{ name: 'widget' }]);
+      expect(await response.json()).toEqual({
+        body: { name: 'widget' },
+        text: '{"name":"widget"}',
+      });
+    });
+
+    it('should leave the body readable after validator parsed it', async () => {
+      const chain = createChain()
+        .use(validator({ body: z.object({ name: z.string() }) }))
+        .use(async (ctx, next) => {
+          ctx.response.json(await ctx.body.json());
+          await next();
+          return { done: false };
+        });
+
+      const response = await chain.handle(post('{"name":"widget"}'));
+
+      expect(await response.json()).toEqual({ name: 'widget' });
+    });
+
+    it('should apply the chain bodyLimit', async () => {
+      const chain = createChain({ bodyLimit: '10b' }).use(bodyParser());
+
+      const response = await chain.handle(post(JSON.stringify({ name: 'a long name' })));
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({
+        error: 'Payload Too Large',
+        code: 'PAYLOAD_TOO_LARGE',
+      });
+    });
+
+    it('should answer 413 when body-parser limits are exceeded', async () => {
+      const chain = createChain().use(bodyParser({ json: { limit: 5 } }));
+
+      expect((await chain.handle(post('{"name":"widget"}'))).status).toBe(413);
+    });
+  });
+});
@@ -1,5 +1,17 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
 import { createChain } from '../../src/chain.js';
+import { bodyParser, type BodyState } from '../../src/middlewares/body-parser.js';
+import { validator, z } from '../../src/middlewares/validator/index.js';
+import { auth, signJWT, type AuthState } from '../../src/middlewares/auth/index.js';
+import type { Middleware, MiddlewareChain, NextFunction } from '../../src/types.js';
+import {
+  AuthenticationError,
+  DependencyError,
+  InitializationError,
+  MiddlewareError,
+  NextCallError,
+  TimeoutError,
+} from '../../src/errors.js';
 
 describe('MiddlewareChain', () => {
   describe('createChain', () => {
@@ -80,7 +92,40 @@ describe('MiddlewareChain', () => {
       });
 
       const middlewares = chain.getMiddlewares();
-      expect(middlewares[0].name).toBe('test-middleware');
+      expect(middlewares[0]?.name).toBe('test-middleware');
+    });
+
+    it('should accumulate the state declared by middlewares', async () => {
+      const chain = createChain()
+        .use(bodyParser())
+        .use(auth({ jwt: { secret: 'secret' } }))
+        .use(async (ctx, next) => {
+          expectTypeOf(ctx.state.user).toEqualTypeOf<AuthState['user']>();
+          expectTypeOf(ctx.state.files).toEqualTypeOf<BodyState['files']>();
+          ctx.response.json({ user: ctx.state.user?.id, body: ctx.state.body });
+          await next();
+          return { done: false };
+        });
+
+      expectTypeOf(chain).toMatchTypeOf<MiddlewareChain<BodyState & AuthState>>();
+
+      const token = await signJWT({ sub: 'user-1' }, 'secret');
+      const response = await chain.handle(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ a: 1 }),
+        })
+      );
+
+      expect(await response.json()).toEqual({ user: 'user-1', body: { a: 1 } });
+    });
+
+    it('should accumulate state from several middlewares in one call', () => {
+      const chain = createChain().use(bodyParser(), auth({ jwt: { secret: 'secret' } }));
+
+      expectTypeOf(chain).toMatchTypeOf<MiddlewareChain<BodyState & AuthState>>();
+      expect(chain.getMiddlewares().map((mw) => mw.name)).toEqual(['body-parser', 'auth']);
     });
   });
 
@@ -225,6 +270,164 @@ describe('MiddlewareChain', () => {
       expect(response.status).toBe(401);
       expect(secondMiddlewareCalled.value).toBe(false);
     });
+
+    it('should resolve next() with the downstream result', async () => {
+      const results: unknown[] = [];
+
+      const chain = createChain()
+        .use(async (_ctx, next) => {
+          const result = await next();
+          results.push(result.done ? result.response.status : result);
+          return { done: false };
+        })
+        .use(async (_ctx, next) => {
+          results.push(await next());
+          return { done: true, response: new Response(null, { status: 401 }) };
+        });
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(401);
+      expect(results).toEqual([{ done: false }, 401]);
+    });
+
+    it('should let an upstream middleware replace the response', async () => {
+      const chain = createChain()
+        .use(async (_ctx, next) => {
+          const result = await next();
+          return result.done
+            ? { done: true, response: new Response('Replaced', { status: 503 }) }
+            : { done: false };
+        })
+        .use(async () => ({ done: true, response: new Response(null, { status: 401 }) }));
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(503);
+      expect(await response.text()).toBe('Replaced');
+    });
+
+    it('should run middlewares added after the first request', async () => {
+      const chain = createChain().use(async (_ctx, next) => {
+        await next();
+        return { done: false };
+      });
+
+      expect((await chain.handle(new Request('http://localhost/'))).status).toBe(200);
+
+      chain.use(async () => ({ done: true, response: new Response(null, { status: 403 }) }));
+
+      expect((await chain.handle(new Request('http://localhost/'))).status).toBe(403);
+    });
+  });
+
+  describe('next() misuse', () => {
+    it('should reject a second call to next()', async () => {
+      const downstream = vi.fn();
+
+      const chain = createChain()
+        .use({
+          name: 'retry',
+          handler: async (_ctx, next) => {
+            await next();
+            await next();
+            return { done: false };
+          },
+        })
+        .use(async (_ctx, next) => {
+          downstream();
+          await next();
+          return { done: false };
+        });
+
+      const error = await chain.handle(new Request('http://localhost/')).catch((e) => e);
+
+      expect(error).toBeInstanceOf(NextCallError);
+      expect(error.message).toBe('Middleware "retry" called next() more than once');
+      expect(error.middleware).toBe('retry');
+      expect(downstream).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject next() after short-circuiting', async () => {
+      let saved: (() => Promise<unknown>) | undefined;
+      const downstream = vi.fn();
+
+      const chain = createChain()
+        .use({
+          name: 'guard',
+          handler: async (_ctx, next) => {
+            saved = next;
+            return { done: true, response: new Response(null, { status: 401 }) };
+          },
+        })
+        .use(async (_ctx, next) => {
+          downstream();
+          await next();
+          return { done: false };
+        });
+
+      expect((await chain.handle(new Request('http://localhost/'))).status).toBe(401);
+      await expect(saved!()).rejects.toThrow(
+        'Middleware "guard" called next() after short-circuiting'
+      );
+      expect(downstream).not.toHaveBeenCalled();
+    });
+
+    it('should map misuse errors through onError', async () => {
+      const chain = createChain({
+        onError: (error) =>
+          new Response(error instanceof NextCallError ? error.code : 'other', { status: 500 }),
+      }).use(async (_ctx, next) => {
+        await Promise.all([next(), next()]);
+        return { done: false };
+      });
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('NEXT_CALL_ERROR');
+    });
+  });
+
+  describe('devWarnings', () => {
+    const stalling: Middleware = {
+      name: 'stalling',
+      handler: async (ctx) => {
+        ctx.response.json({ ok: true });
+        return { done: false };
+      },
+    };
+    const after: Middleware = {
+      name: 'after',
+      handler: async (_ctx, next) => {
+        await next();
+        return { done: false };
+      },
+    };
+
+    it('should warn once when a middleware skips the rest of the chain', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const chain = createChain({ devWarnings: true }).use(stalling, after);
+
+      await chain.handle(new Request('http://localhost/'));
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]?.[0]).toContain('Middleware "stalling" returned { done: false }');
+      warn.mockRestore();
+    });
+
+    it('should not warn for the last middleware or without devWarnings', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await createChain({ devWarnings: true })
+        .use(after, stalling)
+        .handle(new Request('http://localhost/'));
+      await createChain().use(stalling, after).handle(new Request('http://localhost/'));
+
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
   });
 
   describe('onInit hooks', () => {
@@ -272,4 +475,964 @@ describe('MiddlewareChain', () => {
       expect(initCount).toBe(1);
     });
   });
+
+  describe('mount', () => {
+    it('should run nested chain for matching prefix with stripped path', async () => {
+      const admin = createChain().use(async (ctx, next) => {
+        ctx.response.json({ path: ctx.meta.url.pathname });
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain().mount('/admin', admin);
+
+      const response = await chain.handle(new Request('http://localhost/admin/users?x=1'));
+      expect(await response.json()).toEqual({ path: '/users' });
+
+      const root = await chain.handle(new Request('http://localhost/admin'));
+      expect(await root.json()).toEqual({ path: '/' });
+    });
+
+    it('should skip nested chain for other paths', async () => {
+      let called = false;
+      const admin = createChain().use(async (_ctx, next) => {
+        called = true;
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain().mount('/admin', admin);
+      await chain.handle(new Request('http://localhost/administrator'));
+      await chain.handle(new Request('http://localhost/public'));
+
+      expect(called).toBe(false);
+    });
+
+    it('should share state and continue the parent chain', async () => {
+      const api = createChain<{ user?: string }>().use(async (ctx, next) => {
+        ctx.state.user = 'John';
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain<{ user?: string }>()
+        .mount('/api', api)
+        .use(async (ctx, next) => {
+          ctx.response.json({ user: ctx.state.user, path: ctx.meta.url.pathname });
+          await next();
+          return { done: false };
+        });
+
+      const response = await chain.handle(new Request('http://localhost/api/me'));
+      expect(await response.json()).toEqual({ user: 'John', path: '/api/me' });
+    });
+
+    it('should let the parent see what the nested chain sets on meta', async () => {
+      const api = createChain().use(async (ctx, next) => {
+        ctx.meta.traceId = 'trace-1';
+        await next();
+        return { done: false };
+      });
+      let seen: unknown;
+
+      const chain = createChain()
+        .use(async (ctx, next) => {
+          await next();
+          seen = { traceId: ctx.meta.traceId, path: ctx.meta.url.pathname };
+          return { done: false };
+        })
+        .mount('/api', api);
+
+      await chain.handle(new Request('http://localhost/api/me'));
+      expect(seen).toEqual({ traceId: 'trace-1', path: '/api/me' });
+    });
+
+    it('should short-circuit from nested chain', async () => {
+      const admin = createChain().use(async (ctx) => {
+        ctx.response.setStatus(403).json({ error: 'Forbidden' });
+        return { done: true, response: ctx.response.build() };
+      });
+
+      let reached = false;
+      const chain = createChain()
+        .mount('/admin', admin)
+        .use(async (_ctx, next) => {
+          reached = true;
+          await next();
+          return { done: false };
+        });
+
+      const response = await chain.handle(new Request('http://localhost/admin/x'));
+      expect(response.status).toBe(403);
+      expect(reached).toBe(false);
+    });
+
+    it('should support nested mounts', async () => {
+      const users = createChain().use(async (ctx, next) => {
+        ctx.response.json({ path: ctx.meta.url.pathname });
+        await next();
+        return { done: false };
+      });
+      const api = createChain().mount('/users', users);
+      const chain = createChain().mount('/api/', api);
+
+      const response = await chain.handle(new Request('http://localhost/api/users/42'));
+      expect(await response.json()).toEqual({ path: '/42' });
+    });
+
+    it('should initialize nested middlewares', async () => {
+      let initialized = false;
+      const nested = createChain().use({
+        name: 'nested-init',
+        onInit: () => {
+          initialized = true;
+        },
+        handler: async (_ctx, next) => {
+          await next();
+          return { done: false };
+        },
+      });
+
+      await createChain().mount('/x', nested).handle(new Request('http://localhost/'));
+      expect(initialized).toBe(true);
+    });
+
+    it('should initialize a chain mounted after the first request', async () => {
+      let initialized = false;
+      const nested = createChain().use({
+        name: 'late-init',
+        onInit: () => {
+          initialized = true;
+        },
+        handler: async (_ctx, next) => {
+          await next();
+          return { done: false };
+        },
+      });
+
+      const chain = createChain();
+      await chain.handle(new Request('http://localhost/'));
+      expect(chain.status).toBe('ready');
+
+      chain.mount('/x', nested);
+      expect(chain.status).toBe('idle');
+
+      await chain.handle(new Request('http://localhost/x'));
+      expect(initialized).toBe(true);
+    });
+
+    it('should check dependencies of mounted chains', () => {
+      const consumer: Middleware = {
+        name: 'consumer',
+        requires: ['body'],
+        handler: async (_ctx, next) => {
+          await next();
+          return { done: false };
+        },
+      };
+
+      expect(() =>
+        createChain().use(consumer).mount('/api', createChain().use(bodyParser()))
+      ).toThrow(DependencyError);
+    });
+  });
+
+  describe('toMiddleware', () => {
+    it('should use a chain as a plain middleware', async () => {
+      const order: string[] = [];
+      const nested = createChain().use(async (_ctx, next) => {
+        order.push('nested');
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain()
+        .use(nested.toMiddleware('nested'))
+        .use(async (_ctx, next) => {
+          order.push('after');
+          await next();
+          return { done: false };
+        });
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(chain.getMiddlewares()[0]?.name).toBe('nested');
+      expect(order).toEqual(['nested', 'after']);
+    });
+  });
+
+  describe('close', () => {
+    it('should call onDestroy hooks in reverse order', async () => {
+      const order: string[] = [];
+      const mw = (name: string) => ({
+        name,
+        handler: async (_ctx: unknown, next: NextFunction) => {
+          await next();
+          return { done: false as const };
+        },
+        onDestroy: () => {
+          order.push(name);
+        },
+      });
+
+      const chain = createChain().use(mw('first'), mw('second'), mw('third'));
+      const result = await chain.close();
+
+      expect(order).toEqual(['third', 'second', 'first']);
+      expect(result).toEqual({ drained: true, errors: [] });
+    });
+
+    it('should collect onDestroy errors and run every hook', async () => {
+      let lastCalled = false;
+      const chain = createChain()
+        .use({
+          name: 'last',
+          handler: async (_ctx, next) => {
+            await next();
+            return { done: false };
+          },
+          onDestroy: () => {
+            lastCalled = true;
+          },
+        })
+        .use({
+          name: 'failing',
+          handler: async (_ctx, next) => {
+            await next();
+            return { done: false };
+          },
+          onDestroy: () => {
+            throw new Error('destroy failed');
+          },
+        });
+
+      const result = await chain.close();
+
+      expect(lastCalled).toBe(true);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]?.message).toBe('destroy failed');
+    });
+
+    it('should wait for in-flight requests', async () => {
+      let release: () => void = () => {};
+      let destroyed = false;
+
+      const chain = createChain().use({
+        name: 'slow',
+        handler: async (ctx, next) => {
+          await new Promise<void>((resolve) => {
+            release = resolve;
+          });
+          ctx.response.text('done');
+          await next();
+          return { done: false };
+        },
+        onDestroy: () => {
+          destroyed = true;
+        },
+      });
+
+      const pending = chain.handle(new Request('http://localhost/'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const closing = chain.close();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(destroyed).toBe(false);
+
+      release();
+      const response = await pending;
+      const result = await closing;
+
+      expect(await response.text()).toBe('done');
+      expect(result.drained).toBe(true);
+      expect(destroyed).toBe(true);
+    });
+
+    it('should give up waiting after the timeout', async () => {
+      vi.useFakeTimers();
+      try {
+        const chain = createChain().use(async () => new Promise(() => {}));
+
+        void chain.handle(new Request('http://localhost/'));
+        await vi.advanceTimersByTimeAsync(0);
+
+        const closing = chain.close({ timeout: '1s' });
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(await closing).toEqual({ drained: false, errors: [] });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject new requests with 503 after close', async () => {
+      const chain = createChain();
+      await chain.close();
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({
+        error: 'Service Unavailable',
+        code: 'CHAIN_CLOSED',
+      });
+    });
+
+    it('should return the same result when called twice', async () => {
+      let count = 0;
+      const chain = createChain().use({
+        name: 'once',
+        handler: async (_ctx, next) => {
+          await next();
+          return { done: false };
+        },
+        onDestroy: () => {
+          count++;
+        },
+      });
+
+      const [a, b] = await Promise.all([chain.close(), chain.close()]);
+
+      expect(a).toBe(b);
+      expect(count).toBe(1);
+    });
+
+    it('should destroy middlewares of mounted chains', async () => {
+      let destroyed = false;
+      const nested = createChain().use({
+        name: 'nested',
+        handler: async (_ctx, next) => {
+          await next();
+          return { done: false };
+        },
+        onDestroy: () => {
+          destroyed = true;
+        },
+      });
+
+      await createChain().mount('/nested', nested).close();
+
+      expect(destroyed).toBe(true);
+    });
+  });
+
+  describe('init', () => {
+    const withInit = (name: string, onInit: () => Promise<void> | void) => ({
+      name,
+      onInit,
+      handler: async (_ctx: unknown, next: NextFunction) => {
+        await next();
+        return { done: false as const };
+      },
+    });
+
+    it('should report readiness status', async () => {
+      const chain = createChain().use(withInit('db', async () => {}));
+
+      expect(chain.status).toBe('idle');
+      expect(chain.ready).toBe(false);
+
+      const pending = chain.init();
+      expect(chain.status).toBe('initializing');
+
+      await pending;
+      expect(chain.status).toBe('ready');
+      expect(chain.ready).toBe(true);
+    });
+
+    it('should run onInit once for concurrent first requests', async () => {
+      let count = 0;
+      const chain = createChain().use(
+        withInit('slow-init', async () => {
+          count++;
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        })
+      );
+
+      await Promise.all([
+        chain.handle(new Request('http://localhost/1')),
+        chain.handle(new Request('http://localhost/2')),
+        chain.init(),
+      ]);
+
+      expect(count).toBe(1);
+    });
+
+    it('should wrap onInit errors in InitializationError', async () => {
+      const chain = createChain().use(
+        withInit('db', () => {
+          throw new Error('connection refused');
+        })
+      );
+
+      const error = await chain.init().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InitializationError);
+      expect((error as InitializationError).middleware).toBe('db');
+      expect((error as InitializationError).message).toBe(
+        'Middleware "db" failed to initialize: connection refused'
+      );
+      expect(chain.status).toBe('failed');
+    });
+
+    it('should retry failed hooks on the next request by default', async () => {
+      let healthyCount = 0;
+      let attempts = 0;
+      const chain = createChain()
+        .use(withInit('healthy', () => {
+          healthyCount++;
+        }))
+        .use(withInit('flaky', () => {
+          attempts++;
+          if (attempts === 1) throw new Error('not yet');
+        }));
+
+      await expect(chain.handle(new Request('http://localhost/'))).rejects.toThrow('not yet');
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(200);
+      expect(attempts).toBe(2);
+      expect(healthyCount).toBe(1);
+      expect(chain.ready).toBe(true);
+    });
+
+    it('should keep failing with fail-fast policy', async () => {
+      let attempts = 0;
+      const chain = createChain({ initFailure: 'fail-fast' }).use(
+        withInit('flaky', () => {
+          attempts++;
+          if (attempts === 1) throw new Error('not yet');
+        })
+      );
+
+      await expect(chain.init()).rejects.toThrow('not yet');
+      await expect(chain.handle(new Request('http://localhost/'))).rejects.toBeInstanceOf(
+        InitializationError
+      );
+      expect(attempts).toBe(1);
+    });
+
+    it('should time out slow onInit hooks', async () => {
+      vi.useFakeTimers();
+      try {
+        const chain = createChain({ initTimeout: '1s' }).use(
+          withInit('hanging', () => new Promise(() => {}))
+        );
+
+        const result = chain.init().catch((e: unknown) => e);
+        await vi.advanceTimersByTimeAsync(1000);
+        const error = await result;
+
+        expect(error).toBeInstanceOf(InitializationError);
+        expect((error as InitializationError).cause).toBeInstanceOf(TimeoutError);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should initialize middlewares added after ready', async () => {
+      let lateInit = false;
+      const chain = createChain();
+      await chain.init();
+
+      chain.use(withInit('late', () => {
+        lateInit = true;
+      }));
+      expect(chain.ready).toBe(false);
+
+      await chain.handle(new Request('http://localhost/'));
+      expect(lateInit).toBe(true);
+      expect(chain.ready).toBe(true);
+    });
+
+    it('should be closed after close()', async () => {
+      const chain = createChain();
+      await chain.close();
+
+      expect(chain.status).toBe('closed');
+      await expect(chain.init()).rejects.toThrow('Cannot initialize a closed chain');
+    });
+  });
+
+  describe('events', () => {
+    it('should emit start and end events per middleware', async () => {
+      const events: string[] = [];
+
+      const chain = createChain()
+        .use({
+          name: 'first',
+          handler: async (_ctx, next) => {
+            await next();
+            return { done: false };
+          },
+        })
+        .use({
+          name: 'second',
+          handler: async (_ctx, next) => {
+            await next();
+            return { done: false };
+          },
+        });
+
+      chain.on('middleware:start', (e) => events.push(`start:${e.name}:${e.index}`));
+      chain.on('middleware:end', (e) => events.push(`end:${e.name}:${e.index}`));
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(events).toEqual(['start:first:0', 'start:second:1', 'end:second:1', 'end:first:0']);
+    });
+
+    it('should include request ID and timings', async () => {
+      const listener = vi.fn();
+      const chain = createChain().use(async (_ctx, next) => {
+        await next();
+        return { done: false };
+      });
+      chain.on('middleware:end', listener);
+
+      const response = await chain.handle(
+        new Request('http://localhost/', { headers: { 'X-Request-ID': 'req-1' } })
+      );
+
+      expect(response.status).toBe(200);
+      const event = listener.mock.calls[0]?.[0];
+      expect(event.requestId).toBe('req-1');
+      expect(event.duration).toBeGreaterThanOrEqual(0);
+      expect(typeof event.startTime).toBe('number');
+    });
+
+    it('should emit short-circuit with the response', async () => {
+      const shortCircuit = vi.fn();
+      const end = vi.fn();
+
+      const chain = createChain()
+        .use({
+          name: 'outer',
+          handler: async (_ctx, next) => {
+            await next();
+            return { done: false };
+          },
+        })
+        .use({
+          name: 'guard',
+          handler: async () => ({
+            done: true,
+            response: new Response('Forbidden', { status: 403 }),
+          }),
+        });
+
+      chain.on('short-circuit', shortCircuit);
+      chain.on('middleware:end', end);
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(shortCircuit).toHaveBeenCalledTimes(1);
+      expect(shortCircuit.mock.calls[0]?.[0].name).toBe('guard');
+      expect(shortCircuit.mock.calls[0]?.[0].response.status).toBe(403);
+      expect(end.mock.calls.map(([e]) => e.name)).toEqual(['guard', 'outer']);
+    });
+
+    it('should report errors only where they are thrown', async () => {
+      const errors = vi.fn();
+      const ends = vi.fn();
+
+      const chain = createChain()
+        .use({
+          name: 'outer',
+          handler: async (_ctx, next) => {
+            await next();
+            return { done: false };
+          },
+        })
+        .use({
+          name: 'failing',
+          handler: async () => {
+            throw new Error('boom');
+          },
+        });
+
+      chain.on('middleware:error', errors);
+      chain.on('middleware:end', ends);
+
+      await expect(chain.handle(new Request('http://localhost/'))).rejects.toThrow('boom');
+
+      expect(errors).toHaveBeenCalledTimes(1);
+      expect(errors.mock.calls[0]?.[0].name).toBe('failing');
+      expect(errors.mock.calls[0]?.[0].error.message).toBe('boom');
+      expect(ends.mock.calls.map(([e]) => e.name)).toEqual(['outer']);
+    });
+
+    it('should emit request:end with the final status', async () => {
+      const listener = vi.fn();
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setStatus(201);
+        await next();
+        return { done: false };
+      });
+      chain.on('request:end', listener);
+
+      await chain.handle(new Request('http://localhost/items', { method: 'POST' }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0]?.[0].status).toBe(201);
+      expect(listener.mock.calls[0]?.[0].meta.method).toBe('POST');
+    });
+
+    it('should emit request:end with status 500 when the chain throws', async () => {
+      const listener = vi.fn();
+      const chain = createChain().use(async () => {
+        throw new Error('boom');
+      });
+      chain.on('request:end', listener);
+
+      await expect(chain.handle(new Request('http://localhost/'))).rejects.toThrow('boom');
+
+      expect(listener.mock.calls[0]?.[0].status).toBe(500);
+      expect(listener.mock.calls[0]?.[0].error.message).toBe('boom');
+    });
+
+    it('should stop emitting after off() or unsubscribe', async () => {
+      const listener = vi.fn();
+      const other = vi.fn();
+      const chain = createChain().use(async (_ctx, next) => {
+        await next();
+        return { done: false };
+      });
+
+      chain.on('middleware:start', listener);
+      const unsubscribe = chain.on('middleware:end', other);
+      chain.off('middleware:start', listener);
+      unsubscribe();
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should not let listener errors affect the request', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.text('ok');
+        await next();
+        return { done: false };
+      });
+      chain.on('middleware:start', () => {
+        throw new Error('listener failed');
+      });
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(await response.text()).toBe('ok');
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('error mapping', () => {
+    class NotFoundError extends Error {
+      constructor(public readonly resource: string) {
+        super(`${resource} not found`);
+      }
+    }
+
+    const throwing = (error: unknown) => async () => {
+      throw error;
+    };
+
+    it('should rethrow without onError or a matching mapping', async () => {
+      const chain = createChain().use(throwing(new Error('boom')));
+
+      await expect(chain.handle(new Request('http://localhost/'))).rejects.toThrow('boom');
+    });
+
+    it('should turn errors into a response with onError', async () => {
+      const onError = vi.fn((error: unknown, ctx: { meta: { id: string } }) =>
+        Response.json({ message: (error as Error).message, id: ctx.meta.id }, { status: 500 })
+      );
+      const chain = createChain({ onError }).use(throwing(new Error('boom')));
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        message: 'boom',
+        id: onError.mock.calls[0]![1].meta.id,
+      });
+    });
+
+    it('should use the mapping of the closest error class', async () => {
+      const chain = createChain({ onError: () => new Response('fallback', { status: 500 }) })
+        .mapError(MiddlewareError, (error) =>
+          Response.json({ code: error.code }, { status: error.statusCode })
+        )
+        .mapError(AuthenticationError, () => new Response('login', { status: 401 }))
+        .mapError(NotFoundError, (error) =>
+          Response.json({ missing: error.resource }, { status: 404 })
+        );
+
+      const respond = (error: unknown) =>
+        chain.clone().use(throwing(error)).handle(new Request('http://localhost/'));
+
+      expect(await (await respond(new AuthenticationError())).text()).toBe('login');
+      expect((await respond(new TimeoutError(100))).status).toBe(408);
+      expect(await (await respond(new NotFoundError('user'))).json()).toEqual({ missing: 'user' });
+      expect(await (await respond(new Error('other'))).text()).toBe('fallback');
+    });
+
+    it('should map errors thrown from onInit by their original class', async () => {
+      const chain = createChain()
+        .mapError(NotFoundError, (error) => new Response(error.message, { status: 503 }))
+        .use({
+          name: 'db',
+          onInit: () => {
+            throw new NotFoundError('database');
+          },
+          handler: async (_ctx, next) => {
+            await next();
+            return { done: false };
+          },
+        });
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(503);
+      expect(await response.text()).toBe('database not found');
+      expect(chain.status).toBe('failed');
+    });
+
+    it('should pass InitializationError to onError', async () => {
+      const chain = createChain({
+        onError: (error) =>
+          new Response(error instanceof InitializationError ? error.middleware : 'other', {
+            status: 503,
+          }),
+      }).use({
+        name: 'cache',
+        onInit: () => {
+          throw new Error('unreachable');
+        },
+        handler: async (_ctx, next) => {
+          await next();
+          return { done: false };
+        },
+      });
+
+      expect(await (await chain.handle(new Request('http://localhost/'))).text()).toBe('cache');
+    });
+
+    it('should fall back to a 500 response when the mapper throws', async () => {
+      const chain = createChain({
+        onError: () => {
+          throw new Error('mapper failed');
+        },
+      }).use(throwing(new Error('boom')));
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: 'Internal Server Error',
+        code: 'INTERNAL_ERROR',
+      });
+    });
+
+    it('should report the mapped status and the error in request:end', async () => {
+      const listener = vi.fn();
+      const error = new Error('boom');
+      const chain = createChain({ onError: () => new Response(null, { status: 502 }) }).use(
+        throwing(error)
+      );
+      chain.on('request:end', listener);
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ status: 502, error }));
+    });
+
+    it('should keep mappings when cloned', async () => {
+      const chain = createChain().mapError(
+        NotFoundError,
+        () => new Response(null, { status: 404 })
+      );
+
+      const response = await chain
+        .clone()
+        .use(throwing(new NotFoundError('user')))
+        .handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('dependencies', () => {
+    const declared = (name: string, metadata: Partial<Middleware> = {}): Middleware => ({
+      name,
+      ...metadata,
+      handler: async (_ctx, next) => {
+        await next();
+        return { done: false };
+      },
+    });
+
+    it('should reject a middleware registered before the provider it requires', () => {
+      const chain = createChain().use(declared('admin-only', { requires: ['user'] }));
+
+      expect(() => chain.use(declared('session', { provides: ['user'] }))).toThrow(
+        'admin-only requires user after session'
+      );
+      // The rejected middleware is not added
+      expect(chain.getMiddlewares().map((mw) => mw.name)).toEqual(['admin-only']);
+    });
+
+    it('should accept requirements met by an earlier provider', async () => {
+      const chain = createChain()
+        .use(declared('session', { provides: ['user'] }))
+        .use(declared('admin-only', { requires: ['user'] }));
+
+      expect(() => chain.validate()).not.toThrow();
+      await expect(chain.init()).resolves.toBeUndefined();
+    });
+
+    it('should report requirements nobody provides at init', async () => {
+      const chain = createChain().use(declared('admin-only', { requires: ['user'] }));
+
+      expect(() => chain.validate()).toThrow(
+        'admin-only requires user, but no middleware in the chain provides it'
+      );
+      await expect(chain.init()).rejects.toBeInstanceOf(DependencyError);
+      await expect(chain.handle(new Request('http://localhost/'))).rejects.toThrow(DependencyError);
+    });
+
+    it('should enforce before and after declarations', () => {
+      expect(() =>
+        createChain()
+          .use(declared('logger'))
+          .use(declared('error-handler', { before: ['logger'] }))
+      ).toThrow('error-handler must run before logger');
+
+      expect(() =>
+        createChain().use(declared('cache', { after: ['auth'] }), declared('auth'))
+      ).toThrow('cache must run after auth');
+
+      // Declarations about absent middlewares are ignored
+      expect(() =>
+        createChain()
+          .use(declared('cache', { after: ['auth'] }))
+          .validate()
+      ).not.toThrow();
+    });
+
+    it('should require validator to run after body-parser', () => {
+      const validate = validator({ body: z.object({ name: z.string() }) });
+
+      expect(() => createChain().use(validate).use(bodyParser())).toThrow(
+        'validator must run after body-parser'
+      );
+      expect(() => createChain().use(bodyParser()).use(validate)).not.toThrow();
+    });
+
+    it('should expose the declarations of mounted chains', () => {
+      const api = createChain().use(declared('admin-only', { requires: ['user'] }));
+
+      expect(() =>
+        createChain()
+          .mount('/api', api)
+          .use(declared('session', { provides: ['user'] }))
+      ).toThrow('mount:/api requires user after session');
+      expect(() =>
+        createChain()
+          .use(declared('session', { provides: ['user'] }))
+          .mount('/api', api)
+          .validate()
+      ).not.toThrow();
+    });
+  });
+
+  describe('positional editing', () => {
+    const tagged = (name: string): Middleware => ({
+      name,
+      handler: async (ctx, next) => {
+        ctx.response.appendHeader('X-Order', name);
+        await next();
+        return { done: false };
+      },
+    });
+
+    const names = (chain: MiddlewareChain) => chain.getMiddlewares().map((mw) => mw.name);
+
+    const createBaseChain = () =>
+      createChain().use(tagged('logger'), tagged('auth'), tagged('compress'));
+
+    it('should insert middlewares before and after a named middleware', async () => {
+      const chain = createBaseChain()
+        .insertBefore('auth', tagged('cors'), tagged('rate-limit'))
+        .insertAfter('auth', tagged('audit'));
+
+      expect(names(chain)).toEqual(['logger', 'cors', 'rate-limit', 'auth', 'audit', 'compress']);
+      const response = await chain.handle(new Request('http://localhost/'));
+      expect(response.headers.get('X-Order')).toBe(
+        'logger, cors, rate-limit, auth, audit, compress'
+      );
+    });
+
+    it('should replace and remove named middlewares', () => {
+      const chain = createBaseChain().replace('logger', tagged('my-logger')).remove('compress');
+
+      expect(names(chain)).toEqual(['my-logger', 'auth']);
+    });
+
+    it('should leave the original untouched when editing a clone', () => {
+      const base = createBaseChain();
+      const custom = base.clone().remove('auth');
+
+      expect(names(base)).toEqual(['logger', 'auth', 'compress']);
+      expect(names(custom)).toEqual(['logger', 'compress']);
+    });
+
+    it('should reject unknown and ambiguous names', () => {
+      const chain = createBaseChain().use(tagged('auth'));
+
+      expect(() => chain.remove('cors')).toThrow('No middleware named "cors" in the chain');
+      expect(() => chain.insertBefore('auth', tagged('cors'))).toThrow(
+        'Middleware name "auth" is ambiguous: 2 middlewares share it'
+      );
+      expect(names(chain)).toEqual(['logger', 'auth', 'compress', 'auth']);
+    });
+
+    it('should check dependency declarations', () => {
+      const chain = createChain().use(bodyParser(), validator({ body: z.object({}) }));
+
+      expect(() => chain.insertBefore('body-parser', validator({ query: z.object({}) }))).toThrow(
+        DependencyError
+      );
+      expect(names(chain)).toEqual(['body-parser', 'validator']);
+    });
+
+    it('should keep anonymous names stable when middlewares are removed', () => {
+      const handler = async (_ctx: unknown, next: NextFunction) => {
+        await next();
+        return { done: false as const };
+      };
+      const chain = createChain().use(handler, handler, handler).remove('anonymous-1');
+
+      chain.use(handler);
+      expect(names(chain)).toEqual(['anonymous-0', 'anonymous-2', 'anonymous-3']);
+
+      const cloned = chain.clone().use(handler);
+      expect(names(cloned)).toEqual(['anonymous-0', 'anonymous-2', 'anonymous-3', 'anonymous-1']);
+    });
+
+    it('should require initialization of inserted middlewares', async () => {
+      const onInit = vi.fn();
+      const chain = createBaseChain();
+      await chain.init();
+
+      chain.insertAfter('logger', { ...tagged('session'), onInit });
+
+      expect(chain.status).toBe('idle');
+      await chain.handle(new Request('http://localhost/'));
+      expect(onInit).toHaveBeenCalledTimes(1);
+    });
+  });
 });
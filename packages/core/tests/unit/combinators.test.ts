@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import { when, unless, forMethods, forPaths } from '../../src/combinators.js';
+import { createChain } from '../../src/chain.js';
+import type { Middleware } from '../../src/types.js';
+
+function marker(calls: string[]): Middleware {
+  return {
+    name: 'marker',
+    handler: async (ctx, next) => {
+      calls.push(ctx.meta.url.pathname);
+      ctx.response.setHeader('X-Marked', 'yes');
+      await next();
+      return { done: false };
+    },
+  };
+}
+
+/**
+ * Paths among `pathnames` for which forPaths() runs the wrapped middleware.
+ */
+async function matching(glob: string, pathnames: string[]): Promise<string[]> {
+  const calls: string[] = [];
+  const chain = createChain().use(forPaths(glob, marker(calls)));
+  for (const pathname of pathnames) {
+    await chain.handle(new Request(`http://localhost${pathname}`));
+  }
+  return calls;
+}
+
+describe('Combinators', () => {
+  describe('when', () => {
+    it('should run middleware when predicate is true', async () => {
+      const calls: string[] = [];
+      const chain = createChain().use(
+        when((ctx) => ctx.request.headers.has('X-Debug'), marker(calls))
+      );
+
+      await chain.handle(new Request('http://localhost/a', { headers: { 'X-Debug': '1' } }));
+      await chain.handle(new Request('http://localhost/b'));
+
+      expect(calls).toEqual(['/a']);
+    });
+
+    it('should support async predicates', async () => {
+      const calls: string[] = [];
+      const chain = createChain().use(when(async () => true, marker(calls)));
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(calls).toEqual(['/']);
+    });
+
+    it('should match path globs', async () => {
+      const calls: string[] = [];
+      const chain = createChain().use(when('/api/**', marker(calls)));
+
+      await chain.handle(new Request('http://localhost/api'));
+      await chain.handle(new Request('http://localhost/api/users/42'));
+      await chain.handle(new Request('http://localhost/health'));
+
+      expect(calls).toEqual(['/api', '/api/users/42']);
+    });
+
+    it('should continue the chain when skipped', async () => {
+      const chain = createChain()
+        .use(
+          when('/never', async (ctx) => {
+            ctx.response.setStatus(401);
+            return { done: true, response: ctx.response.build() };
+          })
+        )
+        .use(async (ctx, next) => {
+          ctx.response.text('reached');
+          await next();
+          return { done: false };
+        });
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(await response.text()).toBe('reached');
+    });
+
+    it('should keep name and lifecycle hooks', () => {
+      const onInit = () => {};
+      const onDestroy = () => {};
+      const wrapped = when('/x', { ...marker([]), onInit, onDestroy });
+
+      expect(wrapped.name).toBe('marker');
+      expect(wrapped.onInit).toBe(onInit);
+      expect(wrapped.onDestroy).toBe(onDestroy);
+    });
+
+    it('should name bare handlers after the function', () => {
+      const wrapped = when('/x', async function audit(_ctx, next) {
+        await next();
+        return { done: false };
+      });
+
+      expect(wrapped.name).toBe('when(audit)');
+    });
+
+    it('should name anonymous handlers the same in every wrapper', () => {
+      const handler = () =>
+        when('/a', async (_ctx, next) => {
+          await next();
+          return { done: false };
+        });
+      const chain = createChain().use(handler(), handler());
+
+      expect(chain.getMiddlewares().map((mw) => mw.name)).toEqual([
+        'when(anonymous)',
+        'when(anonymous)',
+      ]);
+      expect(() => chain.insertBefore('when(anonymous)', marker([]))).toThrow(
+        'Middleware name "when(anonymous)" is ambiguous: 2 middlewares share it'
+      );
+    });
+  });
+
+  describe('unless', () => {
+    it('should skip middleware for matching paths', async () => {
+      const calls: string[] = [];
+      const chain = createChain().use(unless(['/health', '/metrics'], marker(calls)));
+
+      await chain.handle(new Request('http://localhost/health'));
+      await chain.handle(new Request('http://localhost/metrics'));
+      await chain.handle(new Request('http://localhost/api/users'));
+
+      expect(calls).toEqual(['/api/users']);
+    });
+
+    it('should skip middleware when predicate is true', async () => {
+      const calls: string[] = [];
+      const chain = createChain().use(unless(() => true, marker(calls)));
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(calls).toEqual([]);
+    });
+  });
+
+  describe('forMethods', () => {
+    it('should name bare handlers after the combinator', () => {
+      const wrapped = forMethods(['POST'], async function parse(_ctx, next) {
+        await next();
+        return { done: false };
+      });
+
+      expect(wrapped.name).toBe('forMethods(parse)');
+    });
+
+    it('should run middleware only for listed methods', async () => {
+      const calls: string[] = [];
+      const chain = createChain().use(forMethods(['post', 'PUT'], marker(calls)));
+
+      await chain.handle(new Request('http://localhost/get'));
+      await chain.handle(new Request('http://localhost/post', { method: 'POST' }));
+      await chain.handle(new Request('http://localhost/put', { method: 'PUT' }));
+
+      expect(calls).toEqual(['/post', '/put']);
+    });
+  });
+
+  describe('forPaths', () => {
+    it('should match single-segment wildcards', async () => {
+      const calls: string[] = [];
+      const chain = createChain().use(forPaths('/users/*', marker(calls)));
+
+      await chain.handle(new Request('http://localhost/users/1'));
+      await chain.handle(new Request('http://localhost/users/1/posts'));
+
+      expect(calls).toEqual(['/users/1']);
+    });
+
+    it('should match exact paths with an optional trailing slash', async () => {
+      expect(await matching('/health', ['/health', '/health/', '/healthz'])).toEqual([
+        '/health',
+        '/health/',
+      ]);
+    });
+
+    it('should match wildcards within a segment', async () => {
+      expect(await matching('/files/*.txt', ['/files/a.txt', '/files/a.json'])).toEqual([
+        '/files/a.txt',
+      ]);
+    });
+
+    it('should match any depth with **', async () => {
+      expect(await matching('/api/**', ['/api', '/api/v1/users', '/apiv2'])).toEqual([
+        '/api',
+        '/api/v1/users',
+      ]);
+      expect(await matching('/**', ['/anything/at/all'])).toEqual(['/anything/at/all']);
+    });
+  });
+});
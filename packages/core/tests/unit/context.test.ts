@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createContext } from '../../src/context.js';
+import { createContext, abortContext } from '../../src/context.js';
 
 describe('Context', () => {
   describe('createContext', () => {
@@ -152,22 +152,22 @@ describe('Context', () => {
       expect(ctx.meta.startTime).toBeLessThanOrEqual(after);
     });
 
-    it('should extract client IP from x-forwarded-for', () => {
+    it('should ignore client IP headers without trustProxy', () => {
       const req = new Request('http://localhost/test', {
-        headers: { 'x-forwarded-for': '192.168.1.1, 10.0.0.1' },
+        headers: { 'x-forwarded-for': '192.168.1.1, 10.0.0.1', 'cf-connecting-ip': '203.0.113.50' },
       });
-      const ctx = createContext(req);
+      const ctx = createContext(req, {}, { remoteAddress: '::ffff:198.51.100.7' });
 
-      expect(ctx.meta.ip).toBe('192.168.1.1');
+      expect(ctx.meta.ip).toBe('198.51.100.7');
     });
 
-    it('should extract client IP from cf-connecting-ip', () => {
+    it('should read x-forwarded-for from trusted proxies', () => {
       const req = new Request('http://localhost/test', {
-        headers: { 'cf-connecting-ip': '203.0.113.50' },
+        headers: { 'x-forwarded-for': '192.168.1.1, 10.0.0.1' },
       });
-      const ctx = createContext(req);
+      const ctx = createContext(req, {}, { trustProxy: true, remoteAddress: '10.0.0.2' });
 
-      expect(ctx.meta.ip).toBe('203.0.113.50');
+      expect(ctx.meta.ip).toBe('192.168.1.1');
     });
 
     it('should return undefined for missing IP', () => {
@@ -209,4 +209,49 @@ describe('Context', () => {
       expect(response.status).toBe(200);
     });
   });
+
+  describe('signal', () => {
+    it('should provide a signal that is not aborted', () => {
+      const ctx = createContext(new Request('http://localhost/'));
+
+      expect(ctx.signal).toBeInstanceOf(AbortSignal);
+      expect(ctx.signal.aborted).toBe(false);
+    });
+
+    it('should follow request.signal', () => {
+      const controller = new AbortController();
+      const ctx = createContext(new Request('http://localhost/', { signal: controller.signal }));
+
+      controller.abort(new Error('client gone'));
+
+      expect(ctx.signal.aborted).toBe(true);
+    });
+
+    it('should be aborted if the request already was', () => {
+      const controller = new AbortController();
+      controller.abort();
+      const ctx = createContext(new Request('http://localhost/', { signal: controller.signal }));
+
+      expect(ctx.signal.aborted).toBe(true);
+    });
+
+    it('should abort with a reason via abortContext', () => {
+      const ctx = createContext(new Request('http://localhost/'));
+      const reason = new Error('stop');
+
+      abortContext(ctx, reason);
+
+      expect(ctx.signal.aborted).toBe(true);
+      expect(ctx.signal.reason).toBe(reason);
+    });
+
+    it('should abort copies of the context', () => {
+      const ctx = createContext(new Request('http://localhost/'));
+      const copy = { ...ctx, meta: { ...ctx.meta } };
+
+      abortContext(copy);
+
+      expect(ctx.signal.aborted).toBe(true);
+    });
+  });
 });
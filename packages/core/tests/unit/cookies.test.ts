@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCookieJar,
+  signCookieValue,
+  unsignCookieValue,
+  encryptCookieValue,
+  decryptCookieValue,
+} from '../../src/cookies.js';
+import { createResponseBuilder } from '../../src/response.js';
+import { createChain } from '../../src/chain.js';
+
+describe('Cookies', () => {
+  describe('createCookieJar', () => {
+    it('should read cookies from the header', () => {
+      const jar = createCookieJar('theme=dark; lang=en');
+
+      expect(jar.get('theme')).toBe('dark');
+      expect(jar.get('missing')).toBeUndefined();
+      expect(jar.has('lang')).toBe(true);
+      expect(jar.getAll()).toEqual({ theme: 'dark', lang: 'en' });
+    });
+
+    it('should not resolve missing cookies to Object.prototype members', async () => {
+      const jar = createCookieJar('theme=dark', ['secret']);
+
+      expect(jar.has('toString')).toBe(false);
+      expect(jar.get('constructor')).toBeUndefined();
+      expect(await jar.getSigned('hasOwnProperty')).toBeUndefined();
+      expect(await jar.getEncrypted('valueOf')).toBeUndefined();
+
+      const named = createCookieJar('constructor=abc');
+      expect(named.has('constructor')).toBe(true);
+      expect(named.get('constructor')).toBe('abc');
+    });
+
+    it('should verify signed cookies', async () => {
+      const signed = await signCookieValue('uid', '42', 'secret');
+      const jar = createCookieJar(`uid=${signed}; other=${signed}`, ['secret']);
+
+      expect(await jar.getSigned('uid')).toBe('42');
+      // Signatures are bound to the cookie name
+      expect(await jar.getSigned('other')).toBeUndefined();
+      expect(await jar.getSigned('missing')).toBeUndefined();
+    });
+
+    it('should decrypt encrypted cookies', async () => {
+      const encrypted = await encryptCookieValue('session', 'user=1', 'secret');
+      const jar = createCookieJar(`session=${encrypted}`, ['secret']);
+
+      expect(await jar.getEncrypted('session')).toBe('user=1');
+      expect(await createCookieJar(`session=${encrypted}`, ['other']).getEncrypted('session')).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe('signing', () => {
+    it('should reject tampered values', async () => {
+      const signed = await signCookieValue('uid', '42', 'secret');
+
+      expect(await unsignCookieValue('uid', signed.replace('42', '43'), ['secret'])).toBeUndefined();
+      expect(await unsignCookieValue('uid', '42', ['secret'])).toBeUndefined();
+      expect(await unsignCookieValue('uid', '42.!!', ['secret'])).toBeUndefined();
+    });
+
+    it('should accept values signed with a rotated-out secret', async () => {
+      const signed = await signCookieValue('uid', '42', 'old');
+
+      expect(await unsignCookieValue('uid', signed, ['new', 'old'])).toBe('42');
+      expect(await unsignCookieValue('uid', signed, ['new'])).toBeUndefined();
+    });
+  });
+
+  describe('encryption', () => {
+    it('should hide the value and use a fresh IV each time', async () => {
+      const a = await encryptCookieValue('session', 'secret-data', 'key');
+      const b = await encryptCookieValue('session', 'secret-data', 'key');
+
+      expect(a).not.toContain('secret-data');
+      expect(a).not.toBe(b);
+    });
+
+    it('should reject tampered values and other cookie names', async () => {
+      const encrypted = await encryptCookieValue('session', 'data', 'key');
+      const flipped = encrypted[20] === 'A' ? 'B' : 'A';
+      const tampered = `${encrypted.slice(0, 20)}${flipped}${encrypted.slice(21)}`;
+
+      expect(await decryptCookieValue('session', tampered, ['key'])).toBeUndefined();
+      expect(await decryptCookieValue('other', encrypted, ['key'])).toBeUndefined();
+      expect(await decryptCookieValue('session', 'short', ['key'])).toBeUndefined();
+    });
+
+    it('should decrypt with a rotated-out secret', async () => {
+      const encrypted = await encryptCookieValue('session', 'data', 'old');
+
+      expect(await decryptCookieValue('session', encrypted, ['new', 'old'])).toBe('data');
+    });
+  });
+
+  describe('ResponseBuilder', () => {
+    it('should keep every Set-Cookie header', () => {
+      const response = createResponseBuilder()
+        .setCookie('a', '1')
+        .setCookie('b', '2', { httpOnly: true })
+        .build();
+
+      expect(response.headers.getSetCookie()).toEqual(['a=1; Path=/', 'b=2; Path=/; HttpOnly']);
+    });
+
+    it('should expire cookies with clearCookie()', () => {
+      const builder = createResponseBuilder().clearCookie('session', { path: '/app' });
+
+      expect(builder.headers.get('Set-Cookie')).toBe(
+        'session=; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Path=/app'
+      );
+    });
+
+    it('should sign and encrypt with the first secret', async () => {
+      const builder = createResponseBuilder({ cookieSecrets: ['new', 'old'] });
+      await builder.setSignedCookie('uid', '42');
+      await builder.setEncryptedCookie('session', 'data');
+
+      const [uid, session] = builder.headers
+        .getSetCookie()
+        .map((cookie) => decodeURIComponent(cookie.split(';')[0]!.split('=').slice(1).join('=')));
+
+      expect(await unsignCookieValue('uid', uid!, ['new'])).toBe('42');
+      expect(await decryptCookieValue('session', session!, ['new'])).toBe('data');
+    });
+
+    it('should throw without cookie secrets', async () => {
+      await expect(createResponseBuilder().setSignedCookie('uid', '42')).rejects.toThrow(
+        'cookies.secrets'
+      );
+    });
+  });
+
+  describe('with a chain', () => {
+    it('should round-trip signed and encrypted cookies using cookies.secrets', async () => {
+      const chain = createChain({ cookies: { secrets: ['s3cret'] } }).use(async (ctx, next) => {
+        if (ctx.meta.url.pathname === '/login') {
+          await ctx.response.setSignedCookie('uid', '42', { httpOnly: true });
+          await ctx.response.setEncryptedCookie('session', 'role=admin', { httpOnly: true });
+          ctx.response.text('ok');
+        } else {
+          ctx.response.json({
+            uid: await ctx.cookies.getSigned('uid'),
+            session: await ctx.cookies.getEncrypted('session'),
+          });
+        }
+        await next();
+        return { done: false };
+      });
+
+      const login = await chain.handle(new Request('http://localhost/login'));
+      const cookie = login.headers
+        .getSetCookie()
+        .map((header) => header.split(';')[0])
+        .join('; ');
+
+      const me = await chain.handle(
+        new Request('http://localhost/me', { headers: { Cookie: cookie } })
+      );
+
+      expect(await me.json()).toEqual({ uid: '42', session: 'role=admin' });
+    });
+  });
+});
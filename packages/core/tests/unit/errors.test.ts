@@ -5,11 +5,19 @@ import {
   AuthenticationError,
   RateLimitError,
   TimeoutError,
+  InitializationError,
+  DependencyError,
+  PayloadTooLargeError,
+  NextCallError,
   isMiddlewareError,
   isValidationError,
   isAuthenticationError,
   isRateLimitError,
   isTimeoutError,
+  isInitializationError,
+  isDependencyError,
+  isPayloadTooLargeError,
+  isNextCallError,
 } from '../../src/errors.js';
 
 describe('Errors', () => {
@@ -80,7 +88,7 @@ describe('Errors', () => {
         { path: ['user', 'address', 'city'], message: 'Required' },
       ];
       const error = new ValidationError(issues);
-      expect(error.errors[0].path).toEqual(['user', 'address', 'city']);
+      expect(error.errors[0]?.path).toEqual(['user', 'address', 'city']);
     });
   });
 
@@ -131,6 +139,54 @@ describe('Errors', () => {
     });
   });
 
+  describe('InitializationError', () => {
+    it('should create error with middleware name and cause', () => {
+      const cause = new Error('connection refused');
+      const error = new InitializationError('db', cause);
+      expect(error.message).toBe('Middleware "db" failed to initialize: connection refused');
+      expect(error.code).toBe('INIT_ERROR');
+      expect(error.statusCode).toBe(503);
+      expect(error.middleware).toBe('db');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should serialize with middleware name', () => {
+      const error = new InitializationError('db', 'oops');
+      expect(error.toJSON().middleware).toBe('db');
+      expect(error.message).toBe('Middleware "db" failed to initialize: oops');
+    });
+  });
+
+  describe('DependencyError', () => {
+    it('should create error with middleware name', () => {
+      const error = new DependencyError('validator', 'validator must run after body-parser');
+      expect(error.message).toBe('validator must run after body-parser');
+      expect(error.code).toBe('DEPENDENCY_ERROR');
+      expect(error.statusCode).toBe(500);
+      expect(error.toJSON().middleware).toBe('validator');
+    });
+  });
+
+  describe('PayloadTooLargeError', () => {
+    it('should create error with the limit', () => {
+      const error = new PayloadTooLargeError(1024);
+      expect(error.message).toBe('Request body exceeds limit of 1024 bytes');
+      expect(error.code).toBe('PAYLOAD_TOO_LARGE');
+      expect(error.statusCode).toBe(413);
+      expect(error.toJSON().limit).toBe(1024);
+    });
+  });
+
+  describe('NextCallError', () => {
+    it('should create error with middleware name', () => {
+      const error = new NextCallError('auth', 'Middleware "auth" called next() more than once');
+      expect(error.message).toBe('Middleware "auth" called next() more than once');
+      expect(error.code).toBe('NEXT_CALL_ERROR');
+      expect(error.statusCode).toBe(500);
+      expect(error.toJSON().middleware).toBe('auth');
+    });
+  });
+
   describe('Error type guards', () => {
     it('isMiddlewareError should identify MiddlewareError', () => {
       const error = new MiddlewareError('Test', 'CODE', 500);
@@ -161,6 +217,28 @@ describe('Errors', () => {
       expect(isTimeoutError(error)).toBe(true);
       expect(isTimeoutError(new Error('test'))).toBe(false);
     });
+
+    it('isInitializationError should identify InitializationError', () => {
+      const error = new InitializationError('db', new Error('x'));
+      expect(isInitializationError(error)).toBe(true);
+      expect(isInitializationError(new Error('test'))).toBe(false);
+    });
+
+    it('isDependencyError should identify DependencyError', () => {
+      const error = new DependencyError('auth', 'x');
+      expect(isDependencyError(error)).toBe(true);
+      expect(isDependencyError(new Error('test'))).toBe(false);
+    });
+
+    it('isPayloadTooLargeError should identify PayloadTooLargeError', () => {
+      expect(isPayloadTooLargeError(new PayloadTooLargeError(1))).toBe(true);
+      expect(isPayloadTooLargeError(new Error('test'))).toBe(false);
+    });
+
+    it('isNextCallError should identify NextCallError', () => {
+      expect(isNextCallError(new NextCallError('auth', 'x'))).toBe(true);
+      expect(isNextCallError(new Error('test'))).toBe(false);
+    });
   });
 
   describe('Error inheritance', () => {
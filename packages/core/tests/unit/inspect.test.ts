@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import { createChain } from '../../src/chain.js';
+import { createRouter } from '../../src/router.js';
+import { when, unless, forMethods } from '../../src/combinators.js';
+import { toMermaid, toDot } from '../../src/inspect.js';
+import { auth } from '../../src/middlewares/auth/index.js';
+import { bodyParser } from '../../src/middlewares/body-parser.js';
+import { rateLimit } from '../../src/middlewares/rate-limit.js';
+import type { Middleware } from '../../src/types.js';
+
+function named(name: string): Middleware {
+  return {
+    name,
+    handler: async (_ctx, next) => {
+      await next();
+      return { done: false };
+    },
+  };
+}
+
+function createAppChain() {
+  const noop = async () => ({ done: false as const });
+  const router = createRouter().get('/users/:id', noop).post('/users', named('create-user'));
+  const admin = createChain().use(named('audit')).use(router);
+
+  return createChain()
+    .use(named('logger'))
+    .use(forMethods(['POST'], bodyParser()))
+    .use(unless('/health', auth({ jwt: { secret: 'top-secret' } })))
+    .mount('/admin', admin);
+}
+
+describe('Chain introspection', () => {
+  describe('inspect', () => {
+    it('should describe middlewares, conditions, mounts and routes', () => {
+      const inspection = createAppChain().inspect();
+
+      expect(inspection.status).toBe('idle');
+      expect(inspection.middlewares.map((mw) => [mw.name, mw.kind])).toEqual([
+        ['logger', 'middleware'],
+        ['body-parser', 'middleware'],
+        ['auth', 'middleware'],
+        ['mount:/admin', 'mount'],
+      ]);
+      expect(inspection.middlewares[1]).toMatchObject({
+        condition: 'for methods POST',
+        provides: ['body'],
+      });
+      expect(inspection.middlewares[2]!.condition).toBe('unless path matches /health');
+
+      const mount = inspection.middlewares[3]!;
+      expect(mount.prefix).toBe('/admin');
+      expect(mount.children!.map((mw) => mw.name)).toEqual(['audit', 'router']);
+      expect(mount.children![1]).toMatchObject({
+        kind: 'router',
+        routes: [
+          { method: 'GET', path: '/users/:id' },
+          { method: 'POST', path: '/users' },
+        ],
+      });
+    });
+
+    it('should redact secrets and summarize functions and instances in options', () => {
+      const chain = createChain()
+        .use(auth({ jwt: { secret: 'top-secret', algorithms: ['HS256'] } }))
+        .use(auth({ apiKey: { header: 'X-API-Key', keys: ['k1'] } }))
+        .use(
+          rateLimit({
+            max: 10,
+            window: '1m',
+            keyGenerator: function byIp() {
+              return 'ip';
+            },
+          })
+        );
+
+      const [jwt, apiKey, limiter] = chain.inspect().middlewares;
+
+      expect(jwt!.options).toEqual({ jwt: { secret: '[REDACTED]', algorithms: ['HS256'] } });
+      expect(apiKey!.options).toEqual({ apiKey: '[REDACTED]' });
+      expect(limiter!.options).toMatchObject({ max: 10, keyGenerator: '[Function byIp]' });
+      expect(JSON.stringify(chain.inspect())).not.toContain('top-secret');
+    });
+
+    it('should redact credentials in custom options', () => {
+      const chain = createChain().use({
+        ...named('upstream'),
+        options: {
+          url: 'https://api.example.com',
+          authorization: 'Bearer abc',
+          api_key: 'k1',
+          auth: { user: 'admin', pass: 'pw' },
+          headers: { 'X-Custom': 'value' },
+          retries: 2,
+        },
+      });
+
+      expect(chain.inspect().middlewares[0]!.options).toEqual({
+        url: 'https://api.example.com',
+        authorization: '[REDACTED]',
+        api_key: '[REDACTED]',
+        auth: '[REDACTED]',
+        headers: '[REDACTED]',
+        retries: 2,
+      });
+    });
+
+    it('should combine nested conditions', () => {
+      const chain = createChain().use(when('/api/**', forMethods(['get'], named('cached'))));
+
+      expect(chain.inspect().middlewares[0]!.condition).toBe(
+        'when path matches /api/** and for methods GET'
+      );
+    });
+  });
+
+  describe('explain', () => {
+    it('should report skipped middlewares with a reason', async () => {
+      const explanation = await createAppChain().explain(new Request('http://localhost/health'));
+
+      expect(explanation).toMatchObject({ method: 'GET', path: '/health' });
+      expect(explanation.steps).toEqual([
+        { name: 'logger', runs: true },
+        { name: 'body-parser', runs: false, reason: 'condition not met: for methods POST' },
+        { name: 'auth', runs: false, reason: 'condition not met: unless path matches /health' },
+        { name: 'mount:/admin', runs: false, reason: 'path does not match /admin' },
+      ]);
+    });
+
+    it('should follow mounts and report the matched route', async () => {
+      const explanation = await createAppChain().explain(
+        new Request('http://localhost/admin/users', { method: 'POST' })
+      );
+
+      expect(explanation.steps[3]).toEqual({
+        name: 'mount:/admin',
+        runs: true,
+        steps: [
+          { name: 'audit', runs: true },
+          {
+            name: 'router',
+            runs: true,
+            reason: 'matches POST /users',
+            steps: [{ name: 'create-user', runs: true }],
+          },
+        ],
+      });
+    });
+
+    it('should not run handlers', async () => {
+      let calls = 0;
+      const chain = createChain().use(async (_ctx, next) => {
+        calls++;
+        await next();
+        return { done: false };
+      });
+
+      await chain.explain(new Request('http://localhost/'));
+
+      expect(calls).toBe(0);
+      expect(chain.status).toBe('idle');
+    });
+  });
+
+  describe('exporters', () => {
+    it('should export a Mermaid flowchart', () => {
+      const mermaid = toMermaid(createAppChain());
+
+      expect(mermaid.split('\n')[0]).toBe('flowchart TB');
+      expect(mermaid).toContain('n1["body-parser<br/>for methods POST"]');
+      expect(mermaid).toContain('subgraph c0["mount:/admin"]');
+      expect(mermaid).toContain('n4{{"router"}}');
+      expect(mermaid).toContain('n5(["GET /users/:id"])');
+      expect(mermaid).toContain('n2 --> n3');
+      expect(mermaid).toContain('n4 -.-> n5');
+    });
+
+    it('should export a Graphviz digraph', () => {
+      const dot = toDot(createAppChain().inspect(), { direction: 'LR' });
+
+      expect(dot.startsWith('digraph chain {\n  rankdir=LR;')).toBe(true);
+      expect(dot).toContain('n1 [label="body-parser\\nfor methods POST"];');
+      expect(dot).toContain('subgraph cluster_c0 {');
+      expect(dot).toContain('n4 [label="router", shape=hexagon];');
+      expect(dot).toContain('n4 -> n5 [style=dashed];');
+      expect(dot.endsWith('}')).toBe(true);
+    });
+
+    it('should escape labels', () => {
+      const chain = createChain().use(named('say "hi" <b>'));
+
+      expect(toMermaid(chain)).toContain('n0["say #quot;hi#quot; #lt;b#gt;"]');
+      expect(toDot(chain)).toContain('n0 [label="say \\"hi\\" <b>"];');
+    });
+  });
+});
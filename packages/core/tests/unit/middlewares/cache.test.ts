@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { cache } from '../../../src/middlewares/cache.js';
+import { createChain } from '../../../src/chain.js';
+import type { MiddlewareHandler } from '../../../src/types.js';
+
+function countingChain(handler: MiddlewareHandler, options: { maxSize?: number } = {}) {
+  let calls = 0;
+  const chain = createChain()
+    .use(cache({ ttl: '1m', ...options }))
+    .use(async (ctx, next) => {
+      calls++;
+      return handler(ctx, next);
+    });
+  return { chain, calls: () => calls };
+}
+
+describe('Cache Middleware', () => {
+  it('should serve string bodies from the cache', async () => {
+    const { chain, calls } = countingChain(async (ctx, next) => {
+      ctx.response.json({ n: 1 });
+      await next();
+      return { done: false };
+    });
+
+    const first = await chain.handle(new Request('http://localhost/a'));
+    const second = await chain.handle(new Request('http://localhost/a'));
+
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(await second.json()).toEqual({ n: 1 });
+    expect(calls()).toBe(1);
+  });
+
+  it('should cache binary bodies', async () => {
+    const { chain, calls } = countingChain(async (ctx, next) => {
+      ctx.response.body = new Uint8Array([1, 2, 3]);
+      await next();
+      return { done: false };
+    });
+
+    await chain.handle(new Request('http://localhost/bin'));
+    const second = await chain.handle(new Request('http://localhost/bin'));
+
+    expect(new Uint8Array(await second.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(calls()).toBe(1);
+  });
+
+  it('should cache streamed bodies once they are sent', async () => {
+    const { chain, calls } = countingChain(async (ctx, next) => {
+      ctx.response.stream(async (writer) => {
+        await writer.write('chunk-1,');
+        await writer.write('chunk-2');
+      }, 'text/plain');
+      await next();
+      return { done: false };
+    });
+
+    const first = await chain.handle(new Request('http://localhost/stream'));
+    expect(await first.text()).toBe('chunk-1,chunk-2');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const second = await chain.handle(new Request('http://localhost/stream'));
+
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(await second.text()).toBe('chunk-1,chunk-2');
+    expect(calls()).toBe(1);
+  });
+
+  it('should not cache streams larger than maxSize', async () => {
+    const { chain, calls } = countingChain(
+      async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          await writer.write('0123456789');
+        });
+        await next();
+        return { done: false };
+      },
+      { maxSize: 5 }
+    );
+
+    const first = await chain.handle(new Request('http://localhost/big'));
+    expect(await first.text()).toBe('0123456789');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await chain.handle(new Request('http://localhost/big'));
+
+    expect(calls()).toBe(2);
+  });
+
+  it('should never cache event streams', async () => {
+    const { chain, calls } = countingChain(async (ctx, next) => {
+      const sse = ctx.response.sse({ heartbeat: false });
+      sse.send({ data: 'live' });
+      sse.close();
+      await next();
+      return { done: false };
+    });
+
+    const first = await chain.handle(new Request('http://localhost/events'));
+    await first.text();
+    const second = await chain.handle(new Request('http://localhost/events'));
+
+    expect(first.headers.get('X-Cache')).toBeNull();
+    expect(await second.text()).toBe('data: live\n\n');
+    expect(calls()).toBe(2);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { compress } from '../../../src/middlewares/compress.js';
+import { createChain } from '../../../src/chain.js';
+
+async function gunzip(response: Response): Promise<string> {
+  const stream = response.body!.pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+describe('Compress Middleware', () => {
+  it('should compress large string bodies', async () => {
+    const text = 'hello world '.repeat(200);
+    const chain = createChain()
+      .use(compress())
+      .use(async (ctx, next) => {
+        ctx.response.text(text);
+        await next();
+        return { done: false };
+      });
+
+    const response = await chain.handle(
+      new Request('http://localhost/', { headers: { 'Accept-Encoding': 'gzip' } })
+    );
+
+    expect(response.headers.get('Content-Encoding')).toBe('gzip');
+    expect(await gunzip(response)).toBe(text);
+  });
+
+  it('should skip bodies below the threshold', async () => {
+    const chain = createChain()
+      .use(compress({ threshold: 1024 }))
+      .use(async (ctx, next) => {
+        ctx.response.text('small');
+        await next();
+        return { done: false };
+      });
+
+    const response = await chain.handle(
+      new Request('http://localhost/', { headers: { 'Accept-Encoding': 'gzip' } })
+    );
+
+    expect(response.headers.get('Content-Encoding')).toBeNull();
+    expect(await response.text()).toBe('small');
+  });
+
+  it('should compress binary bodies', async () => {
+    const bytes = new TextEncoder().encode('a'.repeat(4096));
+    const chain = createChain()
+      .use(compress())
+      .use(async (ctx, next) => {
+        ctx.response.setHeader('Content-Type', 'application/octet-stream');
+        ctx.response.body = bytes;
+        await next();
+        return { done: false };
+      });
+
+    const response = await chain.handle(
+      new Request('http://localhost/', { headers: { 'Accept-Encoding': 'gzip' } })
+    );
+
+    expect(response.headers.get('Content-Encoding')).toBe('gzip');
+    expect(await gunzip(response)).toBe('a'.repeat(4096));
+  });
+
+  it('should compress streamed bodies without buffering', async () => {
+    const chain = createChain()
+      .use(compress())
+      .use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          for (let i = 0; i < 100; i++) {
+            await writer.write(`row ${i}\n`);
+          }
+        }, 'text/csv');
+        await next();
+        return { done: false };
+      });
+
+    const response = await chain.handle(
+      new Request('http://localhost/', { headers: { 'Accept-Encoding': 'gzip' } })
+    );
+
+    expect(response.headers.get('Content-Encoding')).toBe('gzip');
+    const text = await gunzip(response);
+    expect(text.split('\n')).toHaveLength(101);
+  });
+
+  it('should skip streams with a small declared Content-Length', async () => {
+    const chain = createChain()
+      .use(compress())
+      .use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          await writer.write('tiny');
+        });
+        ctx.response.setHeader('Content-Length', '4');
+        await next();
+        return { done: false };
+      });
+
+    const response = await chain.handle(
+      new Request('http://localhost/', { headers: { 'Accept-Encoding': 'gzip' } })
+    );
+
+    expect(response.headers.get('Content-Encoding')).toBeNull();
+  });
+
+  it('should not compress event streams', async () => {
+    const chain = createChain()
+      .use(compress({ threshold: 0 }))
+      .use(async (ctx, next) => {
+        const sse = ctx.response.sse({ heartbeat: false });
+        sse.send({ data: 'x'.repeat(2048) });
+        sse.close();
+        await next();
+        return { done: false };
+      });
+
+    const response = await chain.handle(
+      new Request('http://localhost/events', { headers: { 'Accept-Encoding': 'gzip' } })
+    );
+
+    expect(response.headers.get('Content-Encoding')).toBeNull();
+    expect(await response.text()).toBe(`data: ${'x'.repeat(2048)}\n\n`);
+  });
+
+  it('should honor Accept-Encoding q-values', async () => {
+    const chain = createChain()
+      .use(compress({ encodings: ['gzip', 'deflate'] }))
+      .use(async (ctx, next) => {
+        ctx.response.text('hello world '.repeat(200));
+        await next();
+        return { done: false };
+      });
+
+    const deflate = await chain.handle(
+      new Request('http://localhost/', { headers: { 'Accept-Encoding': 'gzip;q=0.5, deflate' } })
+    );
+    const none = await chain.handle(
+      new Request('http://localhost/', { headers: { 'Accept-Encoding': 'gzip;q=0, identity' } })
+    );
+
+    expect(deflate.headers.get('Content-Encoding')).toBe('deflate');
+    expect(none.headers.get('Content-Encoding')).toBeNull();
+  });
+});
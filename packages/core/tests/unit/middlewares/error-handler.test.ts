@@ -26,6 +26,20 @@ describe('Error Handler Middleware', () => {
       expect(response.status).toBe(200);
     });
 
+    it('should pass short-circuits through', async () => {
+      const chain = createChain()
+        .use(errorHandler())
+        .use(async (ctx) => {
+          ctx.response.setStatus(401).json({ error: 'Unauthorized' });
+          return { done: true, response: ctx.response.build() };
+        });
+
+      const req = new Request('http://localhost/');
+      const response = await chain.handle(req);
+
+      expect(response.status).toBe(401);
+    });
+
     it('should catch and handle errors', async () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
@@ -313,6 +327,35 @@ describe('Error Handler Middleware', () => {
 
       consoleSpy.mockRestore();
     });
+
+    it('should negotiate the format from Accept with auto', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const chain = createChain()
+        .use(errorHandler({ format: 'auto' }))
+        .use(async () => {
+          throw new MiddlewareError('Test error', 'TEST', 400);
+        });
+
+      const browser = await chain.handle(
+        new Request('http://localhost/', {
+          headers: { Accept: 'text/html,application/xhtml+xml,*/*;q=0.8' },
+        })
+      );
+      const text = await chain.handle(
+        new Request('http://localhost/', { headers: { Accept: 'text/plain' } })
+      );
+      const unknown = await chain.handle(
+        new Request('http://localhost/', { headers: { Accept: 'image/png' } })
+      );
+
+      expect(browser.headers.get('Content-Type')).toContain('text/html');
+      expect(browser.headers.get('Vary')).toBe('Accept');
+      expect(text.headers.get('Content-Type')).toContain('text/plain');
+      expect(unknown.headers.get('Content-Type')).toContain('application/json');
+
+      consoleSpy.mockRestore();
+    });
   });
 
   describe('custom handlers', () => {
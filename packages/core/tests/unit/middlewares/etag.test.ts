@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import { etag, type ETagOptions } from '../../../src/middlewares/etag.js';
+import { compress } from '../../../src/middlewares/compress.js';
+import { createChain } from '../../../src/chain.js';
+import type { Middleware } from '../../../src/types.js';
+
+function respond(body: BodyInit | (() => BodyInit)): Middleware {
+  return {
+    name: 'respond',
+    handler: async (ctx, next) => {
+      ctx.response.body = typeof body === 'function' ? body() : body;
+      await next();
+      return { done: false };
+    },
+  };
+}
+
+function createEtagChain(body: BodyInit | (() => BodyInit), options?: ETagOptions) {
+  return createChain().use(etag(options)).use(respond(body));
+}
+
+function get(headers: Record<string, string> = {}, method = 'GET'): Request {
+  return new Request('http://localhost/doc', { method, headers });
+}
+
+describe('ETag Middleware', () => {
+  describe('generation', () => {
+    it('should set a strong ETag for string, ArrayBuffer and Uint8Array bodies', async () => {
+      const bytes = new TextEncoder().encode('{"id":1}');
+
+      const fromString = await createEtagChain('{"id":1}').handle(get());
+      const fromBuffer = await createEtagChain(() => bytes.slice().buffer).handle(get());
+      const fromBytes = await createEtagChain(() => bytes.slice()).handle(get());
+
+      const tag = fromString.headers.get('ETag');
+      expect(tag).toMatch(/^"8-/);
+      expect(fromBuffer.headers.get('ETag')).toBe(tag);
+      expect(fromBytes.headers.get('ETag')).toBe(tag);
+    });
+
+    it('should generate weak ETags', async () => {
+      const response = await createEtagChain('hello', { weak: true }).handle(get());
+
+      expect(response.headers.get('ETag')).toMatch(/^W\/"5-/);
+    });
+
+    it('should skip streamed bodies and error responses', async () => {
+      const streamed = await createEtagChain(() => new Blob(['hello']).stream()).handle(get());
+      const failed = await createChain()
+        .use(etag())
+        .use(async (ctx, next) => {
+          ctx.response.setStatus(404).text('missing');
+          await next();
+          return { done: false };
+        })
+        .handle(get());
+
+      expect(streamed.headers.get('ETag')).toBeNull();
+      expect(failed.headers.get('ETag')).toBeNull();
+    });
+
+    it('should keep an ETag set by the handler', async () => {
+      const response = await createChain()
+        .use(etag())
+        .use(async (ctx, next) => {
+          ctx.response.setHeader('ETag', '"v42"').text('hello');
+          await next();
+          return { done: false };
+        })
+        .handle(get({ 'If-None-Match': '"v42"' }));
+
+      expect(response.status).toBe(304);
+      expect(response.headers.get('ETag')).toBe('"v42"');
+    });
+  });
+
+  describe('conditional GET', () => {
+    it('should answer a matching If-None-Match with 304 and no body', async () => {
+      const chain = createEtagChain('hello');
+      const tag = (await chain.handle(get())).headers.get('ETag')!;
+
+      const response = await chain.handle(get({ 'If-None-Match': `"other", ${tag}` }));
+
+      expect(response.status).toBe(304);
+      expect(response.headers.get('ETag')).toBe(tag);
+      expect(response.headers.get('Content-Type')).toBeNull();
+      expect(await response.text()).toBe('');
+    });
+
+    it('should answer HEAD requests with 304', async () => {
+      const chain = createEtagChain('hello');
+      const tag = (await chain.handle(get())).headers.get('ETag')!;
+
+      expect((await chain.handle(get({ 'If-None-Match': tag }, 'HEAD'))).status).toBe(304);
+    });
+
+    it('should send the body when the ETag changed', async () => {
+      const response = await createEtagChain('hello').handle(get({ 'If-None-Match': '"stale"' }));
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('hello');
+    });
+
+    it('should answer If-Modified-Since using the Last-Modified header', async () => {
+      const chain = createChain()
+        .use(etag())
+        .use(async (ctx, next) => {
+          ctx.response.setHeader('Last-Modified', new Date('2024-01-01').toUTCString()).text('hi');
+          await next();
+          return { done: false };
+        });
+
+      const fresh = await chain.handle(
+        get({ 'If-Modified-Since': new Date('2024-02-01').toUTCString() })
+      );
+      const stale = await chain.handle(
+        get({ 'If-Modified-Since': new Date('2023-12-01').toUTCString() })
+      );
+
+      expect(fresh.status).toBe(304);
+      expect(stale.status).toBe(200);
+    });
+  });
+
+  describe('preconditions on unsafe methods', () => {
+    const current = { body: 'v1', lastModified: new Date('2024-01-01T00:00:00Z') };
+
+    function createUpdateChain(resource: typeof current | null = current) {
+      let updates = 0;
+      const chain = createChain()
+        .use(etag({ resolve: () => resource }))
+        .use(async (ctx, next) => {
+          updates++;
+          ctx.response.text('v2');
+          await next();
+          return { done: false };
+        });
+      return { chain, updates: () => updates };
+    }
+
+    it('should run the handler when If-Match matches', async () => {
+      const { chain, updates } = createUpdateChain();
+      const tag = (await createEtagChain('v1').handle(get())).headers.get('ETag')!;
+
+      const response = await chain.handle(get({ 'If-Match': tag }, 'PUT'));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('ETag')).not.toBe(tag);
+      expect(updates()).toBe(1);
+    });
+
+    it('should respond 412 without running the handler when If-Match fails', async () => {
+      const { chain, updates } = createUpdateChain();
+
+      const response = await chain.handle(get({ 'If-Match': '"stale"' }, 'PUT'));
+
+      expect(response.status).toBe(412);
+      expect(await response.json()).toEqual({
+        error: 'Precondition Failed',
+        code: 'PRECONDITION_FAILED',
+      });
+      expect(updates()).toBe(0);
+    });
+
+    it('should require the resource to exist for If-Match: *', async () => {
+      expect((await createUpdateChain().chain.handle(get({ 'If-Match': '*' }, 'PUT'))).status).toBe(
+        200
+      );
+      expect(
+        (await createUpdateChain(null).chain.handle(get({ 'If-Match': '*' }, 'PUT'))).status
+      ).toBe(412);
+    });
+
+    it('should enforce If-Unmodified-Since', async () => {
+      const { chain } = createUpdateChain();
+
+      const ok = await chain.handle(
+        get({ 'If-Unmodified-Since': current.lastModified.toUTCString() }, 'DELETE')
+      );
+      const changed = await chain.handle(
+        get({ 'If-Unmodified-Since': new Date('2023-12-31').toUTCString() }, 'DELETE')
+      );
+
+      expect(ok.status).toBe(200);
+      expect(changed.status).toBe(412);
+    });
+
+    it('should reject If-None-Match: * when the resource exists', async () => {
+      expect(
+        (await createUpdateChain().chain.handle(get({ 'If-None-Match': '*' }, 'PUT'))).status
+      ).toBe(412);
+      expect(
+        (await createUpdateChain(null).chain.handle(get({ 'If-None-Match': '*' }, 'PUT'))).status
+      ).toBe(200);
+    });
+  });
+
+  describe('with compress()', () => {
+    const text = 'hello world '.repeat(200);
+    const headers = { 'Accept-Encoding': 'gzip' };
+
+    it('should tag the compressed representation when placed inside compress()', async () => {
+      const chain = createChain().use(compress()).use(etag()).use(respond(text));
+      const identity = await chain.handle(get());
+      const gzipped = await chain.handle(get(headers));
+
+      const tag = gzipped.headers.get('ETag')!;
+      expect(gzipped.headers.get('Content-Encoding')).toBe('gzip');
+      expect(tag).toBe(identity.headers.get('ETag')!.replace(/"$/, '-gzip"'));
+
+      const revalidated = await chain.handle(get({ ...headers, 'If-None-Match': tag }));
+      expect(revalidated.status).toBe(304);
+      expect(revalidated.headers.get('Content-Encoding')).toBeNull();
+    });
+
+    it('should hash the compressed bytes when placed outside compress()', async () => {
+      const chain = createChain().use(etag()).use(compress()).use(respond(text));
+      const identity = await chain.handle(get());
+      const gzipped = await chain.handle(get(headers));
+
+      const tag = gzipped.headers.get('ETag')!;
+      expect(tag).not.toBe(identity.headers.get('ETag'));
+
+      const revalidated = await chain.handle(get({ ...headers, 'If-None-Match': tag }));
+      expect(revalidated.status).toBe(304);
+    });
+  });
+});
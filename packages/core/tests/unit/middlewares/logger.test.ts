@@ -244,10 +244,9 @@ describe('Logger Middleware', () => {
           return { done: false };
         });
 
-      const req = new Request('http://localhost/', {
-        headers: { 'x-forwarded-for': '192.168.1.1' },
+      await chain.handle(new Request('http://localhost/'), undefined, {
+        remoteAddress: '192.168.1.1',
       });
-      await chain.handle(req);
 
       const entry = logs[0] as { ip: string };
       expect(entry.ip).toBe('192.168.1.1');
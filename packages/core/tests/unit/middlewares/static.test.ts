@@ -0,0 +1,278 @@
+import { describe, it, expect } from 'vitest';
+import {
+  serveStatic,
+  type ServeStaticOptions,
+} from '../../../src/middlewares/static/middleware.js';
+import { MemoryFileSystem, NodeFileSystem } from '../../../src/middlewares/static/filesystem.js';
+import { createChain } from '../../../src/chain.js';
+
+const MTIME = new Date('2024-01-01T00:00:00Z');
+
+function createFs(): MemoryFileSystem {
+  const fs = new MemoryFileSystem();
+  fs.set('/public/index.html', '<h1>Home</h1>', MTIME);
+  fs.set('/public/app.js', 'console.log("app");', MTIME);
+  fs.set('/public/app.js.br', 'brotli', MTIME);
+  fs.set('/public/app.js.gz', 'gzipped', MTIME);
+  fs.set('/public/docs/index.html', '<h1>Docs</h1>', MTIME);
+  fs.set('/public/data.txt', '0123456789', MTIME);
+  fs.set('/public/.env', 'SECRET=1', MTIME);
+  return fs;
+}
+
+function createStaticChain(options: Partial<ServeStaticOptions> = {}) {
+  return createChain()
+    .use(serveStatic({ root: '/public', fs: createFs(), ...options }))
+    .use(async (ctx, next) => {
+      ctx.response.text('next');
+      await next();
+      return { done: false };
+    });
+}
+
+function get(path: string, headers: Record<string, string> = {}, method = 'GET'): Request {
+  return new Request(`http://localhost${path}`, { method, headers });
+}
+
+describe('Static Middleware', () => {
+  describe('serving files', () => {
+    it('should serve a file with content type and validators', async () => {
+      const response = await createStaticChain().handle(get('/data.txt'));
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('0123456789');
+      expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+      expect(response.headers.get('Content-Length')).toBe('10');
+      expect(response.headers.get('ETag')).toMatch(/^"a-[0-9a-f]+"$/);
+      expect(response.headers.get('Last-Modified')).toBe(MTIME.toUTCString());
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=0');
+      expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    });
+
+    it('should serve index files for directories', async () => {
+      const chain = createStaticChain();
+
+      expect(await (await chain.handle(get('/'))).text()).toBe('<h1>Home</h1>');
+      expect(await (await chain.handle(get('/docs'))).text()).toBe('<h1>Docs</h1>');
+      expect(await (await createStaticChain({ index: false }).handle(get('/docs'))).text()).toBe(
+        'next'
+      );
+    });
+
+    it('should set Cache-Control from maxAge and immutable', async () => {
+      const response = await createStaticChain({ maxAge: '1d', immutable: true }).handle(
+        get('/app.js')
+      );
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=86400, immutable');
+    });
+
+    it('should send headers without a body for HEAD', async () => {
+      const response = await createStaticChain().handle(get('/data.txt', {}, 'HEAD'));
+
+      expect(response.headers.get('Content-Length')).toBe('10');
+      expect(await response.text()).toBe('');
+    });
+
+    it('should pass missing files and other methods to the next middleware', async () => {
+      const chain = createStaticChain();
+
+      expect(await (await chain.handle(get('/missing.txt'))).text()).toBe('next');
+      expect(await (await chain.handle(get('/data.txt', {}, 'POST'))).text()).toBe('next');
+    });
+
+    it('should serve the SPA fallback for extensionless HTML requests', async () => {
+      const chain = createStaticChain({ spaFallback: 'index.html' });
+
+      const page = await chain.handle(get('/settings/profile', { Accept: 'text/html' }));
+      expect(await page.text()).toBe('<h1>Home</h1>');
+      expect(page.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+
+      expect(await (await chain.handle(get('/missing.js'))).text()).toBe('next');
+      expect(
+        await (await chain.handle(get('/api/users', { Accept: 'application/json' }))).text()
+      ).toBe('next');
+    });
+  });
+
+  describe('path safety', () => {
+    it('should reject encoded traversal', async () => {
+      const chain = createStaticChain();
+
+      for (const path of ['/docs/..%2f..%2fsecret', '/a%5c..%5csecret']) {
+        const response = await chain.handle(get(path));
+        expect(response.status).toBe(403);
+        expect(await response.json()).toEqual({ error: 'Forbidden', code: 'FORBIDDEN' });
+      }
+    });
+
+    it('should reject malformed encodings and NUL bytes', async () => {
+      const chain = createStaticChain();
+
+      expect((await chain.handle(get('/%E0%A4%A'))).status).toBe(400);
+      expect((await chain.handle(get('/data.txt%00.html'))).status).toBe(403);
+    });
+
+    it('should apply the dotfiles policy', async () => {
+      expect(await (await createStaticChain().handle(get('/.env'))).text()).toBe('next');
+      expect((await createStaticChain({ dotfiles: 'deny' }).handle(get('/.env'))).status).toBe(403);
+      expect(
+        await (await createStaticChain({ dotfiles: 'allow' }).handle(get('/.env'))).text()
+      ).toBe('SECRET=1');
+    });
+  });
+
+  describe('conditional requests', () => {
+    it('should answer If-None-Match with 304', async () => {
+      const chain = createStaticChain();
+      const etag = (await chain.handle(get('/data.txt'))).headers.get('ETag')!;
+
+      const response = await chain.handle(
+        get('/data.txt', { 'If-None-Match': `"other", W/${etag}` })
+      );
+      expect(response.status).toBe(304);
+      expect(response.headers.get('ETag')).toBe(etag);
+      expect(await response.text()).toBe('');
+
+      expect((await chain.handle(get('/data.txt', { 'If-None-Match': '"other"' }))).status).toBe(
+        200
+      );
+    });
+
+    it('should answer If-Modified-Since with 304', async () => {
+      const chain = createStaticChain();
+
+      const fresh = await chain.handle(
+        get('/data.txt', { 'If-Modified-Since': MTIME.toUTCString() })
+      );
+      const stale = await chain.handle(
+        get('/data.txt', { 'If-Modified-Since': new Date('2023-01-01').toUTCString() })
+      );
+
+      expect(fresh.status).toBe(304);
+      expect(stale.status).toBe(200);
+    });
+
+    it('should prefer If-None-Match over If-Modified-Since', async () => {
+      const response = await createStaticChain().handle(
+        get('/data.txt', { 'If-None-Match': '"other"', 'If-Modified-Since': MTIME.toUTCString() })
+      );
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('range requests', () => {
+    it('should serve a byte range with 206', async () => {
+      const chain = createStaticChain();
+
+      const response = await chain.handle(get('/data.txt', { Range: 'bytes=2-5' }));
+      expect(response.status).toBe(206);
+      expect(await response.text()).toBe('2345');
+      expect(response.headers.get('Content-Range')).toBe('bytes 2-5/10');
+      expect(response.headers.get('Content-Length')).toBe('4');
+
+      expect(await (await chain.handle(get('/data.txt', { Range: 'bytes=7-' }))).text()).toBe(
+        '789'
+      );
+      expect(await (await chain.handle(get('/data.txt', { Range: 'bytes=-3' }))).text()).toBe(
+        '789'
+      );
+    });
+
+    it('should answer unsatisfiable ranges with 416', async () => {
+      const response = await createStaticChain().handle(get('/data.txt', { Range: 'bytes=20-30' }));
+
+      expect(response.status).toBe(416);
+      expect(response.headers.get('Content-Range')).toBe('bytes */10');
+    });
+
+    it('should ignore multiple and malformed ranges', async () => {
+      const chain = createStaticChain();
+
+      expect((await chain.handle(get('/data.txt', { Range: 'bytes=0-1,4-5' }))).status).toBe(200);
+      expect((await chain.handle(get('/data.txt', { Range: 'items=0-1' }))).status).toBe(200);
+    });
+
+    it('should only honor ranges when If-Range matches', async () => {
+      const chain = createStaticChain();
+      const etag = (await chain.handle(get('/data.txt'))).headers.get('ETag')!;
+
+      const matching = await chain.handle(
+        get('/data.txt', { Range: 'bytes=0-1', 'If-Range': etag })
+      );
+      const changed = await chain.handle(
+        get('/data.txt', { Range: 'bytes=0-1', 'If-Range': '"changed"' })
+      );
+      const byDate = await chain.handle(
+        get('/data.txt', { Range: 'bytes=0-1', 'If-Range': MTIME.toUTCString() })
+      );
+
+      expect(matching.status).toBe(206);
+      expect(changed.status).toBe(200);
+      expect(await changed.text()).toBe('0123456789');
+      expect(byDate.status).toBe(206);
+    });
+  });
+
+  describe('precompressed variants', () => {
+    it('should serve the best sibling allowed by Accept-Encoding', async () => {
+      const chain = createStaticChain();
+
+      const br = await chain.handle(get('/app.js', { 'Accept-Encoding': 'gzip, br' }));
+      expect(await br.text()).toBe('brotli');
+      expect(br.headers.get('Content-Encoding')).toBe('br');
+      expect(br.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+      expect(br.headers.get('Vary')).toBe('Accept-Encoding');
+      expect(br.headers.get('Accept-Ranges')).toBeNull();
+
+      const gzip = await chain.handle(get('/app.js', { 'Accept-Encoding': 'gzip, br;q=0.5' }));
+      expect(await gzip.text()).toBe('gzipped');
+      expect(gzip.headers.get('Content-Encoding')).toBe('gzip');
+    });
+
+    it('should serve the original file without an acceptable encoding', async () => {
+      const chain = createStaticChain();
+
+      const plain = await chain.handle(get('/app.js'));
+      expect(await plain.text()).toBe('console.log("app");');
+      expect(plain.headers.get('Content-Encoding')).toBeNull();
+      expect(plain.headers.get('Vary')).toBe('Accept-Encoding');
+
+      const identity = await chain.handle(get('/app.js', { 'Accept-Encoding': 'deflate' }));
+      expect(await identity.text()).toBe('console.log("app");');
+    });
+
+    it('should use a separate ETag per variant', async () => {
+      const chain = createStaticChain();
+
+      const br = await chain.handle(get('/app.js', { 'Accept-Encoding': 'br' }));
+      const plain = await chain.handle(get('/app.js'));
+
+      expect(br.headers.get('ETag')).not.toBe(plain.headers.get('ETag'));
+    });
+
+    it('should not look for siblings when precompressed is disabled', async () => {
+      const response = await createStaticChain({ precompressed: false }).handle(
+        get('/app.js', { 'Accept-Encoding': 'br' })
+      );
+
+      expect(await response.text()).toBe('console.log("app");');
+      expect(response.headers.get('Vary')).toBeNull();
+    });
+  });
+
+  describe('NodeFileSystem', () => {
+    it('should stat and read ranges of real files', async () => {
+      const fs = new NodeFileSystem();
+      const path = new URL(import.meta.url).pathname;
+
+      const stat = await fs.stat(path);
+      expect(stat?.isDirectory).toBe(false);
+      expect(await fs.stat(`${path}.missing`)).toBeNull();
+
+      const text = await new Response(await fs.read(path, { start: 0, end: 5 })).text();
+      expect(text).toBe('import');
+    });
+  });
+});
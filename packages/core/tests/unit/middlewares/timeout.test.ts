@@ -174,4 +174,52 @@ describe('Timeout Middleware', () => {
       await expect(chain.handle(req)).rejects.toThrow('Non-timeout error');
     });
   });
+
+  describe('cancellation', () => {
+    it('should abort ctx.signal when the deadline passes', async () => {
+      let signal: AbortSignal | undefined;
+      let stopped = false;
+
+      const chain = createChain()
+        .use(timeout({ duration: 1000 }))
+        .use(async (ctx, next) => {
+          signal = ctx.signal;
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, 5000);
+            ctx.signal.addEventListener('abort', () => {
+              clearTimeout(timer);
+              stopped = true;
+              resolve();
+            });
+          });
+          await next();
+          return { done: false };
+        });
+
+      const responsePromise = chain.handle(new Request('http://localhost/'));
+      await vi.advanceTimersByTimeAsync(1000);
+      const response = await responsePromise;
+
+      expect(response.status).toBe(408);
+      expect(stopped).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should not abort ctx.signal for fast requests', async () => {
+      let signal: AbortSignal | undefined;
+
+      const chain = createChain()
+        .use(timeout({ duration: 1000 }))
+        .use(async (ctx, next) => {
+          signal = ctx.signal;
+          await next();
+          return { done: false };
+        });
+
+      await chain.handle(new Request('http://localhost/'));
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(signal?.aborted).toBe(false);
+    });
+  });
 });
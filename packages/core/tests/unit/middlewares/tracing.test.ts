@@ -0,0 +1,374 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  tracing,
+  InMemoryExporter,
+  OTLPExporter,
+  parseTraceparent,
+  formatTraceparent,
+} from '../../../src/middlewares/tracing/index.js';
+import { logger } from '../../../src/middlewares/logger.js';
+import { createChain } from '../../../src/chain.js';
+import type { MiddlewareHandler } from '../../../src/types.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+const ok: MiddlewareHandler = async (ctx, next) => {
+  ctx.response.text('ok');
+  await next();
+  return { done: false };
+};
+
+describe('Tracing Middleware', () => {
+  describe('trace context', () => {
+    it('should parse a valid traceparent', () => {
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)).toEqual({
+        traceId: TRACE_ID,
+        spanId: PARENT_ID,
+        sampled: true,
+      });
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`)?.sampled).toBe(false);
+    });
+
+    it('should reject invalid traceparent headers', () => {
+      expect(parseTraceparent(null)).toBeNull();
+      expect(parseTraceparent('garbage')).toBeNull();
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull();
+      expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01-extra`)).toBeNull();
+    });
+
+    it('should accept future versions with extra fields', () => {
+      expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-01-extra`)?.traceId).toBe(TRACE_ID);
+    });
+
+    it('should format a traceparent', () => {
+      expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, sampled: true })).toBe(
+        `00-${TRACE_ID}-${PARENT_ID}-01`
+      );
+    });
+  });
+
+  describe('server span', () => {
+    it('should start a new trace and expose IDs on meta', async () => {
+      const exporter = new InMemoryExporter();
+      let meta: { traceId?: string; spanId?: string } = {};
+
+      const chain = createChain()
+        .use(tracing({ exporter }))
+        .use(async (ctx, next) => {
+          meta = { traceId: ctx.meta.traceId, spanId: ctx.meta.spanId };
+          await next();
+          return { done: false };
+        });
+
+      const response = await chain.handle(new Request('http://localhost/users?page=2'));
+
+      expect(meta.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(meta.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(response.headers.get('traceparent')).toBe(`00-${meta.traceId}-${meta.spanId}-01`);
+
+      const [span] = exporter.getSpans();
+      expect(span).toMatchObject({
+        traceId: meta.traceId,
+        spanId: meta.spanId,
+        name: 'GET',
+        kind: 'server',
+        status: { code: 'unset' },
+        attributes: {
+          'http.request.method': 'GET',
+          'url.path': '/users',
+          'http.response.status_code': 200,
+        },
+      });
+      expect(span?.parentSpanId).toBeUndefined();
+    });
+
+    it('should continue an incoming trace', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain().use(tracing({ exporter })).use(ok);
+
+      const response = await chain.handle(
+        new Request('http://localhost/', {
+          headers: {
+            traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+            tracestate: 'vendor=abc, invalid, other=1',
+          },
+        })
+      );
+
+      const [span] = exporter.getSpans();
+      expect(span?.traceId).toBe(TRACE_ID);
+      expect(span?.parentSpanId).toBe(PARENT_ID);
+      expect(span?.traceState).toBe('vendor=abc,other=1');
+      expect(response.headers.get('traceparent')).toMatch(new RegExp(`^00-${TRACE_ID}-`));
+      expect(response.headers.get('tracestate')).toBe('vendor=abc,other=1');
+    });
+
+    it('should not export when the caller did not sample', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain().use(tracing({ exporter })).use(ok);
+
+      const response = await chain.handle(
+        new Request('http://localhost/', {
+          headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-00` },
+        })
+      );
+
+      expect(exporter.getSpans()).toHaveLength(0);
+      expect(response.headers.get('traceparent')).toMatch(/-00$/);
+    });
+
+    it('should honour sampleRate for new traces', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain().use(tracing({ exporter, sampleRate: 0 })).use(ok);
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(exporter.getSpans()).toHaveLength(0);
+    });
+
+    it('should mark thrown errors', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain()
+        .use(tracing({ exporter }))
+        .use(async () => {
+          throw new Error('boom');
+        });
+
+      await expect(chain.handle(new Request('http://localhost/'))).rejects.toThrow('boom');
+
+      const [span] = exporter.getSpans();
+      expect(span?.status).toEqual({ code: 'error', message: 'boom' });
+      expect(span?.attributes['http.response.status_code']).toBe(500);
+    });
+
+    it('should record short-circuit status', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain()
+        .use(tracing({ exporter }))
+        .use(async (ctx) => {
+          ctx.response.setStatus(401).json({ error: 'Unauthorized' });
+          return { done: true, response: ctx.response.build() };
+        });
+
+      const response = await chain.handle(new Request('http://localhost/'));
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('traceparent')).not.toBeNull();
+      expect(exporter.getSpans()[0]?.attributes['http.response.status_code']).toBe(401);
+    });
+
+    it('should use custom span names and attributes', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain()
+        .use(
+          tracing({
+            exporter,
+            spanName: (ctx) => `${ctx.meta.method} ${ctx.meta.url.pathname}`,
+            attributes: () => ({ tenant: 'acme' }),
+          })
+        )
+        .use(ok);
+
+      await chain.handle(new Request('http://localhost/orders', { method: 'POST' }));
+
+      const [span] = exporter.getSpans();
+      expect(span?.name).toBe('POST /orders');
+      expect(span?.attributes.tenant).toBe('acme');
+    });
+  });
+
+  describe('middleware spans', () => {
+    it('should create a child span per middleware', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain();
+      chain
+        .use(tracing({ exporter, chain }))
+        .use({ name: 'auth', handler: ok })
+        .use({
+          name: 'handler',
+          handler: async (ctx, next) => {
+            await next();
+            return { done: false };
+          },
+        });
+
+      await chain.handle(new Request('http://localhost/'));
+
+      const spans = exporter.getSpans();
+      const server = spans.find((span) => span.kind === 'server');
+      const children = spans.filter((span) => span.kind === 'internal');
+
+      expect(children.map((span) => span.name)).toEqual(['handler', 'auth']);
+      for (const child of children) {
+        expect(child.traceId).toBe(server?.traceId);
+        expect(child.parentSpanId).toBe(server?.spanId);
+        expect(child.endTime).toBeGreaterThanOrEqual(child.startTime);
+      }
+    });
+
+    it('should mark short-circuiting and failing middlewares', async () => {
+      const exporter = new InMemoryExporter();
+      const chain = createChain();
+      chain.use(tracing({ exporter, chain })).use({
+        name: 'guard',
+        handler: async () => ({ done: true, response: new Response(null, { status: 403 }) }),
+      });
+
+      await chain.handle(new Request('http://localhost/'));
+
+      const guard = exporter.getSpans().find((span) => span.name === 'guard');
+      expect(guard?.attributes['middleware.short_circuit']).toBe(true);
+
+      const failing = createChain();
+      failing.use(tracing({ exporter, chain: failing })).use({
+        name: 'failing',
+        handler: async () => {
+          throw new Error('db down');
+        },
+      });
+
+      await expect(failing.handle(new Request('http://localhost/'))).rejects.toThrow('db down');
+
+      const span = exporter.getSpans().find((s) => s.name === 'failing');
+      expect(span?.status).toEqual({ code: 'error', message: 'db down' });
+    });
+
+    it('should stop listening and shut down the exporter on close', async () => {
+      const exported = vi.fn(async () => {});
+      const shutdown = vi.fn(async () => {});
+      const chain = createChain();
+      chain.use(tracing({ exporter: { export: exported, shutdown }, chain })).use(ok);
+
+      await chain.handle(new Request('http://localhost/'));
+      await chain.close();
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(shutdown).toHaveBeenCalledTimes(1);
+      expect(exported).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('logger integration', () => {
+    it('should include the trace id in log entries', async () => {
+      const logs: Array<{ traceId?: string }> = [];
+      const chain = createChain()
+        .use(logger({ output: (entry) => logs.push(entry) }))
+        .use(tracing({ exporter: new InMemoryExporter() }))
+        .use(ok);
+
+      const response = await chain.handle(
+        new Request('http://localhost/', {
+          headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(logs[0]?.traceId).toBe(TRACE_ID);
+    });
+  });
+
+  describe('OTLPExporter', () => {
+    it('should send buffered spans as OTLP JSON', async () => {
+      const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+      const exporter = new OTLPExporter({
+        url: 'http://collector/v1/traces',
+        headers: { 'x-api-key': 'secret' },
+        serviceName: 'api',
+        flushInterval: 0,
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      await exporter.export([
+        {
+          traceId: TRACE_ID,
+          spanId: PARENT_ID,
+          name: 'GET',
+          kind: 'server',
+          startTime: 1000,
+          endTime: 1002.5,
+          attributes: { 'http.response.status_code': 200, 'url.path': '/' },
+          status: { code: 'unset' },
+        },
+      ]);
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      await exporter.shutdown();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('http://collector/v1/traces');
+      expect((init.headers as Record<string, string>)['x-api-key']).toBe('secret');
+
+      const body = JSON.parse(init.body as string);
+      const resourceSpans = body.resourceSpans[0];
+      expect(resourceSpans.resource.attributes).toContainEqual({
+        key: 'service.name',
+        value: { stringValue: 'api' },
+      });
+      expect(resourceSpans.scopeSpans[0].spans[0]).toMatchObject({
+        traceId: TRACE_ID,
+        spanId: PARENT_ID,
+        kind: 2,
+        startTimeUnixNano: '1000000000',
+        endTimeUnixNano: '1002500000',
+        status: { code: 0 },
+      });
+      expect(resourceSpans.scopeSpans[0].spans[0].attributes).toContainEqual({
+        key: 'http.response.status_code',
+        value: { intValue: '200' },
+      });
+    });
+
+    it('should flush when the batch is full', async () => {
+      const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+      const exporter = new OTLPExporter({
+        maxBatchSize: 1,
+        flushInterval: 0,
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      await exporter.export([
+        {
+          traceId: TRACE_ID,
+          spanId: PARENT_ID,
+          name: 'mw',
+          kind: 'internal',
+          startTime: 0,
+          endTime: 1,
+          attributes: {},
+          status: { code: 'unset' },
+        },
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log failed exports', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const exporter = new OTLPExporter({
+        flushInterval: 0,
+        fetch: (async () => new Response(null, { status: 503 })) as typeof fetch,
+      });
+
+      await exporter.export([
+        {
+          traceId: TRACE_ID,
+          spanId: PARENT_ID,
+          name: 'GET',
+          kind: 'server',
+          startTime: 0,
+          endTime: 1,
+          attributes: {},
+          status: { code: 'error' },
+        },
+      ]);
+      await exporter.shutdown();
+
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import { createChain } from '../../src/chain.js';
+import { definePlugin } from '../../src/plugin.js';
+import { InitializationError } from '../../src/errors.js';
+import type { Middleware } from '../../src/types.js';
+
+declare module '../../src/types.js' {
+  interface ContextExtensions {
+    startedAt: number;
+    tenant: string;
+  }
+  interface ResponseExtensions {
+    created(body: unknown): void;
+  }
+}
+
+function named(name: string, order: string[] = []): Middleware {
+  return {
+    name,
+    handler: async (_ctx, next) => {
+      order.push(name);
+      await next();
+      return { done: false };
+    },
+  };
+}
+
+const respond: Middleware = {
+  name: 'respond',
+  handler: async (ctx, next) => {
+    ctx.response.created({ tenant: ctx.tenant, timed: typeof ctx.startedAt === 'number' });
+    await next();
+    return { done: false };
+  },
+};
+
+const timingPlugin = definePlugin({
+  name: 'timing',
+  register(chain) {
+    chain.decorate('startedAt', () => Date.now());
+  },
+});
+
+const tenantPlugin = definePlugin<{ header: string }>({
+  name: 'tenant',
+  dependencies: [timingPlugin],
+  register(chain, options) {
+    chain
+      .decorate('tenant', (ctx) => ctx.request.headers.get(options.header) ?? 'default')
+      .decorateResponse('created', (response) => (body) => {
+        response.setStatus(201).json(body);
+      });
+  },
+});
+
+describe('Plugins', () => {
+  it('should decorate contexts and response builders', async () => {
+    const chain = createChain().use(respond).register(tenantPlugin, { header: 'X-Tenant' });
+
+    const response = await chain.handle(
+      new Request('http://localhost/', { headers: { 'X-Tenant': 'acme' } })
+    );
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ tenant: 'acme', timed: true });
+  });
+
+  it('should register plugin dependencies first and refuse duplicates', () => {
+    const chain = createChain().register(tenantPlugin, { header: 'X-Tenant' });
+
+    expect(chain.plugins).toEqual(['timing', 'tenant']);
+    expect(() => chain.register(timingPlugin)).toThrow('Plugin "timing" is already registered');
+  });
+
+  it('should require dependencies given by name', () => {
+    const plugin = definePlugin({ name: 'session', dependencies: ['cookies'], register() {} });
+
+    expect(() => createChain().register(plugin)).toThrow(
+      'Plugin "session" requires plugin "cookies"; register it first'
+    );
+  });
+
+  it('should detect circular dependencies', () => {
+    const a = definePlugin({ name: 'a', dependencies: [], register() {} });
+    const b = definePlugin({ name: 'b', dependencies: [a], register() {} });
+    a.dependencies!.push(b);
+
+    expect(() => createChain().register(a)).toThrow('Circular plugin dependency: a -> b -> a');
+  });
+
+  it('should add middlewares at named positions', async () => {
+    const order: string[] = [];
+    const plugin = definePlugin({
+      name: 'audit',
+      register(chain) {
+        chain.insertBefore('router', named('audit', order)).use(named('last', order));
+      },
+    });
+    const chain = createChain()
+      .use(named('logger', order))
+      .use(named('router', order))
+      .register(plugin);
+
+    await chain.handle(new Request('http://localhost/'));
+
+    expect(order).toEqual(['logger', 'audit', 'router', 'last']);
+  });
+
+  it('should reject decorations of built-in or already decorated properties', () => {
+    const builtIn = definePlugin({
+      name: 'bad',
+      register(chain) {
+        (chain.decorate as (name: string, factory: () => unknown) => void)('body', () => null);
+      },
+    });
+    const other = definePlugin({
+      name: 'other-timing',
+      register(chain) {
+        chain.decorate('startedAt', () => 0);
+      },
+    });
+
+    expect(() => createChain().register(builtIn)).toThrow(
+      'Plugin "bad" cannot decorate built-in context property "body"'
+    );
+    expect(() => createChain().register(timingPlugin).register(other)).toThrow(
+      'Context property "startedAt" is already decorated by plugin "timing"'
+    );
+  });
+
+  it('should leave the chain unchanged when register() throws', async () => {
+    const order: string[] = [];
+    let attempts = 0;
+    const flaky = definePlugin({
+      name: 'flaky',
+      dependencies: [timingPlugin],
+      register(chain) {
+        attempts++;
+        chain
+          .use(named('flaky', order))
+          .decorate('tenant', () => 'flaky')
+          .onInit(() => {
+            order.push('init');
+          });
+        if (attempts === 1) {
+          chain.insertBefore('missing', named('never'));
+        }
+      },
+    });
+    const chain = createChain().use(named('first', order));
+
+    expect(() => chain.register(flaky)).toThrow('No middleware named "missing" in the chain');
+    expect(chain.plugins).toEqual([]);
+    expect(chain.getMiddlewares().map((mw) => mw.name)).toEqual(['first']);
+
+    chain.register(flaky);
+    await chain.handle(new Request('http://localhost/'));
+
+    expect(chain.plugins).toEqual(['timing', 'flaky']);
+    expect(order).toEqual(['init', 'first', 'flaky']);
+  });
+
+  it('should run init hooks before middlewares and destroy hooks after them', async () => {
+    const events: string[] = [];
+    const plugin = definePlugin({
+      name: 'db',
+      register(chain) {
+        chain.onInit(() => {
+          events.push('plugin:init');
+        });
+        chain.onDestroy(() => {
+          events.push('plugin:destroy');
+        });
+      },
+    });
+    const chain = createChain()
+      .use({
+        ...named('repo'),
+        onInit: () => {
+          events.push('mw:init');
+        },
+        onDestroy: () => {
+          events.push('mw:destroy');
+        },
+      })
+      .register(plugin);
+
+    await chain.init();
+    await chain.close();
+
+    expect(events).toEqual(['plugin:init', 'mw:init', 'mw:destroy', 'plugin:destroy']);
+  });
+
+  it('should report failing plugin init hooks by plugin name', async () => {
+    const plugin = definePlugin({
+      name: 'broken',
+      register(chain) {
+        chain.onInit(() => {
+          throw new Error('no connection');
+        });
+      },
+    });
+    const chain = createChain().register(plugin);
+
+    const error = await chain.init().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InitializationError);
+    expect((error as InitializationError).middleware).toBe('plugin:broken');
+  });
+
+  it('should apply decorations of chains used as middleware', async () => {
+    const nested = createChain().use(respond).register(tenantPlugin, { header: 'X-Tenant' });
+    const chain = createChain().use(nested.toMiddleware('api'));
+
+    await chain.init();
+    const response = await chain.handle(new Request('http://localhost/'));
+
+    expect(await response.json()).toEqual({ tenant: 'default', timed: true });
+  });
+
+  it('should keep plugins, decorations and hooks when cloned', async () => {
+    const events: string[] = [];
+    const plugin = definePlugin({
+      name: 'db',
+      register(chain) {
+        chain.onInit(() => {
+          events.push('init');
+        });
+        chain.onDestroy(() => {
+          events.push('destroy');
+        });
+      },
+    });
+    const cloned = createChain()
+      .use(respond)
+      .register(tenantPlugin, { header: 'X-Tenant' })
+      .register(plugin)
+      .clone();
+
+    const response = await cloned.handle(
+      new Request('http://localhost/', { headers: { 'X-Tenant': 'acme' } })
+    );
+    await cloned.close();
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ tenant: 'acme', timed: true });
+    expect(events).toEqual(['init', 'destroy']);
+    expect(cloned.plugins).toEqual(['timing', 'tenant', 'db']);
+    expect(() => cloned.register(plugin)).toThrow('Plugin "db" is already registered');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { createChain } from '../../src/chain.js';
+import { createContext } from '../../src/context.js';
+import type { TrustProxy } from '../../src/types.js';
+
+function meta(
+  headers: Record<string, string>,
+  trustProxy: TrustProxy | undefined,
+  remoteAddress = '10.0.0.2'
+) {
+  const request = new Request('http://app.internal:8080/', { headers });
+  return createContext(request, {}, { trustProxy, remoteAddress }).meta;
+}
+
+describe('Trusted proxies', () => {
+  it('should use the socket address when the peer is not trusted', () => {
+    const result = meta(
+      { 'X-Forwarded-For': '1.2.3.4', 'X-Forwarded-Proto': 'https', 'X-Forwarded-Host': 'evil' },
+      false,
+      '::ffff:203.0.113.9'
+    );
+
+    expect(result).toMatchObject({
+      ip: '203.0.113.9',
+      protocol: 'http',
+      host: 'app.internal:8080',
+    });
+  });
+
+  it('should walk X-Forwarded-For from the right past trusted ranges', () => {
+    const headers = {
+      'X-Forwarded-For': '6.6.6.6, 198.51.100.7, 10.0.0.1',
+      'X-Forwarded-Proto': 'https',
+      'X-Forwarded-Host': 'example.com',
+    };
+
+    expect(meta(headers, 'uniquelocal')).toMatchObject({
+      ip: '198.51.100.7',
+      protocol: 'https',
+      host: 'example.com',
+    });
+    expect(meta(headers, ['10.0.0.0/8', '198.51.100.0/24']).ip).toBe('6.6.6.6');
+  });
+
+  it('should trust a number of hops', () => {
+    const headers = { 'X-Forwarded-For': '6.6.6.6, 198.51.100.7, 10.0.0.1' };
+
+    expect(meta(headers, 1).ip).toBe('10.0.0.1');
+    expect(meta(headers, 2).ip).toBe('198.51.100.7');
+    expect(meta(headers, 10).ip).toBe('6.6.6.6');
+    expect(meta(headers, 1, undefined).ip).toBe('10.0.0.1');
+  });
+
+  it('should prefer the Forwarded header and take proto and host from its element', () => {
+    const result = meta(
+      {
+        Forwarded: 'for=6.6.6.6;proto=http, for="[2001:db8::7]:1234";proto=https;host=example.com',
+        'X-Forwarded-For': '1.1.1.1',
+      },
+      'loopback, 10.0.0.0/8'
+    );
+
+    expect(result).toMatchObject({ ip: '2001:db8::7', protocol: 'https', host: 'example.com' });
+  });
+
+  it('should stop at hops that are not IP addresses', () => {
+    const result = meta({ Forwarded: 'for=6.6.6.6, for=_hidden' }, (address) =>
+      address.startsWith('10.')
+    );
+
+    expect(result.ip).toBeUndefined();
+  });
+
+  it('should ignore invalid protocols', () => {
+    const result = meta({ 'X-Forwarded-Proto': 'javascript:alert(1)' }, true);
+
+    expect(result.protocol).toBe('http');
+  });
+
+  it('should trust no proxy when trustProxy is not set', () => {
+    const result = meta({ 'X-Forwarded-For': '1.2.3.4', 'X-Forwarded-Proto': 'https' }, undefined);
+
+    expect(result).toMatchObject({ ip: '10.0.0.2', protocol: 'http' });
+    expect(meta({}, undefined, '::1').ip).toBe('::1');
+  });
+
+  it('should apply the chain setting and the remote address from handle()', async () => {
+    const chain = createChain({ trustProxy: 'loopback' }).use(async (ctx, next) => {
+      ctx.response.json({ ip: ctx.meta.ip, protocol: ctx.meta.protocol });
+      await next();
+      return { done: false };
+    });
+    const request = new Request('http://localhost/', {
+      headers: { 'X-Forwarded-For': '203.0.113.5', 'X-Forwarded-Proto': 'https' },
+    });
+
+    const trusted = await chain.handle(request, undefined, { remoteAddress: '127.0.0.1' });
+    const direct = await chain.handle(request, undefined, { remoteAddress: '192.0.2.1' });
+
+    expect(await trusted.json()).toEqual({ ip: '203.0.113.5', protocol: 'https' });
+    expect(await direct.json()).toEqual({ ip: '192.0.2.1', protocol: 'http' });
+  });
+
+  it('should reject invalid ranges when the chain is created', () => {
+    expect(() => createChain({ trustProxy: ['10.0.0.0/99'] })).toThrow(
+      'Invalid IP range: 10.0.0.0/99'
+    );
+  });
+});
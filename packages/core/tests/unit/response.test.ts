@@ -140,4 +140,170 @@ describe('Response Builder', () => {
       expect(response.headers.get('X-Powered-By')).toBe('OpenMiddleware');
     });
   });
+
+  describe('stream', () => {
+    it('should stream chunks written by the producer', async () => {
+      const builder = createResponseBuilder().stream(async (writer) => {
+        await writer.write('a,b\n');
+        await writer.write(new TextEncoder().encode('1,2\n'));
+      }, 'text/csv');
+
+      const response = builder.build();
+
+      expect(response.headers.get('Content-Type')).toBe('text/csv');
+      expect(await response.text()).toBe('a,b\n1,2\n');
+    });
+
+    it('should keep an existing Content-Type', () => {
+      const builder = createResponseBuilder()
+        .setHeader('Content-Type', 'application/x-ndjson')
+        .stream(() => {});
+
+      expect(builder.headers.get('Content-Type')).toBe('application/x-ndjson');
+    });
+
+    it('should default to application/octet-stream', () => {
+      const builder = createResponseBuilder().stream(() => {});
+
+      expect(builder.headers.get('Content-Type')).toBe('application/octet-stream');
+    });
+
+    it('should not start the producer until the body is read', async () => {
+      let started = false;
+      const builder = createResponseBuilder().stream(async (writer) => {
+        started = true;
+        await writer.write('x');
+      });
+
+      const response = builder.build();
+      await Promise.resolve();
+      expect(started).toBe(false);
+
+      await response.text();
+      expect(started).toBe(true);
+    });
+
+    it('should wait for the consumer between writes', async () => {
+      const written: number[] = [];
+      const builder = createResponseBuilder().stream(async (writer) => {
+        for (let i = 0; i < 5; i++) {
+          await writer.write(String(i));
+          written.push(i);
+        }
+      });
+
+      const reader = (builder.body as ReadableStream<Uint8Array>).getReader();
+      await reader.read();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(written.length).toBeLessThanOrEqual(1);
+      await reader.cancel();
+    });
+
+    it('should abort the writer signal when the consumer cancels', async () => {
+      let signal: AbortSignal | undefined;
+      let writeError: unknown;
+
+      const builder = createResponseBuilder().stream(async (writer) => {
+        signal = writer.signal;
+        await writer.write('first');
+        try {
+          await writer.write('second');
+        } catch (error) {
+          writeError = error;
+        }
+      });
+
+      const reader = (builder.body as ReadableStream<Uint8Array>).getReader();
+      await reader.read();
+      await reader.cancel('gone');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(signal?.aborted).toBe(true);
+      expect(writeError).toBeInstanceOf(Error);
+    });
+
+    it('should error the stream when the producer throws', async () => {
+      const response = createResponseBuilder()
+        .stream(async () => {
+          throw new Error('db down');
+        })
+        .build();
+
+      await expect(response.text()).rejects.toThrow('db down');
+    });
+  });
+
+  describe('negotiate', () => {
+    const request = (accept?: string) =>
+      new Request('http://localhost/', accept ? { headers: { Accept: accept } } : {});
+
+    it('should run the handler of the best match', () => {
+      const builder = createResponseBuilder({ request: request('text/csv, */*;q=0.1') });
+      builder.negotiate({
+        'application/json': () => builder.json({ ok: true }),
+        'text/csv': () => {
+          builder.body = 'ok\ntrue';
+        },
+      });
+
+      expect(builder.headers.get('Content-Type')).toBe('text/csv');
+      expect(builder.headers.get('Vary')).toBe('Accept');
+      expect(builder.body).toBe('ok\ntrue');
+    });
+
+    it('should keep the negotiated type when the handler uses a body helper', () => {
+      const builder = createResponseBuilder({ request: request('text/csv') });
+      builder.negotiate({
+        'application/json': () => builder.json({ ok: true }),
+        'text/csv': () => builder.text('ok\ntrue'),
+      });
+
+      expect(builder.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+      expect(builder.body).toBe('ok\ntrue');
+    });
+
+    it('should keep a Content-Type the handler set for the negotiated type', () => {
+      const builder = createResponseBuilder({ request: request('application/vnd.api+json') });
+      builder.negotiate({
+        'application/vnd.api+json': () => {
+          builder.setHeader('Content-Type', 'application/vnd.api+json; ext="bulk"');
+          builder.body = '{}';
+        },
+      });
+
+      expect(builder.headers.get('Content-Type')).toBe('application/vnd.api+json; ext="bulk"');
+    });
+
+    it('should use the first handler without an Accept header', () => {
+      const builder = createResponseBuilder({ request: request() });
+      builder.negotiate({
+        'application/json': () => builder.json({ ok: true }),
+        'text/html': () => builder.html('<p>ok</p>'),
+      });
+
+      expect(builder.headers.get('Content-Type')).toContain('application/json');
+    });
+
+    it('should answer 406 when nothing matches', async () => {
+      const builder = createResponseBuilder({ request: request('image/png') });
+      builder.negotiate({ 'application/json': () => builder.json({ ok: true }) });
+
+      const response = builder.build();
+      expect(response.status).toBe(406);
+      expect(response.headers.get('Vary')).toBe('Accept');
+      expect(await response.json()).toEqual({ error: 'Not Acceptable', code: 'NOT_ACCEPTABLE' });
+    });
+
+    it('should run default when nothing matches', () => {
+      const builder = createResponseBuilder({ request: request('image/png') });
+      builder.negotiate({
+        'text/html': () => builder.html('<p>ok</p>'),
+        default: () => builder.text('ok'),
+      });
+
+      expect(builder.status).toBe(200);
+      expect(builder.body).toBe('ok');
+    });
+  });
 });
@@ -0,0 +1,329 @@
+import { describe, it, expect } from 'vitest';
+import { createRouter } from '../../src/router.js';
+import { createChain } from '../../src/chain.js';
+import { auth, signJWT } from '../../src/middlewares/auth/index.js';
+
+describe('Router', () => {
+  describe('matching', () => {
+    it('should route by method and path', async () => {
+      const router = createRouter()
+        .get('/users', async (ctx, next) => {
+          ctx.response.json({ route: 'list' });
+          await next();
+          return { done: false };
+        })
+        .post('/users', async (ctx, next) => {
+          ctx.response.setStatus(201).json({ route: 'create' });
+          await next();
+          return { done: false };
+        });
+
+      const chain = createChain().use(router);
+
+      const list = await chain.handle(new Request('http://localhost/users'));
+      expect(await list.json()).toEqual({ route: 'list' });
+
+      const create = await chain.handle(new Request('http://localhost/users', { method: 'POST' }));
+      expect(create.status).toBe(201);
+      expect(await create.json()).toEqual({ route: 'create' });
+    });
+
+    it('should extract path params into state', async () => {
+      const router = createRouter().get('/users/:id/posts/:postId', async (ctx, next) => {
+        ctx.response.json(ctx.state.params);
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain().use(router);
+      const response = await chain.handle(new Request('http://localhost/users/42/posts/a%20b'));
+
+      expect(await response.json()).toEqual({ id: '42', postId: 'a b' });
+    });
+
+    it('should support optional params', async () => {
+      const router = createRouter().get('/archive/:year?', async (ctx, next) => {
+        ctx.response.json({ year: ctx.state.params.year ?? null });
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain().use(router);
+
+      const withYear = await chain.handle(new Request('http://localhost/archive/2024'));
+      expect(await withYear.json()).toEqual({ year: '2024' });
+
+      const withoutYear = await chain.handle(new Request('http://localhost/archive'));
+      expect(await withoutYear.json()).toEqual({ year: null });
+    });
+
+    it('should support wildcards', async () => {
+      const router = createRouter().get('/files/*', async (ctx, next) => {
+        ctx.response.json({ path: ctx.state.params['*'] });
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain().use(router);
+      const response = await chain.handle(new Request('http://localhost/files/a/b/c.txt'));
+
+      expect(await response.json()).toEqual({ path: 'a/b/c.txt' });
+    });
+
+    it('should ignore trailing slashes', async () => {
+      const router = createRouter().get('/health', async (ctx, next) => {
+        ctx.response.text('ok');
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain().use(router);
+      const response = await chain.handle(new Request('http://localhost/health/'));
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should match routes in registration order', async () => {
+      const router = createRouter()
+        .get('/users/me', async (ctx, next) => {
+          ctx.response.json({ route: 'me' });
+          await next();
+          return { done: false };
+        })
+        .get('/users/:id', async (ctx, next) => {
+          ctx.response.json({ route: 'by-id' });
+          await next();
+          return { done: false };
+        });
+
+      const chain = createChain().use(router);
+      const response = await chain.handle(new Request('http://localhost/users/me'));
+
+      expect(await response.json()).toEqual({ route: 'me' });
+    });
+
+    it('should match any method with all()', async () => {
+      const router = createRouter().all('/echo', async (ctx, next) => {
+        ctx.response.json({ method: ctx.meta.method });
+        await next();
+        return { done: false };
+      });
+
+      const chain = createChain().use(router);
+      const response = await chain.handle(new Request('http://localhost/echo', { method: 'PUT' }));
+
+      expect(await response.json()).toEqual({ method: 'PUT' });
+    });
+  });
+
+  describe('handlers', () => {
+    it('should run multiple route handlers in order', async () => {
+      const order: string[] = [];
+
+      const router = createRouter().get(
+        '/',
+        {
+          name: 'route-guard',
+          handler: async (_ctx, next) => {
+            order.push('guard');
+            await next();
+            return { done: false };
+          },
+        },
+        async (ctx, next) => {
+          order.push('handler');
+          ctx.response.text('ok');
+          await next();
+          return { done: false };
+        }
+      );
+
+      await createChain().use(router).handle(new Request('http://localhost/'));
+
+      expect(order).toEqual(['guard', 'handler']);
+    });
+
+    it('should short-circuit from route handlers', async () => {
+      const router = createRouter().get(
+        '/admin',
+        async (ctx) => {
+          ctx.response.setStatus(401).json({ error: 'Unauthorized' });
+          return { done: true, response: ctx.response.build() };
+        },
+        async (ctx, next) => {
+          ctx.response.json({ secret: true });
+          await next();
+          return { done: false };
+        }
+      );
+
+      const response = await createChain().use(router).handle(new Request('http://localhost/admin'));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept middlewares typed with their own state', async () => {
+      // Checked by `tsc -p tsconfig.test.json`: Middleware<AuthState> must fit a router route
+      const router = createRouter().delete(
+        '/users/:id',
+        auth({ jwt: { secret: 'secret' } }),
+        async (ctx, next) => {
+          ctx.response.json({ deleted: ctx.state.params.id });
+          await next();
+          return { done: false };
+        }
+      );
+
+      const token = await signJWT({ sub: 'user-1' }, 'secret');
+      const response = await createChain()
+        .use(router)
+        .handle(
+          new Request('http://localhost/users/42', {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${token}` },
+          })
+        );
+
+      expect(await response.json()).toEqual({ deleted: '42' });
+    });
+
+    it('should continue the outer chain after the route', async () => {
+      let after = false;
+
+      const chain = createChain()
+        .use(
+          createRouter().get('/', async (ctx, next) => {
+            ctx.response.text('ok');
+            await next();
+            return { done: false };
+          })
+        )
+        .use(async (_ctx, next) => {
+          after = true;
+          await next();
+          return { done: false };
+        });
+
+      await chain.handle(new Request('http://localhost/'));
+
+      expect(after).toBe(true);
+    });
+
+    it('should call onInit of route middlewares', async () => {
+      let initialized = false;
+
+      const router = createRouter().get('/', {
+        name: 'with-init',
+        onInit: () => {
+          initialized = true;
+        },
+        handler: async (_ctx, next) => {
+          await next();
+          return { done: false };
+        },
+      });
+
+      await createChain().use(router).handle(new Request('http://localhost/'));
+
+      expect(initialized).toBe(true);
+    });
+  });
+
+  describe('automatic responses', () => {
+    const router = createRouter()
+      .get('/items', async (ctx, next) => {
+        ctx.response.setHeader('X-Items', '3').json([1, 2, 3]);
+        await next();
+        return { done: false };
+      })
+      .post('/items', async (ctx, next) => {
+        ctx.response.setStatus(201);
+        await next();
+        return { done: false };
+      });
+
+    it('should answer 404 for unknown paths', async () => {
+      const response = await createChain().use(router).handle(new Request('http://localhost/nope'));
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: 'Not Found', code: 'NOT_FOUND' });
+    });
+
+    it('should call next for unknown paths with fallthrough', async () => {
+      const chain = createChain()
+        .use(createRouter({ fallthrough: true }))
+        .use(async (ctx, next) => {
+          ctx.response.text('fallback');
+          await next();
+          return { done: false };
+        });
+
+      const response = await chain.handle(new Request('http://localhost/nope'));
+
+      expect(await response.text()).toBe('fallback');
+    });
+
+    it('should answer 405 with Allow header', async () => {
+      const response = await createChain()
+        .use(router)
+        .handle(new Request('http://localhost/items', { method: 'DELETE' }));
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('GET, POST, HEAD, OPTIONS');
+    });
+
+    it('should answer HEAD via GET without body', async () => {
+      const response = await createChain()
+        .use(router)
+        .handle(new Request('http://localhost/items', { method: 'HEAD' }));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Items')).toBe('3');
+      expect(await response.text()).toBe('');
+    });
+
+    it('should answer OPTIONS with allowed methods', async () => {
+      const response = await createChain()
+        .use(router)
+        .handle(new Request('http://localhost/items', { method: 'OPTIONS' }));
+
+      expect(response.status).toBe(204);
+      expect(response.headers.get('Allow')).toBe('GET, POST, HEAD, OPTIONS');
+    });
+  });
+
+  describe('routes', () => {
+    it('should list registered routes', () => {
+      const noop = async () => ({ done: false as const });
+      const router = createRouter().on(['GET', 'put'], '/a', noop).delete('/b/:id', noop);
+
+      expect(router.routes()).toEqual([
+        { method: 'GET', path: '/a' },
+        { method: 'PUT', path: '/a' },
+        { method: 'DELETE', path: '/b/:id' },
+      ]);
+    });
+
+    it('should match routes without running them', () => {
+      const noop = async () => ({ done: false as const });
+      const router = createRouter().get('/users/:id', noop).post('/users', noop);
+
+      expect(router.match('head', '/users/42')).toMatchObject({
+        method: 'GET',
+        path: '/users/:id',
+        params: { id: '42' },
+      });
+      expect(router.match('POST', '/users')!.middlewares.map((mw) => mw.name)).toEqual([
+        'POST /users',
+      ]);
+      expect(router.match('DELETE', '/users/42')).toBeNull();
+      expect(router.match('GET', '/posts')).toBeNull();
+    });
+
+    it('should reject wildcards that are not last', () => {
+      expect(() => createRouter().get('/*/x', async () => ({ done: false }))).toThrow(
+        'Wildcard must be the last segment'
+      );
+    });
+  });
+});
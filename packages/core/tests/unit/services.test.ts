@@ -0,0 +1,220 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createChain } from '../../src/chain.js';
+import { createContext } from '../../src/context.js';
+import { createServiceContainer, createToken, provide } from '../../src/services.js';
+import type { Middleware } from '../../src/types.js';
+
+interface Db {
+  id: number;
+  close(): void;
+}
+
+const DbToken = createToken<Db>('db');
+const RepoToken = createToken<{ db: Db; requestId?: string }>('repo');
+const IdToken = createToken<number>('id');
+
+function respondWith(read: Middleware['handler']): Middleware {
+  return { name: 'respond', handler: read };
+}
+
+describe('Services', () => {
+  it('should share singletons and create request-scoped instances per request', async () => {
+    let dbCount = 0;
+    const chain = createChain({
+      services: [
+        provide(DbToken, { factory: () => ({ id: ++dbCount, close: () => {} }) }),
+        provide(RepoToken, {
+          scope: 'request',
+          factory: ({ get, ctx }) => ({ db: get(DbToken), requestId: ctx?.meta.id }),
+        }),
+      ],
+    }).use(
+      respondWith(async (ctx, next) => {
+        const repo = ctx.get(RepoToken);
+        ctx.response.json({
+          db: repo.db.id,
+          same: repo === ctx.get(RepoToken),
+          requestId: repo.requestId === ctx.meta.id,
+        });
+        await next();
+        return { done: false };
+      })
+    );
+
+    const first = await chain.handle(new Request('http://localhost/'));
+    const second = await chain.handle(new Request('http://localhost/'));
+
+    expect(await first.json()).toEqual({ db: 1, same: true, requestId: true });
+    expect(await second.json()).toEqual({ db: 1, same: true, requestId: true });
+    expect(dbCount).toBe(1);
+  });
+
+  it('should create transient instances on every get', () => {
+    let next = 0;
+    const ctx = createContext(
+      new Request('http://localhost/'),
+      {},
+      {
+        services: createServiceContainer([
+          provide(IdToken, { scope: 'transient', factory: () => ++next }),
+        ]),
+      }
+    );
+
+    expect([ctx.get(IdToken), ctx.get(IdToken)]).toEqual([1, 2]);
+  });
+
+  it('should dispose request-scoped instances when handle() finishes, even on errors', async () => {
+    const disposed: string[] = [];
+    const chain = createChain({
+      services: [
+        provide(IdToken, {
+          scope: 'request',
+          factory: () => 1,
+          dispose: () => {
+            disposed.push('id');
+          },
+        }),
+      ],
+      onError: () => new Response(null, { status: 500 }),
+    }).use(
+      respondWith(async (ctx) => {
+        ctx.get(IdToken);
+        throw new Error('boom');
+      })
+    );
+
+    const response = await chain.handle(new Request('http://localhost/'));
+
+    expect(response.status).toBe(500);
+    expect(disposed).toEqual(['id']);
+  });
+
+  it('should log dispose failures without failing the request', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const chain = createChain({
+      services: [
+        provide(IdToken, {
+          scope: 'request',
+          factory: () => 1,
+          dispose: () => {
+            throw new Error('dispose failed');
+          },
+        }),
+      ],
+    }).use(
+      respondWith(async (ctx, next) => {
+        ctx.response.json({ id: ctx.get(IdToken) });
+        await next();
+        return { done: false };
+      })
+    );
+
+    const response = await chain.handle(new Request('http://localhost/'));
+
+    expect(response.status).toBe(200);
+    expect(consoleError).toHaveBeenCalledWith(
+      '[OpenMiddleware] Failed to dispose a request-scoped service',
+      expect.objectContaining({ message: 'dispose failed' })
+    );
+    consoleError.mockRestore();
+  });
+
+  it('should dispose singletons on close() after onDestroy hooks', async () => {
+    const order: string[] = [];
+    const chain = createChain({
+      services: [
+        provide(DbToken, {
+          factory: () => ({ id: 1, close: () => order.push('db') }),
+          dispose: (db) => db.close(),
+        }),
+      ],
+    }).use({
+      name: 'uses-db',
+      handler: async (ctx, next) => {
+        ctx.get(DbToken);
+        await next();
+        return { done: false };
+      },
+      onDestroy: () => {
+        order.push('onDestroy');
+      },
+    });
+
+    await chain.handle(new Request('http://localhost/'));
+    const result = await chain.close();
+
+    expect(order).toEqual(['onDestroy', 'db']);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should let handle() override providers for one request', async () => {
+    const chain = createChain({
+      services: [provide(DbToken, { factory: () => ({ id: 1, close: () => {} }) })],
+    }).use(
+      respondWith(async (ctx, next) => {
+        ctx.response.json({ db: ctx.get(DbToken).id });
+        await next();
+        return { done: false };
+      })
+    );
+    const fake = { id: 99, close: vi.fn() };
+
+    const overridden = await chain.handle(new Request('http://localhost/'), undefined, {
+      services: [provide(DbToken, { value: fake, dispose: (db) => db.close() })],
+    });
+    const regular = await chain.handle(new Request('http://localhost/'));
+
+    expect(await overridden.json()).toEqual({ db: 99 });
+    expect(fake.close).toHaveBeenCalledOnce();
+    expect(await regular.json()).toEqual({ db: 1 });
+  });
+
+  describe('errors', () => {
+    it('should report missing providers', () => {
+      const ctx = createContext(new Request('http://localhost/'));
+
+      expect(() => ctx.get(DbToken)).toThrow('No provider for service "db"');
+    });
+
+    it('should reject duplicate providers', () => {
+      expect(() =>
+        createChain({ services: [provide(IdToken, { value: 1 }), provide(IdToken, { value: 2 })] })
+      ).toThrow('Duplicate provider for service "id"');
+    });
+
+    it('should reject singletons depending on request-scoped services', () => {
+      const ctx = createContext(
+        new Request('http://localhost/'),
+        {},
+        {
+          services: createServiceContainer([
+            provide(IdToken, { scope: 'request', factory: () => 1 }),
+            provide(DbToken, { factory: ({ get }) => ({ id: get(IdToken), close: () => {} }) }),
+          ]),
+        }
+      );
+
+      expect(() => ctx.get(DbToken)).toThrow(
+        'Singleton service "db" cannot depend on request-scoped service "id"'
+      );
+    });
+
+    it('should detect circular dependencies', () => {
+      const A = createToken<unknown>('a');
+      const B = createToken<unknown>('b');
+      const ctx = createContext(
+        new Request('http://localhost/'),
+        {},
+        {
+          services: createServiceContainer([
+            provide(A, { scope: 'request', factory: ({ get }) => get(B) }),
+            provide(B, { scope: 'request', factory: ({ get }) => get(A) }),
+          ]),
+        }
+      );
+
+      expect(() => ctx.get(A)).toThrow('Circular service dependency: a -> b -> a');
+    });
+  });
+});
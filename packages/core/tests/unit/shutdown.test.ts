@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { closeOnSignal } from '../../src/shutdown.js';
+import { createChain } from '../../src/chain.js';
+
+describe('closeOnSignal', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should close the chain when the signal is received', async () => {
+    const chain = createChain();
+    const close = vi.spyOn(chain, 'close');
+    const onClose = vi.fn();
+
+    const remove = closeOnSignal(chain, { signals: ['SIGUSR2'], exit: false, onClose });
+    process.emit('SIGUSR2');
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalled());
+    remove();
+
+    expect(close).toHaveBeenCalledOnce();
+    expect(onClose).toHaveBeenCalledWith({ drained: true, errors: [] });
+  });
+
+  it('should exit with code 1 when onDestroy hooks fail', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    const chain = createChain().use({
+      name: 'failing',
+      handler: async (_ctx, next) => {
+        await next();
+        return { done: false };
+      },
+      onDestroy: () => {
+        throw new Error('boom');
+      },
+    });
+
+    closeOnSignal(chain, { signals: ['SIGUSR2'] });
+    process.emit('SIGUSR2');
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1));
+    process.exitCode = 0;
+  });
+
+  it('should set the exit code when onDestroy hooks fail without exiting', async () => {
+    const chain = createChain().use({
+      name: 'failing',
+      handler: async (_ctx, next) => {
+        await next();
+        return { done: false };
+      },
+      onDestroy: () => {
+        throw new Error('boom');
+      },
+    });
+    const onClose = vi.fn();
+
+    const remove = closeOnSignal(chain, { signals: ['SIGUSR2'], exit: false, onClose });
+    process.emit('SIGUSR2');
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalled());
+    remove();
+
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('should log a failing onClose and set the exit code', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onClose = vi.fn(() => {
+      throw new Error('server close failed');
+    });
+
+    const remove = closeOnSignal(createChain(), { signals: ['SIGUSR2'], exit: false, onClose });
+    process.emit('SIGUSR2');
+    await vi.waitFor(() => expect(error).toHaveBeenCalled());
+    remove();
+
+    expect(error.mock.calls[0]?.[0]).toBe('[OpenMiddleware] Shutdown failed');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = 0;
+  });
+
+  it('should exit with code 1 when close() rejects', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const chain = createChain();
+    vi.spyOn(chain, 'close').mockRejectedValue(new Error('close failed'));
+
+    closeOnSignal(chain, { signals: ['SIGUSR2'] });
+    process.emit('SIGUSR2');
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1));
+    process.exitCode = 0;
+  });
+
+  it('should remove listeners', () => {
+    const before = process.listenerCount('SIGUSR2');
+    const remove = closeOnSignal(createChain(), { signals: ['SIGUSR2'], exit: false });
+
+    expect(process.listenerCount('SIGUSR2')).toBe(before + 1);
+    remove();
+    expect(process.listenerCount('SIGUSR2')).toBe(before);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createResponseBuilder } from '../../src/response.js';
+import { StoreEventLog, createEventLog, formatSSEEvent } from '../../src/sse.js';
+import { MemoryStore } from '../../src/stores/memory.js';
+import { createChain } from '../../src/chain.js';
+import { toFetchHandler } from '../../src/adapter.js';
+import type { SSEEvent } from '../../src/types.js';
+
+function readText(body: BodyInit | null): Promise<string> {
+  return new Response(body).text();
+}
+
+describe('Server-Sent Events', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('formatSSEEvent', () => {
+    it('should format all fields', () => {
+      expect(formatSSEEvent({ event: 'order', id: '7', retry: 1000, data: 'hi' })).toBe(
+        'event: order\nid: 7\nretry: 1000\ndata: hi\n\n'
+      );
+    });
+
+    it('should JSON-encode non-string data', () => {
+      expect(formatSSEEvent({ data: { ok: true } })).toBe('data: {"ok":true}\n\n');
+    });
+
+    it('should split multi-line data into data lines', () => {
+      expect(formatSSEEvent({ data: 'a\nb\r\nc' })).toBe('data: a\ndata: b\ndata: c\n\n');
+    });
+
+    it('should strip line breaks from event and id', () => {
+      expect(formatSSEEvent({ event: 'a\nb', id: '1\r\n2', data: '' })).toBe(
+        'event: ab\nid: 12\ndata: \n\n'
+      );
+    });
+  });
+
+  describe('ctx.response.sse', () => {
+    it('should set event stream headers', () => {
+      const builder = createResponseBuilder().setHeader('Content-Length', '10');
+      builder.sse({ heartbeat: false });
+
+      expect(builder.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(builder.headers.get('Cache-Control')).toBe('no-cache');
+      expect(builder.headers.has('Content-Length')).toBe(false);
+    });
+
+    it('should stream events, comments and the retry field', async () => {
+      const builder = createResponseBuilder();
+      const sse = builder.sse({ heartbeat: false, retry: 3000 });
+
+      sse.send({ event: 'greeting', data: 'hello' });
+      sse.comment('keep going');
+      sse.close();
+
+      expect(sse.closed).toBe(true);
+      expect(await readText(builder.body)).toBe(
+        'retry: 3000\n\nevent: greeting\ndata: hello\n\n: keep going\n\n'
+      );
+    });
+
+    it('should ignore events sent after close', async () => {
+      const builder = createResponseBuilder();
+      const sse = builder.sse({ heartbeat: false });
+
+      sse.close();
+      sse.send({ data: 'late' });
+
+      expect(await readText(builder.body)).toBe('');
+    });
+
+    it('should abort its signal when the client cancels the stream', async () => {
+      const builder = createResponseBuilder();
+      const sse = builder.sse({ heartbeat: false });
+
+      await (builder.body as ReadableStream<Uint8Array>).cancel();
+
+      expect(sse.signal.aborted).toBe(true);
+      expect(sse.closed).toBe(true);
+    });
+
+    it('should close when the request signal aborts', async () => {
+      const controller = new AbortController();
+      const builder = createResponseBuilder({ signal: controller.signal });
+      const sse = builder.sse({ heartbeat: false });
+
+      sse.send({ data: 'one' });
+      controller.abort();
+
+      expect(sse.closed).toBe(true);
+      expect(await readText(builder.body)).toBe('data: one\n\n');
+    });
+
+    it('should send heartbeat comments', async () => {
+      vi.useFakeTimers();
+      const builder = createResponseBuilder();
+      const sse = builder.sse({ heartbeat: '1s' });
+
+      vi.advanceTimersByTime(2500);
+      sse.close();
+      vi.advanceTimersByTime(2000);
+
+      expect(await readText(builder.body)).toBe(': heartbeat\n\n: heartbeat\n\n');
+    });
+  });
+
+  describe('Last-Event-ID resume', () => {
+    it('should expose the Last-Event-ID header', () => {
+      const request = new Request('http://localhost/events', {
+        headers: { 'Last-Event-ID': '41' },
+      });
+      const sse = createResponseBuilder({ request }).sse({ heartbeat: false });
+
+      expect(sse.lastEventId).toBe('41');
+      sse.close();
+    });
+
+    it('should replay missed events before new ones', async () => {
+      const log = createEventLog();
+      await log.append({ data: 'first', id: '1' });
+      await log.append({ data: 'second', id: '2' });
+      await log.append({ data: 'third', id: '3' });
+
+      const request = new Request('http://localhost/events', {
+        headers: { 'Last-Event-ID': '1' },
+      });
+      const builder = createResponseBuilder({ request });
+      const sse = builder.sse({ heartbeat: false, log });
+
+      sse.send({ data: 'live', id: '4' });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sse.close();
+
+      expect(await readText(builder.body)).toBe(
+        'id: 2\ndata: second\n\nid: 3\ndata: third\n\nid: 4\ndata: live\n\n'
+      );
+    });
+
+    it('should not replay without a Last-Event-ID header', async () => {
+      const log = createEventLog();
+      await log.append({ data: 'old', id: '1' });
+
+      const builder = createResponseBuilder({ request: new Request('http://localhost/events') });
+      const sse = builder.sse({ heartbeat: false, log });
+      sse.close();
+
+      expect(await readText(builder.body)).toBe('');
+    });
+  });
+
+  describe('StoreEventLog', () => {
+    it('should assign IDs to events without one', async () => {
+      const log = new StoreEventLog();
+      const event = await log.append({ data: 'x' });
+
+      expect(event.id).toEqual(expect.any(String));
+      expect(await log.since('unknown')).toEqual([event]);
+    });
+
+    it('should keep only the most recent events', async () => {
+      const log = new StoreEventLog({ maxEvents: 2 });
+      for (const id of ['1', '2', '3']) {
+        await log.append({ data: id, id });
+      }
+
+      const events = await log.since('none');
+      expect(events.map((event) => event.id)).toEqual(['2', '3']);
+    });
+
+    it('should serialize concurrent appends into a shared store', async () => {
+      const store = new MemoryStore<SSEEvent[]>(0);
+      const log = new StoreEventLog({ store, key: 'orders' });
+
+      await Promise.all(['1', '2', '3'].map((id) => log.append({ data: id, id })));
+
+      expect((await store.get('orders'))?.map((event) => event.id)).toEqual(['1', '2', '3']);
+      expect(await log.since('3')).toEqual([]);
+    });
+  });
+
+  describe('with toFetchHandler', () => {
+    it('should stream events from a chain', async () => {
+      const chain = createChain().use(async (ctx) => {
+        const sse = ctx.response.sse({ heartbeat: false });
+        sse.send({ event: 'tick', data: 1 });
+        sse.send({ event: 'tick', data: 2 });
+        sse.close();
+        return { done: true, response: ctx.response.build() };
+      });
+
+      const response = await toFetchHandler(chain)(new Request('http://localhost/events'));
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(await response.text()).toBe('event: tick\ndata: 1\n\nevent: tick\ndata: 2\n\n');
+    });
+
+    it('should close the stream when the request is aborted', async () => {
+      const controller = new AbortController();
+      let closed: AbortSignal | undefined;
+
+      const chain = createChain().use(async (ctx) => {
+        closed = ctx.response.sse({ heartbeat: false }).signal;
+        return { done: true, response: ctx.response.build() };
+      });
+
+      await toFetchHandler(chain)(
+        new Request('http://localhost/events', { signal: controller.signal })
+      );
+      controller.abort();
+
+      expect(closed?.aborted).toBe(true);
+    });
+  });
+});
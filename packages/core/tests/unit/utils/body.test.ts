@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { getBodySize, isStreamBody, readStreamWithLimit } from '../../../src/utils/body.js';
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe('Body Utilities', () => {
+  describe('isStreamBody', () => {
+    it('should detect ReadableStream bodies', () => {
+      expect(isStreamBody(streamOf('a'))).toBe(true);
+      expect(isStreamBody('a')).toBe(false);
+      expect(isStreamBody(null)).toBe(false);
+    });
+  });
+
+  describe('getBodySize', () => {
+    it('should measure sized bodies in bytes', () => {
+      expect(getBodySize(null)).toBe(0);
+      expect(getBodySize('héllo')).toBe(6);
+      expect(getBodySize(new Uint8Array(10))).toBe(10);
+      expect(getBodySize(new ArrayBuffer(4))).toBe(4);
+      expect(getBodySize(new Blob(['abc']))).toBe(3);
+    });
+
+    it('should return undefined for streams and forms', () => {
+      expect(getBodySize(streamOf('a'))).toBeUndefined();
+      expect(getBodySize(new URLSearchParams('a=1'))).toBeUndefined();
+    });
+  });
+
+  describe('readStreamWithLimit', () => {
+    it('should read a stream within the limit', async () => {
+      const bytes = await readStreamWithLimit(streamOf('ab', 'cd'), 10);
+
+      expect(new TextDecoder().decode(bytes!)).toBe('abcd');
+    });
+
+    it('should return null when the stream exceeds the limit', async () => {
+      expect(await readStreamWithLimit(streamOf('ab', 'cd'), 3)).toBeNull();
+    });
+  });
+});
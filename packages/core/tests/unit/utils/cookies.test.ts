@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseCookies, serializeCookie } from '../../../src/utils/cookies.js';
+
+describe('Cookie Utils', () => {
+  describe('parseCookies', () => {
+    it('should parse name/value pairs', () => {
+      expect(parseCookies('a=1; b=two;c=3')).toEqual({ a: '1', b: 'two', c: '3' });
+    });
+
+    it('should decode values and strip quotes', () => {
+      expect(parseCookies('theme=dark%20blue; q="quoted"')).toEqual({
+        theme: 'dark blue',
+        q: 'quoted',
+      });
+    });
+
+    it('should keep the first occurrence of a name', () => {
+      expect(parseCookies('a=1; a=2')).toEqual({ a: '1' });
+    });
+
+    it('should skip malformed pairs and keep malformed encodings as-is', () => {
+      expect(parseCookies('flag; =x; bad=%E0%A4%A')).toEqual({ bad: '%E0%A4%A' });
+    });
+
+    it('should return an empty object without a header', () => {
+      expect(parseCookies(null)).toEqual({});
+    });
+
+    it('should parse cookies named like Object.prototype members', () => {
+      const cookies = parseCookies('constructor=abc; toString=1; __proto__=x');
+
+      expect(cookies['constructor']).toBe('abc');
+      expect(cookies['toString']).toBe('1');
+      expect(Object.keys(cookies)).toEqual(['constructor', 'toString', '__proto__']);
+    });
+  });
+
+  describe('serializeCookie', () => {
+    it('should default the path to /', () => {
+      expect(serializeCookie('a', 'b c')).toBe('a=b%20c; Path=/');
+    });
+
+    it('should serialize all attributes', () => {
+      const cookie = serializeCookie('session', 'abc', {
+        maxAge: '1h',
+        expires: new Date(0),
+        domain: 'example.com',
+        path: '/app',
+        secure: true,
+        httpOnly: true,
+        sameSite: 'none',
+        partitioned: true,
+      });
+
+      expect(cookie).toBe(
+        'session=abc; Max-Age=3600; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Domain=example.com; ' +
+          'Path=/app; Secure; HttpOnly; SameSite=None; Partitioned'
+      );
+    });
+
+    it('should reject invalid names and attributes', () => {
+      expect(() => serializeCookie('a b', 'x')).toThrow('Invalid cookie name');
+      expect(() => serializeCookie('a', 'x', { path: '/; Domain=evil.com' })).toThrow(
+        'Invalid cookie path'
+      );
+    });
+
+    it('should require secure for partitioned and SameSite=None cookies', () => {
+      expect(() => serializeCookie('a', 'x', { partitioned: true })).toThrow('secure');
+      expect(() => serializeCookie('a', 'x', { sameSite: 'none' })).toThrow('secure');
+    });
+  });
+});
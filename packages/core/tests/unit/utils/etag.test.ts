@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { generateETag, matchesETag, withETagEncoding } from '../../../src/utils/etag.js';
+
+describe('ETag Utils', () => {
+  describe('generateETag', () => {
+    it('should hash strings and bytes to the same tag', async () => {
+      const bytes = new TextEncoder().encode('hello');
+
+      const tag = await generateETag('hello');
+      expect(tag).toMatch(/^"5-[A-Za-z0-9_-]{27}"$/);
+      expect(await generateETag(bytes)).toBe(tag);
+      expect(await generateETag(bytes.buffer)).toBe(tag);
+      expect(await generateETag('hello!')).not.toBe(tag);
+    });
+
+    it('should hash only the viewed bytes of a typed array', async () => {
+      const view = new TextEncoder().encode('xxhelloxx').subarray(2, 7);
+
+      expect(await generateETag(view)).toBe(await generateETag('hello'));
+    });
+
+    it('should generate weak tags', async () => {
+      expect(await generateETag('hello', true)).toBe(`W/${await generateETag('hello')}`);
+    });
+  });
+
+  describe('matchesETag', () => {
+    it('should use weak comparison by default', () => {
+      expect(matchesETag('"a", W/"b"', '"b"')).toBe(true);
+      expect(matchesETag('"a"', 'W/"a"')).toBe(true);
+      expect(matchesETag('"c"', '"b"')).toBe(false);
+      expect(matchesETag('*', '"b"')).toBe(true);
+    });
+
+    it('should reject weak tags under strong comparison', () => {
+      expect(matchesETag('W/"b"', '"b"', false)).toBe(false);
+      expect(matchesETag('"b"', 'W/"b"', false)).toBe(false);
+      expect(matchesETag('"b"', '"b"', false)).toBe(true);
+    });
+
+    it('should ignore encoding suffixes', () => {
+      expect(matchesETag('"b-gzip"', '"b"')).toBe(true);
+      expect(matchesETag('"b"', '"b-br"', false)).toBe(true);
+    });
+  });
+
+  describe('withETagEncoding', () => {
+    it('should suffix strong tags only once', () => {
+      expect(withETagEncoding('"abc"', 'gzip')).toBe('"abc-gzip"');
+      expect(withETagEncoding('"abc-gzip"', 'br')).toBe('"abc-gzip"');
+      expect(withETagEncoding('W/"abc"', 'gzip')).toBe('W/"abc"');
+    });
+  });
+});
@@ -7,7 +7,10 @@ import {
   isFormContentType,
   isMultipartContentType,
   isTextContentType,
+  isEventStreamContentType,
   parseContentType,
+  parseAccept,
+  selectAccepted,
   redactHeaders,
 } from '../../../src/utils/headers.js';
 
@@ -158,6 +161,78 @@ describe('Headers Utils', () => {
     });
   });
 
+  describe('parseAccept', () => {
+    it('should order entries by quality, then specificity', () => {
+      const entries = parseAccept('*/*;q=0.1, text/*;q=0.5, application/json, text/csv;q=0.5');
+
+      expect(entries.map((entry) => entry.value)).toEqual([
+        'application/json',
+        'text/csv',
+        'text/*',
+        '*/*',
+      ]);
+      expect(entries.map((entry) => entry.q)).toEqual([1, 0.5, 0.5, 0.1]);
+    });
+
+    it('should keep parameters other than q', () => {
+      expect(parseAccept('text/html;level=1;q=0.7')).toEqual([
+        { value: 'text/html', q: 0.7, parameters: { level: '1' } },
+      ]);
+    });
+
+    it('should clamp out-of-range and ignore invalid q-values', () => {
+      expect(parseAccept('a;q=2, b;q=-1, c;q=x').map((entry) => entry.q)).toEqual([1, 1, 0]);
+    });
+
+    it('should return an empty list without a header', () => {
+      expect(parseAccept(null)).toEqual([]);
+      expect(parseAccept(' , ')).toEqual([]);
+    });
+  });
+
+  describe('selectAccepted', () => {
+    it('should pick the offer with the highest quality', () => {
+      expect(
+        selectAccepted('text/html, application/json;q=0.9', ['application/json', 'text/html'])
+      ).toBe('text/html');
+    });
+
+    it('should match type and full wildcards', () => {
+      expect(selectAccepted('text/*', ['application/json', 'text/csv'])).toBe('text/csv');
+      expect(selectAccepted('*/*', ['application/json', 'text/csv'])).toBe('application/json');
+    });
+
+    it('should prefer exact matches over wildcards with the same quality', () => {
+      expect(selectAccepted('*/*, text/csv', ['application/json', 'text/csv'])).toBe('text/csv');
+    });
+
+    it('should exclude offers with q=0', () => {
+      expect(selectAccepted('gzip;q=0, *', ['gzip', 'deflate'])).toBe('deflate');
+      expect(selectAccepted('text/html;q=0, */*', ['text/html'])).toBeUndefined();
+    });
+
+    it('should return undefined when nothing matches', () => {
+      expect(selectAccepted('image/png', ['application/json'])).toBeUndefined();
+    });
+
+    it('should accept the first offer without a header', () => {
+      expect(selectAccepted(null, ['application/json', 'text/html'])).toBe('application/json');
+    });
+  });
+
+  describe('isEventStreamContentType', () => {
+    it('should return true for event streams', () => {
+      expect(isEventStreamContentType('text/event-stream')).toBe(true);
+      expect(isEventStreamContentType('Text/Event-Stream; charset=utf-8')).toBe(true);
+    });
+
+    it('should return false for other types', () => {
+      expect(isEventStreamContentType('text/event-streams')).toBe(false);
+      expect(isEventStreamContentType('text/plain')).toBe(false);
+      expect(isEventStreamContentType(null)).toBe(false);
+    });
+  });
+
   describe('parseContentType', () => {
     it('should parse simple content type', () => {
       const result = parseContentType('application/json');
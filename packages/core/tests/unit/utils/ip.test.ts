@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseForwarded, normalizeIP, isIPInRange } from '../../../src/utils/ip.js';
+
+describe('IP Utils', () => {
+  describe('parseForwarded', () => {
+    it('should parse elements, quoted values and ports', () => {
+      expect(
+        parseForwarded('for=192.0.2.60;proto=HTTPS;by=203.0.113.43, for="[2001:db8::17]:4711"')
+      ).toEqual([
+        { for: '192.0.2.60', proto: 'https', by: '203.0.113.43' },
+        { for: '2001:db8::17' },
+      ]);
+    });
+
+    it('should not split on separators inside quotes', () => {
+      expect(parseForwarded('host="a;b,c";for=_hidden')).toEqual([
+        { host: 'a;b,c', for: '_hidden' },
+      ]);
+    });
+
+    it('should return no elements for an empty header', () => {
+      expect(parseForwarded(null)).toEqual([]);
+      expect(parseForwarded('')).toEqual([]);
+    });
+  });
+
+  describe('normalizeIP', () => {
+    it('should strip ports, brackets and zones', () => {
+      expect(normalizeIP('10.0.0.1:8080')).toBe('10.0.0.1');
+      expect(normalizeIP('[2001:DB8::1]:443')).toBe('2001:db8::1');
+      expect(normalizeIP('fe80::1%eth0')).toBe('fe80::1');
+    });
+
+    it('should convert IPv4-mapped addresses to IPv4', () => {
+      expect(normalizeIP('::ffff:10.0.0.1')).toBe('10.0.0.1');
+      expect(normalizeIP('::ffff:a00:1')).toBe('10.0.0.1');
+    });
+
+    it('should reject values that are not IP addresses', () => {
+      expect(normalizeIP('unknown')).toBeUndefined();
+      expect(normalizeIP('_hidden')).toBeUndefined();
+      expect(normalizeIP('256.0.0.1')).toBeUndefined();
+      expect(normalizeIP('1::2::3')).toBeUndefined();
+      expect(normalizeIP(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('isIPInRange', () => {
+    it('should match IPv4 and IPv6 CIDR ranges', () => {
+      expect(isIPInRange('172.31.255.255', '172.16.0.0/12')).toBe(true);
+      expect(isIPInRange('172.32.0.0', '172.16.0.0/12')).toBe(false);
+      expect(isIPInRange('fd12::1', 'fc00::/7')).toBe(true);
+      expect(isIPInRange('fe80::1', 'fc00::/7')).toBe(false);
+      expect(isIPInRange('::ffff:10.1.2.3', '10.0.0.0/8')).toBe(true);
+    });
+
+    it('should treat a range without prefix as a single address', () => {
+      expect(isIPInRange('10.0.0.1', '10.0.0.1')).toBe(true);
+      expect(isIPInRange('10.0.0.2', '10.0.0.1')).toBe(false);
+    });
+
+    it('should not match across address families', () => {
+      expect(isIPInRange('2001:db8::1', '0.0.0.0/0')).toBe(false);
+    });
+
+    it('should throw on invalid ranges', () => {
+      expect(() => isIPInRange('10.0.0.1', 'nope/8')).toThrow('Invalid IP range: nope/8');
+      expect(() => isIPInRange('10.0.0.1', '10.0.0.0/33')).toThrow('Invalid IP range');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePrefix, stripPrefix } from '../../../src/utils/path.js';
+
+describe('Path Utils', () => {
+  describe('normalizePrefix', () => {
+    it('should add leading slash and remove trailing slash', () => {
+      expect(normalizePrefix('admin/')).toBe('/admin');
+      expect(normalizePrefix('/api/v1/')).toBe('/api/v1');
+    });
+
+    it('should normalize root to empty string', () => {
+      expect(normalizePrefix('/')).toBe('');
+      expect(normalizePrefix('')).toBe('');
+    });
+  });
+
+  describe('stripPrefix', () => {
+    it('should strip matching prefix', () => {
+      expect(stripPrefix('/admin/users', '/admin')).toBe('/users');
+      expect(stripPrefix('/admin', '/admin')).toBe('/');
+      expect(stripPrefix('/admin/', '/admin')).toBe('/');
+    });
+
+    it('should only match whole segments', () => {
+      expect(stripPrefix('/administrator', '/admin')).toBeNull();
+      expect(stripPrefix('/public', '/admin')).toBeNull();
+    });
+
+    it('should return pathname for empty prefix', () => {
+      expect(stripPrefix('/anything', '')).toBe('/anything');
+    });
+  });
+});
@@ -48,11 +48,13 @@ export function toExpress(
 
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      // Convert Express request to Fetch Request
-      const fetchRequest = expressToFetchRequest(req);
+      // Convert Express request to Fetch Request, aborted if the client disconnects
+      const fetchRequest = expressToFetchRequest(req, disconnectSignal(res));
 
       // Execute the middleware chain
-      const response = await chain.handle(fetchRequest);
+      const response = await chain.handle(fetchRequest, undefined, {
+        remoteAddress: req.socket.remoteAddress,
+      });
 
       // If response status is 200 and no body, pass through to next middleware
       if (passThrough && response.status === 200 && !response.headers.has('Content-Type')) {
@@ -70,7 +72,7 @@ export function toExpress(
 /**
  * Convert Express Request to Fetch API Request.
  */
-function expressToFetchRequest(req: Request): globalThis.Request {
+function expressToFetchRequest(req: Request, signal: AbortSignal): globalThis.Request {
   // Build URL
   const protocol = req.protocol;
   const host = req.get('host') || 'localhost';
@@ -93,6 +95,7 @@ function expressToFetchRequest(req: Request): globalThis.Request {
   const init: RequestInit = {
     method: req.method,
     headers,
+    signal,
   };
 
   // Add body for methods that support it
@@ -115,8 +118,23 @@ function expressToFetchRequest(req: Request): globalThis.Request {
   return new globalThis.Request(url, init);
 }
 
+/**
+ * Create a signal that aborts when the client disconnects before the response is finished.
+ * The chain exposes it as `ctx.signal`.
+ */
+function disconnectSignal(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.once('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
 /**
  * Convert Fetch API Response to Express response.
+ * Bodies are streamed without buffering, whatever their content type.
  */
 async function fetchToExpressResponse(
   fetchResponse: globalThis.Response,
@@ -125,28 +143,57 @@ async function fetchToExpressResponse(
   // Set status
   expressRes.status(fetchResponse.status);
 
-  // Set headers
+  // Set headers, keeping the upstream Content-Length
   fetchResponse.headers.forEach((value, key) => {
-    // Skip content-length as Express will set it
-    if (key.toLowerCase() === 'content-length') return;
+    // Set-Cookie is set below - setHeader() would keep only the last cookie
+    if (key.toLowerCase() === 'set-cookie') return;
     expressRes.setHeader(key, value);
   });
 
+  const cookies = fetchResponse.headers.getSetCookie();
+  if (cookies.length > 0) {
+    expressRes.setHeader('Set-Cookie', cookies);
+  }
+
   // Set body
-  const contentType = fetchResponse.headers.get('Content-Type') || '';
-
-  if (contentType.includes('application/json')) {
-    const json = await fetchResponse.json();
-    expressRes.json(json);
-  } else if (contentType.includes('text/')) {
-    const text = await fetchResponse.text();
-    expressRes.send(text);
+  if (!fetchResponse.body) {
+    expressRes.end();
   } else {
-    const buffer = await fetchResponse.arrayBuffer();
-    if (buffer.byteLength > 0) {
-      expressRes.send(Buffer.from(buffer));
-    } else {
-      expressRes.end();
+    await pipeToExpress(fetchResponse.body, expressRes);
+  }
+}
+
+/**
+ * Write a body stream to the Express response, respecting backpressure.
+ * Stops reading when the client disconnects.
+ */
+async function pipeToExpress(body: ReadableStream<Uint8Array>, res: Response): Promise<void> {
+  const reader = body.getReader();
+
+  try {
+    for (;;) {
+      if (res.destroyed) {
+        await reader.cancel();
+        return;
+      }
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (!res.write(value)) {
+        await new Promise<void>((resolve) => {
+          const resume = (): void => {
+            res.off('drain', resume);
+            res.off('close', resume);
+            resolve();
+          };
+          res.on('drain', resume);
+          res.on('close', resume);
+        });
+      }
     }
+    res.end();
+  } finally {
+    reader.releaseLock();
   }
 }
@@ -30,3 +30,4 @@
  */
 
 export { toExpress, type ExpressAdapterOptions } from './adapter.js';
+export { closeOnSignal, type CloseOnSignalOptions } from '@openmiddleware/chain';
@@ -10,6 +10,7 @@ function createMockRequest(options: {
   protocol?: string;
   headers?: Record<string, string | string[] | undefined>;
   body?: unknown;
+  remoteAddress?: string;
 } = {}): Request {
   const {
     method = 'GET',
@@ -17,6 +18,7 @@ function createMockRequest(options: {
     protocol = 'http',
     headers = {},
     body,
+    remoteAddress = '127.0.0.1',
   } = options;
 
   return {
@@ -33,6 +35,7 @@ function createMockRequest(options: {
       ...headers,
     },
     body,
+    socket: { remoteAddress },
   } as unknown as Request;
 }
 
@@ -42,12 +45,27 @@ function createMockResponse(): {
   getStatus: () => number;
   getHeaders: () => Record<string, string>;
   getBody: () => unknown;
+  disconnect: () => void;
 } {
   let status = 200;
   const headers: Record<string, string> = {};
   let body: unknown = null;
+  const chunks: Uint8Array[] = [];
+  const closeListeners: Array<() => void> = [];
 
   const res = {
+    writableFinished: false,
+    destroyed: false,
+    once: vi.fn((event: string, listener: () => void) => {
+      if (event === 'close') closeListeners.push(listener);
+      return res;
+    }),
+    on: vi.fn(() => res),
+    off: vi.fn(() => res),
+    write: vi.fn((chunk: Uint8Array) => {
+      chunks.push(chunk);
+      return true;
+    }),
     status: vi.fn((code: number) => {
       status = code;
       return res;
@@ -66,6 +84,9 @@ function createMockResponse(): {
       return res;
     }),
     end: vi.fn(() => {
+      if (chunks.length > 0) {
+        body = Buffer.concat(chunks).toString();
+      }
       return res;
     }),
   } as unknown as Response;
@@ -75,6 +96,7 @@ function createMockResponse(): {
     getStatus: () => status,
     getHeaders: () => headers,
     getBody: () => body,
+    disconnect: () => closeListeners.forEach((listener) => listener()),
   };
 }
 
@@ -103,8 +125,27 @@ describe('Express Adapter', () => {
       await middleware(req, res, next);
 
       expect(res.status).toHaveBeenCalledWith(200);
-      expect(res.json).toHaveBeenCalled();
-      expect(getBody()).toEqual({ message: 'Hello from chain' });
+      expect(res.json).not.toHaveBeenCalled();
+      expect(JSON.parse(getBody() as string)).toEqual({ message: 'Hello from chain' });
+    });
+
+    it('should pass the socket address to the chain', async () => {
+      const chain = createChain({ trustProxy: 'loopback' }).use(async (ctx, next) => {
+        ctx.response.json({ ip: ctx.meta.ip });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const { res: proxied, getBody: getProxied } = createMockResponse();
+      const { res: direct, getBody: getDirect } = createMockResponse();
+      const headers = { 'x-forwarded-for': '203.0.113.5' };
+
+      await middleware(createMockRequest({ headers }), proxied, vi.fn());
+      await middleware(createMockRequest({ headers, remoteAddress: '192.0.2.1' }), direct, vi.fn());
+
+      expect(getProxied()).toBe('{"ip":"203.0.113.5"}');
+      expect(getDirect()).toBe('{"ip":"192.0.2.1"}');
     });
 
     it('should handle POST request with JSON body', async () => {
@@ -181,7 +222,8 @@ describe('Express Adapter', () => {
 
       await middleware(req, res, next);
 
-      expect(res.send).toHaveBeenCalledWith('Hello World');
+      expect(res.write).toHaveBeenCalled();
+      expect(getBody()).toBe('Hello World');
     });
 
     it('should call next() on error', async () => {
@@ -200,6 +242,25 @@ describe('Express Adapter', () => {
       expect(next).toHaveBeenCalledWith(error);
     });
 
+    it('should send the onError response instead of calling next()', async () => {
+      const chain = createChain({
+        onError: (error) => Response.json({ error: (error as Error).message }, { status: 500 }),
+      }).use(async () => {
+        throw new Error('Test error');
+      });
+
+      const middleware = toExpress(chain);
+      const req = createMockRequest();
+      const { res, getStatus, getBody } = createMockResponse();
+      const next: NextFunction = vi.fn();
+
+      await middleware(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(getStatus()).toBe(500);
+      expect(JSON.parse(getBody() as string)).toEqual({ error: 'Test error' });
+    });
+
     it('should pass through with passThrough option', async () => {
       const chain = createChain().use(async (_ctx, next) => {
         await next();
@@ -234,7 +295,7 @@ describe('Express Adapter', () => {
 
       await middleware(req, res, next);
 
-      expect(res.json).toHaveBeenCalled();
+      expect(res.end).toHaveBeenCalled();
     });
 
     it('should handle empty body response', async () => {
@@ -322,7 +383,7 @@ describe('Express Adapter', () => {
 
       await middleware(req, res, next);
 
-      expect(res.json).toHaveBeenCalled();
+      expect(res.end).toHaveBeenCalled();
     });
 
     it('should not add body for GET requests', async () => {
@@ -339,7 +400,7 @@ describe('Express Adapter', () => {
 
       await middleware(req, res, next);
 
-      expect(getBody()).toEqual({ method: 'GET' });
+      expect(JSON.parse(getBody() as string)).toEqual({ method: 'GET' });
     });
 
     it('should handle HEAD requests', async () => {
@@ -356,7 +417,7 @@ describe('Express Adapter', () => {
 
       await middleware(req, res, next);
 
-      expect(res.json).toHaveBeenCalled();
+      expect(res.end).toHaveBeenCalled();
     });
 
     it('should handle OPTIONS requests', async () => {
@@ -377,4 +438,204 @@ describe('Express Adapter', () => {
       expect(res.setHeader).toHaveBeenCalledWith('allow', 'GET, POST, OPTIONS');
     });
   });
+
+  describe('streaming', () => {
+    it('should write stream chunks without buffering', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          await writer.write('a,b\n');
+          await writer.write('1,2\n');
+        }, 'text/csv');
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const { res, getBody, getHeaders } = createMockResponse();
+
+      await middleware(createMockRequest(), res, vi.fn());
+
+      expect(res.write).toHaveBeenCalledTimes(2);
+      expect(res.send).not.toHaveBeenCalled();
+      expect(getHeaders()['content-type']).toBe('text/csv');
+      expect(getBody()).toBe('a,b\n1,2\n');
+    });
+
+    it('should wait for drain when the response is backed up', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          await writer.write('one');
+          await writer.write('two');
+        });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const { res, getBody } = createMockResponse();
+      // Accept the first chunk but report a full buffer
+      const write = vi.mocked(res.write).getMockImplementation()!;
+      vi.mocked(res.write).mockImplementationOnce(((chunk: Uint8Array) => {
+        write(chunk);
+        return false;
+      }) as unknown as Response['write']);
+      vi.mocked(res.on).mockImplementation(((event: string, listener: () => void) => {
+        if (event === 'drain') setTimeout(listener, 0);
+        return res;
+      }) as unknown as Response['on']);
+
+      await middleware(createMockRequest(), res, vi.fn());
+
+      expect(res.on).toHaveBeenCalledWith('drain', expect.any(Function));
+      expect(res.write).toHaveBeenCalledTimes(2);
+      expect(getBody()).toBe('onetwo');
+    });
+
+    it('should stop the producer when the client has gone away', async () => {
+      let writerSignal: AbortSignal | undefined;
+      const { res, disconnect } = createMockResponse();
+      vi.mocked(res.write).mockImplementationOnce((() => {
+        (res as { destroyed: boolean }).destroyed = true;
+        disconnect();
+        return true;
+      }) as unknown as Response['write']);
+
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          writerSignal = writer.signal;
+          await writer.write('first');
+          await writer.write('second');
+        });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      await middleware(createMockRequest(), res, vi.fn());
+
+      expect(res.write).toHaveBeenCalledTimes(1);
+      expect(res.end).not.toHaveBeenCalled();
+      expect(writerSignal?.aborted).toBe(true);
+    });
+
+    it('should stream JSON with a Content-Encoding instead of re-serializing it', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setHeader('Content-Encoding', 'identity').json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const { res, getBody } = createMockResponse();
+
+      await middleware(createMockRequest(), res, vi.fn());
+
+      expect(res.json).not.toHaveBeenCalled();
+      expect(getBody()).toBe('{"ok":true}');
+    });
+
+    it('should stream JSON bodies with their Content-Length', async () => {
+      const rows = JSON.stringify([{ id: 1 }, { id: 2 }]);
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setHeader('Content-Type', 'application/json');
+        ctx.response.setHeader('Content-Length', String(rows.length));
+        ctx.response.body = rows;
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const { res, getBody, getHeaders } = createMockResponse();
+
+      await middleware(createMockRequest(), res, vi.fn());
+
+      expect(res.json).not.toHaveBeenCalled();
+      expect(getHeaders()['content-length']).toBe(String(rows.length));
+      expect(getBody()).toBe(rows);
+    });
+  });
+
+  describe('server-sent events', () => {
+    it('should write events and end the response when the client disconnects', async () => {
+      let sseSignal: AbortSignal | undefined;
+      const { res, getBody, disconnect } = createMockResponse();
+
+      const chain = createChain().use(async (ctx, next) => {
+        const sse = ctx.response.sse({ heartbeat: false });
+        sseSignal = sse.signal;
+        sse.send({ event: 'tick', data: 1 });
+        setTimeout(disconnect, 0);
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      await middleware(createMockRequest(), res, vi.fn());
+
+      expect(res.setHeader).toHaveBeenCalledWith('content-type', 'text/event-stream');
+      expect(sseSignal?.aborted).toBe(true);
+      expect(getBody()).toBe('event: tick\ndata: 1\n\n');
+    });
+  });
+
+  describe('cookies', () => {
+    it('should send every Set-Cookie header', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setCookie('a', '1').setCookie('b', '2').json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const { res } = createMockResponse();
+
+      await middleware(createMockRequest(), res, vi.fn());
+
+      expect(res.setHeader).toHaveBeenCalledWith('Set-Cookie', ['a=1; Path=/', 'b=2; Path=/']);
+      expect(res.setHeader).not.toHaveBeenCalledWith('set-cookie', expect.anything());
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should abort ctx.signal when the client disconnects', async () => {
+      let signal: AbortSignal | undefined;
+      let disconnect = (): void => {};
+
+      const chain = createChain().use(async (ctx, next) => {
+        signal = ctx.signal;
+        disconnect();
+        ctx.response.json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const mock = createMockResponse();
+      disconnect = mock.disconnect;
+
+      await middleware(createMockRequest(), mock.res, vi.fn());
+
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should not abort ctx.signal once the response is finished', async () => {
+      let signal: AbortSignal | undefined;
+
+      const chain = createChain().use(async (ctx, next) => {
+        signal = ctx.signal;
+        ctx.response.json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toExpress(chain);
+      const mock = createMockResponse();
+
+      await middleware(createMockRequest(), mock.res, vi.fn());
+      (mock.res as { writableFinished: boolean }).writableFinished = true;
+      mock.disconnect();
+
+      expect(signal?.aborted).toBe(false);
+    });
+  });
 });
@@ -4,6 +4,8 @@ import type {
   FastifyRequest,
   FastifyReply,
 } from 'fastify';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
 
 /**
  * Options for the Fastify adapter.
@@ -19,6 +21,13 @@ export interface FastifyAdapterOptions {
    * Prefix for routes that should use this middleware.
    */
   prefix?: string;
+
+  /**
+   * Close the chain (draining requests and calling `onDestroy` hooks)
+   * when the Fastify instance closes.
+   * @default false
+   */
+  closeOnShutdown?: boolean;
 }
 
 /**
@@ -53,15 +62,23 @@ export function toFastify(
   chain: MiddlewareChain,
   options: FastifyAdapterOptions = {}
 ): FastifyPluginAsync {
-  const { hook = 'onRequest' } = options;
+  const { hook = 'onRequest', closeOnShutdown = false } = options;
 
   return async (fastify) => {
+    if (closeOnShutdown) {
+      fastify.addHook('onClose', async () => {
+        await chain.close();
+      });
+    }
+
     fastify.addHook(hook, async (request: FastifyRequest, reply: FastifyReply) => {
-      // Convert Fastify request to Fetch Request
-      const fetchRequest = fastifyToFetchRequest(request);
+      // Convert Fastify request to Fetch Request, aborted if the client disconnects
+      const fetchRequest = fastifyToFetchRequest(request, disconnectSignal(reply));
 
       // Execute the middleware chain
-      const response = await chain.handle(fetchRequest);
+      const response = await chain.handle(fetchRequest, undefined, {
+        remoteAddress: request.socket.remoteAddress,
+      });
 
       // Check if chain produced a meaningful response
       const hasContent = response.headers.has('Content-Type') ||
@@ -82,7 +99,10 @@ export function toFastify(
 /**
  * Convert Fastify Request to Fetch API Request.
  */
-function fastifyToFetchRequest(request: FastifyRequest): globalThis.Request {
+function fastifyToFetchRequest(
+  request: FastifyRequest,
+  signal: AbortSignal
+): globalThis.Request {
   // Build URL
   const protocol = request.protocol;
   const hostname = request.hostname;
@@ -105,6 +125,7 @@ function fastifyToFetchRequest(request: FastifyRequest): globalThis.Request {
   const init: RequestInit = {
     method: request.method,
     headers,
+    signal,
   };
 
   // Add body for methods that support it
@@ -125,8 +146,23 @@ function fastifyToFetchRequest(request: FastifyRequest): globalThis.Request {
   return new globalThis.Request(url, init);
 }
 
+/**
+ * Create a signal that aborts when the client disconnects before the reply is finished.
+ * The chain exposes it as `ctx.signal`.
+ */
+function disconnectSignal(reply: FastifyReply): AbortSignal {
+  const controller = new AbortController();
+  reply.raw.once('close', () => {
+    if (!reply.raw.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
 /**
  * Convert Fetch API Response to Fastify reply.
+ * Bodies are streamed without buffering, whatever their content type.
  */
 async function fetchToFastifyReply(
   fetchResponse: globalThis.Response,
@@ -137,25 +173,22 @@ async function fetchToFastifyReply(
 
   // Set headers
   fetchResponse.headers.forEach((value, key) => {
+    // Set-Cookie is set below - reply.header() would keep only the last cookie
+    if (key.toLowerCase() === 'set-cookie') return;
     reply.header(key, value);
   });
 
+  const cookies = fetchResponse.headers.getSetCookie();
+  if (cookies.length > 0) {
+    reply.header('set-cookie', cookies);
+  }
+
   // Set body
-  const contentType = fetchResponse.headers.get('Content-Type') || '';
-
-  if (contentType.includes('application/json')) {
-    const json = await fetchResponse.json();
-    await reply.send(json);
-  } else if (contentType.includes('text/')) {
-    const text = await fetchResponse.text();
-    await reply.send(text);
+  if (!fetchResponse.body) {
+    await reply.send();
   } else {
-    const buffer = await fetchResponse.arrayBuffer();
-    if (buffer.byteLength > 0) {
-      await reply.send(Buffer.from(buffer));
-    } else {
-      await reply.send();
-    }
+    // Fastify pipes the stream and destroys it if the client disconnects
+    await reply.send(Readable.fromWeb(fetchResponse.body as NodeReadableStream<Uint8Array>));
   }
 }
 
@@ -187,8 +220,10 @@ export function fastifyPreHandler(
   chain: MiddlewareChain
 ): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
   return async (request: FastifyRequest, reply: FastifyReply) => {
-    const fetchRequest = fastifyToFetchRequest(request);
-    const response = await chain.handle(fetchRequest);
+    const fetchRequest = fastifyToFetchRequest(request, disconnectSignal(reply));
+    const response = await chain.handle(fetchRequest, undefined, {
+      remoteAddress: request.socket.remoteAddress,
+    });
 
     const hasContent = response.headers.has('Content-Type') ||
                        response.status !== 200;
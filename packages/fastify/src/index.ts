@@ -34,3 +34,4 @@ export {
   fastifyPreHandler,
   type FastifyAdapterOptions,
 } from './adapter.js';
+export { closeOnSignal, type CloseOnSignalOptions } from '@openmiddleware/chain';
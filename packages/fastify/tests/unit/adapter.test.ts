@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { toFastify, fastifyPreHandler } from '../../src/adapter.js';
 import { createChain } from '@openmiddleware/chain';
 import type { FastifyRequest, FastifyReply, FastifyInstance } from 'fastify';
+import { Readable } from 'node:stream';
 
 // Mock Fastify Request
 function createMockFastifyRequest(options: {
@@ -9,12 +10,14 @@ function createMockFastifyRequest(options: {
   url?: string;
   headers?: Record<string, string | string[] | undefined>;
   body?: unknown;
+  remoteAddress?: string;
 } = {}): FastifyRequest {
   const {
     method = 'GET',
     url = '/test',
     headers = {},
     body,
+    remoteAddress = '127.0.0.1',
   } = options;
 
   return {
@@ -27,6 +30,7 @@ function createMockFastifyRequest(options: {
       ...headers,
     },
     body,
+    socket: { remoteAddress },
   } as unknown as FastifyRequest;
 }
 
@@ -36,12 +40,23 @@ function createMockFastifyReply(): {
   getStatus: () => number;
   getHeaders: () => Record<string, string>;
   getBody: () => unknown;
+  disconnect: () => void;
 } {
   let status = 200;
   const headers: Record<string, string> = {};
   let body: unknown = null;
+  const closeListeners: Array<() => void> = [];
+
+  const raw = {
+    writableFinished: false,
+    once: vi.fn((event: string, listener: () => void) => {
+      if (event === 'close') closeListeners.push(listener);
+      return raw;
+    }),
+  };
 
   const reply = {
+    raw,
     status: vi.fn((code: number) => {
       status = code;
       return reply;
@@ -62,6 +77,7 @@ function createMockFastifyReply(): {
     getStatus: () => status,
     getHeaders: () => headers,
     getBody: () => body,
+    disconnect: () => closeListeners.forEach((listener) => listener()),
   };
 }
 
@@ -87,6 +103,20 @@ function createMockFastify(): {
   };
 }
 
+// Read a streamed reply body
+async function readBody(body: unknown): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body as Readable) {
+    chunks.push(Buffer.from(chunk as Uint8Array));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Read a streamed JSON response body
+async function readJson(body: unknown): Promise<unknown> {
+  return JSON.parse((await readBody(body)).toString());
+}
+
 describe('Fastify Adapter', () => {
   describe('toFastify', () => {
     it('should create a Fastify plugin', () => {
@@ -121,6 +151,29 @@ describe('Fastify Adapter', () => {
       expect(hooks['preHandler'].length).toBe(1);
     });
 
+    it('should close the chain on Fastify close when enabled', async () => {
+      const chain = createChain();
+      const close = vi.spyOn(chain, 'close');
+      const plugin = toFastify(chain, { closeOnShutdown: true });
+      const { fastify, getHooks } = createMockFastify();
+
+      await plugin(fastify, {});
+
+      const onClose = getHooks()['onClose'];
+      expect(onClose).toHaveLength(1);
+      await (onClose[0] as unknown as () => Promise<void>)();
+      expect(close).toHaveBeenCalledOnce();
+    });
+
+    it('should not register onClose hook by default', async () => {
+      const plugin = toFastify(createChain());
+      const { fastify, getHooks } = createMockFastify();
+
+      await plugin(fastify, {});
+
+      expect(getHooks()['onClose']).toBeUndefined();
+    });
+
     it('should handle basic GET request', async () => {
       const chain = createChain().use(async (ctx, next) => {
         ctx.response.json({ message: 'Hello from chain' });
@@ -140,7 +193,30 @@ describe('Fastify Adapter', () => {
 
       expect(reply.status).toHaveBeenCalledWith(200);
       expect(reply.send).toHaveBeenCalled();
-      expect(getBody()).toEqual({ message: 'Hello from chain' });
+      expect(await readJson(getBody())).toEqual({ message: 'Hello from chain' });
+    });
+
+    it('should pass the socket address to the chain', async () => {
+      const chain = createChain({ trustProxy: 'loopback' }).use(async (ctx, next) => {
+        ctx.response.json({ ip: ctx.meta.ip });
+        await next();
+        return { done: false };
+      });
+
+      const plugin = toFastify(chain);
+      const { fastify, getHooks } = createMockFastify();
+      await plugin(fastify, {});
+
+      const headers = { 'x-forwarded-for': '203.0.113.5' };
+      const proxied = createMockFastifyReply();
+      const direct = createMockFastifyReply();
+
+      const hookFn = getHooks()['onRequest'][0];
+      await hookFn(createMockFastifyRequest({ headers }), proxied.reply);
+      await hookFn(createMockFastifyRequest({ headers, remoteAddress: '192.0.2.1' }), direct.reply);
+
+      expect(await readJson(proxied.getBody())).toEqual({ ip: '203.0.113.5' });
+      expect(await readJson(direct.getBody())).toEqual({ ip: '192.0.2.1' });
     });
 
     it('should set response status from chain', async () => {
@@ -268,7 +344,8 @@ describe('Fastify Adapter', () => {
       const hookFn = getHooks()['onRequest'][0];
       await hookFn(request, reply);
 
-      expect(getBody()).toBe('Hello World');
+      expect(getBody()).toBeInstanceOf(Readable);
+      expect((await readBody(getBody())).toString()).toBe('Hello World');
     });
 
     it('should handle empty body response', async () => {
@@ -393,7 +470,7 @@ describe('Fastify Adapter', () => {
 
       await preHandler(request, reply);
 
-      expect(getBody()).toEqual({ auth: 'passed' });
+      expect(await readJson(getBody())).toEqual({ auth: 'passed' });
     });
 
     it('should short-circuit on error status', async () => {
@@ -427,4 +504,133 @@ describe('Fastify Adapter', () => {
       expect(reply.send).not.toHaveBeenCalled();
     });
   });
+
+  describe('streaming', () => {
+    it('should send stream bodies without buffering', async () => {
+      let produced = false;
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          produced = true;
+          await writer.write('a,b\n');
+          await writer.write('1,2\n');
+        }, 'text/csv');
+        await next();
+        return { done: false };
+      });
+
+      const plugin = toFastify(chain);
+      const { fastify, getHooks } = createMockFastify();
+      await plugin(fastify, {});
+
+      const { reply, getBody, getHeaders } = createMockFastifyReply();
+      await getHooks()['onRequest'][0](createMockFastifyRequest(), reply);
+
+      // Nothing is produced until Fastify reads the body
+      expect(produced).toBe(false);
+      expect(getHeaders()['content-type']).toBe('text/csv');
+      expect((await readBody(getBody())).toString()).toBe('a,b\n1,2\n');
+    });
+
+    it('should stream JSON with a Content-Encoding', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setHeader('Content-Encoding', 'identity').json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const plugin = toFastify(chain);
+      const { fastify, getHooks } = createMockFastify();
+      await plugin(fastify, {});
+
+      const { reply, getBody } = createMockFastifyReply();
+      await getHooks()['onRequest'][0](createMockFastifyRequest(), reply);
+
+      expect((await readBody(getBody())).toString()).toBe('{"ok":true}');
+    });
+
+    it('should stream JSON bodies with their Content-Length', async () => {
+      const rows = JSON.stringify([{ id: 1 }, { id: 2 }]);
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setHeader('Content-Type', 'application/json');
+        ctx.response.setHeader('Content-Length', String(rows.length));
+        ctx.response.body = rows;
+        await next();
+        return { done: false };
+      });
+
+      const plugin = toFastify(chain);
+      const { fastify, getHooks } = createMockFastify();
+      await plugin(fastify, {});
+
+      const { reply, getBody, getHeaders } = createMockFastifyReply();
+      await getHooks()['onRequest'][0](createMockFastifyRequest(), reply);
+
+      expect(getBody()).toBeInstanceOf(Readable);
+      expect(getHeaders()['content-length']).toBe(String(rows.length));
+      expect((await readBody(getBody())).toString()).toBe(rows);
+    });
+  });
+
+  describe('errors', () => {
+    it('should send the onError response when the chain throws', async () => {
+      const chain = createChain({
+        onError: (error) => Response.json({ error: (error as Error).message }, { status: 500 }),
+      }).use(async () => {
+        throw new Error('Test error');
+      });
+
+      const plugin = toFastify(chain);
+      const { fastify, getHooks } = createMockFastify();
+      await plugin(fastify, {});
+
+      const { reply, getStatus, getBody } = createMockFastifyReply();
+      await getHooks()['onRequest'][0](createMockFastifyRequest(), reply);
+
+      expect(getStatus()).toBe(500);
+      expect(await readJson(getBody())).toEqual({ error: 'Test error' });
+    });
+  });
+
+  describe('cookies', () => {
+    it('should send every Set-Cookie header', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setCookie('a', '1').setCookie('b', '2').json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const plugin = toFastify(chain);
+      const { fastify, getHooks } = createMockFastify();
+      await plugin(fastify, {});
+
+      const { reply, getHeaders } = createMockFastifyReply();
+      await getHooks()['onRequest'][0](createMockFastifyRequest(), reply);
+
+      expect(getHeaders()['set-cookie']).toEqual(['a=1; Path=/', 'b=2; Path=/']);
+      expect(reply.header).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should abort ctx.signal when the client disconnects', async () => {
+      let signal: AbortSignal | undefined;
+      let disconnect = (): void => {};
+
+      const chain = createChain().use(async (ctx, next) => {
+        signal = ctx.signal;
+        disconnect();
+        ctx.response.json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const preHandler = fastifyPreHandler(chain);
+      const mock = createMockFastifyReply();
+      disconnect = mock.disconnect;
+
+      await preHandler(createMockFastifyRequest(), mock.reply);
+
+      expect(signal?.aborted).toBe(true);
+    });
+  });
 });
@@ -48,7 +48,9 @@ export function toHono(
 
   return async (c: Context, next: Next): Promise<Response | void> => {
     // Hono uses Fetch API, so we can use the request directly
-    const response = await chain.handle(c.req.raw);
+    const response = await chain.handle(c.req.raw, undefined, {
+      remoteAddress: getRemoteAddress(c),
+    });
 
     // Check if chain produced a meaningful response
     const hasContent = response.headers.has('Content-Type') ||
@@ -99,6 +101,18 @@ export function toHono(
  */
 export function honoHandler(chain: MiddlewareChain): MiddlewareHandler {
   return async (c: Context): Promise<Response> => {
-    return chain.handle(c.req.raw);
+    return chain.handle(c.req.raw, undefined, { remoteAddress: getRemoteAddress(c) });
   };
 }
+
+/**
+ * Get the socket address from the Node.js server bindings, if present.
+ * Other runtimes do not expose it through the context.
+ *
+ * @param c - Hono context
+ * @returns Remote address, if known
+ */
+function getRemoteAddress(c: Context): string | undefined {
+  const env = c.env as { incoming?: { socket?: { remoteAddress?: string } } } | undefined;
+  return env?.incoming?.socket?.remoteAddress;
+}
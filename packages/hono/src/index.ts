@@ -29,3 +29,4 @@
  */
 
 export { toHono, honoHandler, type HonoAdapterOptions } from './adapter.js';
+export { closeOnSignal, type CloseOnSignalOptions } from '@openmiddleware/chain';
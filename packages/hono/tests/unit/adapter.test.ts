@@ -8,6 +8,7 @@ function createMockContext(options: {
   method?: string;
   url?: string;
   headers?: Record<string, string>;
+  env?: unknown;
 } = {}): {
   ctx: Context;
   getHeaders: () => Record<string, string>;
@@ -16,6 +17,7 @@ function createMockContext(options: {
     method = 'GET',
     url = 'http://localhost:3000/test',
     headers = {},
+    env,
   } = options;
 
   const requestHeaders = new Headers(headers);
@@ -29,6 +31,7 @@ function createMockContext(options: {
       url,
       headers: requestHeaders,
     },
+    env,
     header: vi.fn((name: string, value: string) => {
       responseHeaders[name] = value;
     }),
@@ -232,5 +235,23 @@ describe('Hono Adapter', () => {
 
       expect(authHeader).toBe('Bearer token123');
     });
+
+    it('should pass the Node.js socket address to the chain', async () => {
+      const chain = createChain({ trustProxy: false }).use(async (ctx, next) => {
+        ctx.response.json({ ip: ctx.meta.ip });
+        await next();
+        return { done: false };
+      });
+
+      const handler = honoHandler(chain);
+      const { ctx } = createMockContext({
+        headers: { 'X-Forwarded-For': '203.0.113.5' },
+        env: { incoming: { socket: { remoteAddress: '::ffff:192.0.2.1' } } },
+      });
+
+      const response = await handler(ctx, vi.fn());
+
+      expect(await response.json()).toEqual({ ip: '192.0.2.1' });
+    });
   });
 });
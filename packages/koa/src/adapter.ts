@@ -1,5 +1,7 @@
 import type { MiddlewareChain } from '@openmiddleware/chain';
 import type { Middleware, Context, Next } from 'koa';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
 
 /**
  * Options for the Koa adapter.
@@ -47,11 +49,13 @@ export function toKoa(
   const { passThrough = false } = options;
 
   return async (ctx: Context, next: Next): Promise<void> => {
-    // Convert Koa request to Fetch Request
-    const fetchRequest = koaToFetchRequest(ctx);
+    // Convert Koa request to Fetch Request, aborted if the client disconnects
+    const fetchRequest = koaToFetchRequest(ctx, disconnectSignal(ctx.res));
 
     // Execute the middleware chain
-    const response = await chain.handle(fetchRequest);
+    const response = await chain.handle(fetchRequest, undefined, {
+      remoteAddress: ctx.req.socket.remoteAddress,
+    });
 
     // Check if chain produced a meaningful response
     const hasContent = response.headers.has('Content-Type') ||
@@ -71,7 +75,7 @@ export function toKoa(
 /**
  * Convert Koa Context to Fetch API Request.
  */
-function koaToFetchRequest(ctx: Context): globalThis.Request {
+function koaToFetchRequest(ctx: Context, signal: AbortSignal): globalThis.Request {
   // Build URL
   const url = ctx.href;
 
@@ -92,6 +96,7 @@ function koaToFetchRequest(ctx: Context): globalThis.Request {
   const init: RequestInit = {
     method: ctx.method,
     headers,
+    signal,
   };
 
   // Add body for methods that support it
@@ -112,8 +117,23 @@ function koaToFetchRequest(ctx: Context): globalThis.Request {
   return new globalThis.Request(url, init);
 }
 
+/**
+ * Create a signal that aborts when the client disconnects before the response is finished.
+ * The chain exposes it as `ctx.signal`.
+ */
+function disconnectSignal(res: Context['res']): AbortSignal {
+  const controller = new AbortController();
+  res.once('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
 /**
  * Convert Fetch API Response to Koa response.
+ * Bodies are streamed without buffering, whatever their content type.
  */
 async function fetchToKoaResponse(
   fetchResponse: globalThis.Response,
@@ -124,20 +144,25 @@ async function fetchToKoaResponse(
 
   // Set headers
   fetchResponse.headers.forEach((value, key) => {
+    // Set-Cookie is set below - ctx.set() would keep only the last cookie
+    if (key.toLowerCase() === 'set-cookie') return;
     ctx.set(key, value);
   });
 
+  const cookies = fetchResponse.headers.getSetCookie();
+  if (cookies.length > 0) {
+    ctx.set('Set-Cookie', cookies);
+  }
+
   // Set body
-  const contentType = fetchResponse.headers.get('Content-Type') || '';
-
-  if (contentType.includes('application/json')) {
-    ctx.body = await fetchResponse.json();
-  } else if (contentType.includes('text/')) {
-    ctx.body = await fetchResponse.text();
-  } else {
-    const buffer = await fetchResponse.arrayBuffer();
-    if (buffer.byteLength > 0) {
-      ctx.body = Buffer.from(buffer);
-    }
+  if (!fetchResponse.body) return;
+
+  // Koa pipes the stream and destroys it if the client disconnects
+  ctx.body = Readable.fromWeb(fetchResponse.body as NodeReadableStream<Uint8Array>);
+
+  // Assigning a stream removes Content-Length, so restore the upstream one
+  const contentLength = fetchResponse.headers.get('Content-Length');
+  if (contentLength !== null) {
+    ctx.length = Number(contentLength);
   }
 }
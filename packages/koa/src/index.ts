@@ -30,3 +30,4 @@
  */
 
 export { toKoa, type KoaAdapterOptions } from './adapter.js';
+export { closeOnSignal, type CloseOnSignalOptions } from '@openmiddleware/chain';
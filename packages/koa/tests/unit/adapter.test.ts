@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { toKoa } from '../../src/adapter.js';
 import { createChain } from '@openmiddleware/chain';
 import type { Context, Next } from 'koa';
+import { Readable } from 'node:stream';
 
 // Mock Koa Context
 function createMockKoaContext(options: {
@@ -9,25 +10,39 @@ function createMockKoaContext(options: {
   url?: string;
   headers?: Record<string, string | string[] | undefined>;
   body?: unknown;
+  remoteAddress?: string;
 } = {}): {
   ctx: Context;
   getStatus: () => number;
   getHeaders: () => Record<string, string>;
   getBody: () => unknown;
+  disconnect: () => void;
 } {
   const {
     method = 'GET',
     url = '/test',
     headers = {},
     body,
+    remoteAddress = '127.0.0.1',
   } = options;
 
   let status = 200;
   const responseHeaders: Record<string, string> = {};
   let responseBody: unknown = null;
+  const closeListeners: Array<() => void> = [];
+
+  const res = {
+    writableFinished: false,
+    once: vi.fn((event: string, listener: () => void) => {
+      if (event === 'close') closeListeners.push(listener);
+      return res;
+    }),
+  };
 
   const ctx = {
     method,
+    req: { socket: { remoteAddress } },
+    res,
     href: `http://localhost:3000${url}`,
     headers: {
       host: 'localhost:3000',
@@ -55,6 +70,9 @@ function createMockKoaContext(options: {
     get body() {
       return responseBody;
     },
+    set length(value: number) {
+      responseHeaders['Content-Length'] = String(value);
+    },
   } as unknown as Context;
 
   return {
@@ -62,9 +80,24 @@ function createMockKoaContext(options: {
     getStatus: () => status,
     getHeaders: () => responseHeaders,
     getBody: () => responseBody,
+    disconnect: () => closeListeners.forEach((listener) => listener()),
   };
 }
 
+// Read a streamed response body
+async function readBody(body: unknown): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body as Readable) {
+    chunks.push(Buffer.from(chunk as Uint8Array));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Read a streamed JSON response body
+async function readJson(body: unknown): Promise<unknown> {
+  return JSON.parse((await readBody(body)).toString());
+}
+
 describe('Koa Adapter', () => {
   describe('toKoa', () => {
     it('should convert chain to Koa middleware', () => {
@@ -88,7 +121,26 @@ describe('Koa Adapter', () => {
 
       await middleware(ctx, nextFn);
 
-      expect(getBody()).toEqual({ message: 'Hello from chain' });
+      expect(await readJson(getBody())).toEqual({ message: 'Hello from chain' });
+    });
+
+    it('should pass the socket address to the chain', async () => {
+      const chain = createChain({ trustProxy: 'loopback' }).use(async (ctx, next) => {
+        ctx.response.json({ ip: ctx.meta.ip });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toKoa(chain);
+      const headers = { 'x-forwarded-for': '203.0.113.5' };
+      const proxied = createMockKoaContext({ headers });
+      const direct = createMockKoaContext({ headers, remoteAddress: '192.0.2.1' });
+
+      await middleware(proxied.ctx, vi.fn(async () => {}));
+      await middleware(direct.ctx, vi.fn(async () => {}));
+
+      expect(await readJson(proxied.getBody())).toEqual({ ip: '203.0.113.5' });
+      expect(await readJson(direct.getBody())).toEqual({ ip: '192.0.2.1' });
     });
 
     it('should set response status from chain', async () => {
@@ -191,7 +243,8 @@ describe('Koa Adapter', () => {
 
       await middleware(ctx, nextFn);
 
-      expect(getBody()).toBe('Hello World');
+      expect(getBody()).toBeInstanceOf(Readable);
+      expect((await readBody(getBody())).toString()).toBe('Hello World');
     });
 
     it('should handle binary response', async () => {
@@ -209,7 +262,8 @@ describe('Koa Adapter', () => {
 
       await middleware(ctx, nextFn);
 
-      expect(getBody()).toBeInstanceOf(Buffer);
+      expect(getBody()).toBeInstanceOf(Readable);
+      expect([...(await readBody(getBody()))]).toEqual([1, 2, 3, 4]);
     });
 
     it('should handle redirect response', async () => {
@@ -246,7 +300,7 @@ describe('Koa Adapter', () => {
 
       await middleware(ctx, nextFn);
 
-      expect(ctx.body).toEqual({ ok: true });
+      expect(await readJson(ctx.body)).toEqual({ ok: true });
     });
 
     it('should handle form-urlencoded body', async () => {
@@ -308,7 +362,149 @@ describe('Koa Adapter', () => {
 
       await middleware(ctx, nextFn);
 
-      expect(getBody()).toEqual({ method: 'GET' });
+      expect(await readJson(getBody())).toEqual({ method: 'GET' });
+    });
+  });
+
+  describe('streaming', () => {
+    it('should pipe stream bodies without buffering', async () => {
+      let produced = false;
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          produced = true;
+          await writer.write('a,b\n');
+          await writer.write('1,2\n');
+        }, 'text/csv');
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toKoa(chain);
+      const { ctx, getBody, getHeaders } = createMockKoaContext();
+
+      await middleware(ctx, vi.fn(async () => {}));
+
+      // Nothing is produced until Koa reads the body
+      expect(produced).toBe(false);
+      expect(getHeaders()['content-type']).toBe('text/csv');
+      expect((await readBody(getBody())).toString()).toBe('a,b\n1,2\n');
+    });
+
+    it('should stream JSON with a Content-Encoding', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setHeader('Content-Encoding', 'identity').json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toKoa(chain);
+      const { ctx, getBody } = createMockKoaContext();
+
+      await middleware(ctx, vi.fn(async () => {}));
+
+      expect((await readBody(getBody())).toString()).toBe('{"ok":true}');
+    });
+
+    it('should stream JSON bodies with their Content-Length', async () => {
+      const rows = JSON.stringify([{ id: 1 }, { id: 2 }]);
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setHeader('Content-Type', 'application/json');
+        ctx.response.setHeader('Content-Length', String(rows.length));
+        ctx.response.body = rows;
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toKoa(chain);
+      const { ctx, getBody, getHeaders } = createMockKoaContext();
+
+      await middleware(ctx, vi.fn(async () => {}));
+
+      expect(getBody()).toBeInstanceOf(Readable);
+      expect(getHeaders()['Content-Length']).toBe(String(rows.length));
+      expect((await readBody(getBody())).toString()).toBe(rows);
+    });
+
+    it('should stop the producer when the stream is destroyed', async () => {
+      let writerSignal: AbortSignal | undefined;
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.stream(async (writer) => {
+          writerSignal = writer.signal;
+          for (;;) await writer.write('tick');
+        });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toKoa(chain);
+      const { ctx, getBody } = createMockKoaContext();
+
+      await middleware(ctx, vi.fn(async () => {}));
+      const body = getBody() as Readable;
+      await new Promise((resolve) => body.once('data', resolve));
+      body.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(writerSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it('should send the onError response when the chain throws', async () => {
+      const chain = createChain({
+        onError: (error) => Response.json({ error: (error as Error).message }, { status: 500 }),
+      }).use(async () => {
+        throw new Error('Test error');
+      });
+
+      const middleware = toKoa(chain);
+      const { ctx } = createMockKoaContext();
+
+      await middleware(ctx, vi.fn(async () => {}));
+
+      expect(ctx.status).toBe(500);
+      expect(await readJson(ctx.body)).toEqual({ error: 'Test error' });
+    });
+  });
+
+  describe('cookies', () => {
+    it('should send every Set-Cookie header', async () => {
+      const chain = createChain().use(async (ctx, next) => {
+        ctx.response.setCookie('a', '1').setCookie('b', '2').json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toKoa(chain);
+      const { ctx } = createMockKoaContext();
+
+      await middleware(ctx, vi.fn(async () => {}));
+
+      expect(ctx.set).toHaveBeenCalledWith('Set-Cookie', ['a=1; Path=/', 'b=2; Path=/']);
+      expect(ctx.set).not.toHaveBeenCalledWith('set-cookie', expect.anything());
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should abort ctx.signal when the client disconnects', async () => {
+      let signal: AbortSignal | undefined;
+      let disconnect = (): void => {};
+
+      const chain = createChain().use(async (ctx, next) => {
+        signal = ctx.signal;
+        disconnect();
+        ctx.response.json({ ok: true });
+        await next();
+        return { done: false };
+      });
+
+      const middleware = toKoa(chain);
+      const mock = createMockKoaContext();
+      disconnect = mock.disconnect;
+
+      await middleware(mock.ctx, vi.fn() as unknown as Next);
+
+      expect(signal?.aborted).toBe(true);
     });
   });
 });
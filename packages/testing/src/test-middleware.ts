@@ -2,6 +2,7 @@ import type {
   Middleware,
   MiddlewareHandler,
   MiddlewareChain,
+  ServiceProvider,
 } from '@openmiddleware/chain';
 import { createChain } from '@openmiddleware/chain';
 import { mockRequest, type MockRequestOptions } from './mock-request.js';
@@ -14,6 +15,8 @@ export interface TestMiddlewareOptions extends MockRequestOptions {
   initialState?: Record<string, unknown>;
   /** Whether to expect the middleware to short-circuit */
   expectShortCircuit?: boolean;
+  /** Service providers for this call, replacing the chain's (e.g. fakes) */
+  services?: ServiceProvider[];
 }
 
 /**
@@ -58,7 +61,7 @@ export async function testMiddleware(
   middleware: Middleware | MiddlewareHandler,
   options: TestMiddlewareOptions = {}
 ): Promise<TestMiddlewareResult> {
-  const { initialState = {}, expectShortCircuit = false, ...requestOptions } = options;
+  const { initialState = {}, expectShortCircuit = false, services, ...requestOptions } = options;
 
   // Create a chain with just this middleware
   const chain = createChain().use(middleware);
@@ -78,7 +81,7 @@ export async function testMiddleware(
   const request = mockRequest(requestOptions);
 
   // Execute chain
-  const response = await chain.handle(request, initialState);
+  const response = await chain.handle(request, initialState, { services });
 
   // Parse response
   const headers: Record<string, string> = {};
@@ -126,19 +129,22 @@ export async function testMiddleware(
  * });
  *
  * expect(result.status).toBe(200);
+ *
+ * // Swap a service for this call only
+ * await testChain(chain, { services: [provide(DbToken, { value: fakeDb })] });
  * ```
  */
 export async function testChain(
   chain: MiddlewareChain,
   options: TestMiddlewareOptions = {}
 ): Promise<TestMiddlewareResult> {
-  const { initialState = {}, ...requestOptions } = options;
+  const { initialState = {}, services, ...requestOptions } = options;
 
   // Create mock request
   const request = mockRequest(requestOptions);
 
   // Execute chain
-  const response = await chain.handle(request, initialState);
+  const response = await chain.handle(request, initialState, { services });
 
   // Parse response
   const headers: Record<string, string> = {};
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { testMiddleware, testChain } from '../../src/test-middleware.js';
-import { createChain } from '@openmiddleware/chain';
+import { createChain, createToken, provide } from '@openmiddleware/chain';
 
 describe('Test Middleware', () => {
   describe('testMiddleware', () => {
@@ -132,6 +132,25 @@ describe('Test Middleware', () => {
       expect(result.json).toEqual({ chain: 'tested' });
     });
 
+    it('should swap service providers per call', async () => {
+      const GreetingToken = createToken<string>('greeting');
+      const chain = createChain({
+        services: [provide(GreetingToken, { value: 'hello' })],
+      }).use(async (ctx, next) => {
+        ctx.response.json({ greeting: ctx.get(GreetingToken) });
+        await next();
+        return { done: false };
+      });
+
+      const swapped = await testChain(chain, {
+        services: [provide(GreetingToken, { value: 'fake' })],
+      });
+      const real = await testChain(chain);
+
+      expect(swapped.json).toEqual({ greeting: 'fake' });
+      expect(real.json).toEqual({ greeting: 'hello' });
+    });
+
     it('should test chain with multiple middlewares', async () => {
       const order: number[] = [];
 